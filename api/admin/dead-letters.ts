@@ -0,0 +1,82 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { AbsenceWebhookProcessor } from '../../lib/absence-webhook';
+import { DeadLetterStore, DeadLetterStatus, retryDeadLetter } from '../../lib/dead-letter';
+import { requireAdmin } from '../../lib/admin-auth';
+import { getConfig } from '../../lib/config';
+
+/**
+ * Admin endpoint: manage the webhook dead-letter queue
+ *
+ * GET  /api/admin/dead-letters                  → List dead letters
+ *      ?status=pending|exhausted|resolved|discarded
+ * GET  /api/admin/dead-letters?id=xxx           → One dead letter
+ * POST /api/admin/dead-letters  { id, action }  → action "retry" (run now,
+ *      regardless of backoff) or "discard" (stop retrying, leave Flip as is)
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const store = new DeadLetterStore(undefined, {
+      maxAttempts: getConfig().deadLetter.maxAttempts,
+    });
+
+    if (req.method === 'GET') {
+      if (req.query.id) {
+        const letter = await store.get(req.query.id as string);
+        res.status(letter ? 200 : 404).json(letter ? { dead_letter: letter } : { error: 'Not found' });
+        return;
+      }
+
+      const letters = await store.list(req.query.status as DeadLetterStatus | undefined);
+      res.status(200).json({ status: 'ok', total: letters.length, dead_letters: letters });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed. Use GET or POST.' });
+      return;
+    }
+
+    const id = req.body?.id as string | undefined;
+    const action = req.body?.action as string | undefined;
+    if (!id || (action !== 'retry' && action !== 'discard')) {
+      res.status(400).json({ error: 'Body must be { "id": "...", "action": "retry" | "discard" }' });
+      return;
+    }
+
+    const letter = await store.get(id);
+    if (!letter) {
+      res.status(404).json({ error: `Dead letter ${id} not found` });
+      return;
+    }
+
+    if (action === 'discard') {
+      const discarded = await store.discard(id);
+      console.log(`[Admin] Discarded dead letter ${id}`);
+      res.status(200).json({ status: 'ok', dead_letter: discarded });
+      return;
+    }
+
+    if (letter.status === 'resolved' || letter.status === 'discarded') {
+      res.status(409).json({ error: `Dead letter ${id} is already ${letter.status}` });
+      return;
+    }
+
+    const { breathe, flip, userMapping } = createClients();
+    const processor = new AbsenceWebhookProcessor(breathe, flip, userMapping);
+    const updated = await retryDeadLetter(letter, store, processor, flip);
+
+    res.status(200).json({ status: 'ok', dead_letter: updated });
+  } catch (error) {
+    console.error('[Admin] Error:', error);
+    res.status(500).json({
+      error: 'Failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
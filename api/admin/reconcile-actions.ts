@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/admin-auth';
+import { ReconcileActionLog } from '../../lib/reconcile-log';
+
+/**
+ * Admin endpoint: the reconciler's action log
+ *
+ * GET /api/admin/reconcile-actions              → Newest actions first
+ *     ?run_id=xxx   → only one reconciliation run
+ *     ?limit=50     → at most this many (default 100)
+ *
+ * Each entry has the Flip request's state before and after the action.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const actions = await new ReconcileActionLog().list({
+      runId: req.query.run_id as string | undefined,
+      limit: parseInt((req.query.limit as string) || '100', 10) || 100,
+    });
+    res.status(200).json({ status: 'ok', total: actions.length, actions });
+  } catch (error) {
+    console.error('[Admin] Error:', error);
+    res.status(500).json({
+      error: 'Failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { getConfig } from '../../lib/config';
+import { requireAdmin } from '../../lib/admin-auth';
+import { AbsenceLinkStore } from '../../lib/link-store';
+import { getPolicyIdsByExternalId } from '../../lib/absence-sync';
+import {
+  buildReconciliationReport,
+  reconciliationReportToCsv,
+} from '../../lib/reconciliation';
+
+/**
+ * Admin endpoint: BreatheHR ↔ Flip reconciliation report
+ *
+ * GET /api/admin/reconciliation               → JSON report
+ * GET /api/admin/reconciliation?format=csv    → one CSV row per issue
+ *
+ * For every mapped employee, lists absences and leave requests whose Flip
+ * status, dates, half days, policy or duration differ from BreatheHR,
+ * Flip requests with no BreatheHR counterpart, and BreatheHR leave that
+ * never reached Flip (see lib/reconciliation.ts). Nothing is written.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const format = (req.query.format as string | undefined) || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    res.status(400).json({ error: 'format must be "json" or "csv"' });
+    return;
+  }
+
+  try {
+    const { breathe, flip, userMapping } = createClients();
+
+    const mappings = await userMapping.getAllMappings();
+    console.log(`[Admin] Building reconciliation report for ${mappings.length} mapped users`);
+
+    const report = await buildReconciliationReport({
+      breathe,
+      flip,
+      links: new AbsenceLinkStore(),
+      mappings,
+      policyByExternalId: await getPolicyIdsByExternalId(flip),
+      concurrency: getConfig().sync.concurrency,
+    });
+
+    console.log(`[Admin] Reconciliation summary: ${JSON.stringify(report.summary)}`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="reconciliation-${report.generated_at.slice(0, 10)}.csv"`
+      );
+      res.status(200).send(reconciliationReportToCsv(report));
+      return;
+    }
+
+    res.status(200).json({ status: 'ok', ...report });
+  } catch (error) {
+    console.error('[Admin] Reconciliation report failed:', error);
+    res.status(500).json({
+      error: 'Reconciliation report failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
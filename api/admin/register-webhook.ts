@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { FlipClient } from '../../lib/flip';
+import { createClients } from '../../lib/clients';
 
 /**
  * Admin endpoint for webhook management in Flip.
@@ -14,7 +14,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const flip = new FlipClient();
+    const { flip } = createClients();
     const token = await flip.getAccessToken();
     const flipBaseUrl = process.env.FLIP_BASE_URL || 'https://show.flipnext.de';
 
@@ -0,0 +1,179 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { AbsenceWebhookProcessor } from '../../lib/absence-webhook';
+import { requireAdmin } from '../../lib/admin-auth';
+import {
+  createWebhookLogEntry,
+  getWebhookLog,
+  getWebhookLogs,
+  logWebhook,
+  WebhookLogEntry,
+  WebhookItemLog,
+} from '../../lib/webhook-log';
+
+/**
+ * Admin endpoint: replay stored webhook deliveries
+ *
+ * POST /api/admin/replay-webhooks
+ *
+ * Re-runs the absence create/cancel handlers for items of deliveries kept
+ * in the webhook log — e.g. after BreatheHR was down or a user mapping
+ * was missing.
+ *
+ * Body (or query string):
+ *   delivery_id         → replay one delivery
+ *   — or a filtered set (same filters as the webhook log):
+ *   event_type, flip_user_id, absence_request_id,
+ *   status (default "failed"), since, until, limit (default 20)
+ *
+ *   all_items=true      → replay every item, not only failed / unfinished ones
+ *   dry_run=true        → only report what would happen; nothing is written
+ *
+ * Deliveries that failed signature verification are never replayed.
+ * Replays skip webhook deduplication, but creation is still guarded by the
+ * link store, so an already-created leave request is not created twice.
+ * Each non-dry-run replay is written to the webhook log with `replay_of`.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const params = { ...(req.query as Record<string, unknown>), ...(req.body || {}) };
+  const dryRun = params.dry_run === true || params.dry_run === 'true';
+  const allItems = params.all_items === true || params.all_items === 'true';
+  const eventType = params.event_type as string | undefined;
+  const flipUserId = params.flip_user_id as string | undefined;
+  const absenceRequestId = params.absence_request_id as string | undefined;
+
+  try {
+    let deliveries: WebhookLogEntry[];
+    if (params.delivery_id) {
+      const entry = await getWebhookLog(String(params.delivery_id));
+      if (!entry) {
+        res.status(404).json({ error: `Delivery ${params.delivery_id} not found` });
+        return;
+      }
+      deliveries = [entry];
+    } else {
+      deliveries = await getWebhookLogs({
+        eventType,
+        flipUserId,
+        absenceRequestId,
+        status: (params.status as string) || 'failed',
+        since: params.since as string | undefined,
+        until: params.until as string | undefined,
+        limit: parseInt(String(params.limit), 10) || 20,
+      });
+    }
+
+    // Never replay our own replays or deliveries that failed verification
+    deliveries = deliveries.filter((d) => d.status !== 'rejected' && !d.replay_of);
+
+    console.log(
+      `[Replay] Replaying ${deliveries.length} deliveries` +
+        `${dryRun ? ' (dry run)' : ''}${allItems ? ' (all items)' : ''}`
+    );
+
+    const { breathe, flip, userMapping } = createClients();
+    const processor = new AbsenceWebhookProcessor(breathe, flip, userMapping);
+    const report: Array<Record<string, unknown>> = [];
+
+    for (const delivery of deliveries) {
+      const body = delivery.body as { items?: Array<{ type?: string; data?: Record<string, unknown> }> };
+      const items = body?.items || [];
+      const replayed: Array<Record<string, unknown>> = [];
+      const itemLogs: WebhookItemLog[] = [];
+
+      for (let i = 0; i < items.length; i++) {
+        const itemType = items[i].type || '';
+        const data = items[i].data || {};
+        const previous = delivery.items[i];
+
+        if (!allItems && previous && !['failed', 'in_progress'].includes(previous.status)) {
+          continue;
+        }
+        if (eventType && itemType !== eventType) continue;
+        if (flipUserId && data.absentee !== flipUserId) continue;
+        if (absenceRequestId && data.id !== absenceRequestId) continue;
+
+        if (dryRun) {
+          const plan = await processor.planItem(itemType, data);
+          replayed.push({
+            type: itemType,
+            absence_request_id: data.id ?? null,
+            previous_status: previous?.status ?? null,
+            ...plan,
+          });
+          continue;
+        }
+
+        const startedAt = Date.now();
+        const itemLog: WebhookItemLog = {
+          type: itemType,
+          absence_request_id: (data.id as string) || null,
+          flip_user_id: (data.absentee as string) || null,
+          status: 'processed',
+          started_at: new Date(startedAt).toISOString(),
+          duration_ms: 0,
+        };
+
+        try {
+          const processed = await processor.processItem(itemType, data);
+          Object.assign(itemLog, processed);
+        } catch (error) {
+          console.error(`[Replay] Item ${itemType} ${data.id} failed again:`, error);
+          itemLog.status = 'failed';
+          itemLog.error = error instanceof Error ? error.message : String(error);
+        }
+
+        itemLog.duration_ms = Date.now() - startedAt;
+        itemLogs.push(itemLog);
+        replayed.push({ ...itemLog, previous_status: previous?.status ?? null });
+      }
+
+      if (!dryRun && itemLogs.length > 0) {
+        const failedCount = itemLogs.filter((i) => i.status === 'failed').length;
+        const replayEntry = createWebhookLogEntry({
+          method: 'REPLAY',
+          headers: {},
+          body: delivery.body,
+        });
+        replayEntry.replay_of = delivery.id;
+        replayEntry.items = itemLogs;
+        replayEntry.status =
+          failedCount === 0 ? 'ok' : failedCount === itemLogs.length ? 'failed' : 'partial';
+        replayEntry.result = `replayed ${itemLogs.length} items, ${failedCount} failed`;
+        await logWebhook(replayEntry);
+      }
+
+      report.push({
+        delivery_id: delivery.id,
+        batch_id: delivery.batch_id ?? null,
+        received_at: delivery.timestamp,
+        original_status: delivery.status,
+        items: replayed,
+      });
+    }
+
+    res.status(200).json({
+      status: 'ok',
+      dry_run: dryRun,
+      deliveries: report.length,
+      replayed_items: report.reduce((n, d) => n + (d.items as unknown[]).length, 0),
+      report,
+    });
+  } catch (error) {
+    console.error('[Replay] Error:', error);
+    res.status(500).json({
+      error: 'Replay failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
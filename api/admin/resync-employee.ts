@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { requireAdmin } from '../../lib/admin-auth';
+import { getConfig } from '../../lib/config';
+import { AbsenceLinkStore } from '../../lib/link-store';
+import { getPolicyIdsByExternalId, syncEmployeeAbsences } from '../../lib/absence-sync';
+import { jobLockTtlMs, LockHeldError, SharedLock } from '../../lib/lock';
+import { PendingRepairStore } from '../../lib/pending-repair';
+
+/**
+ * Admin endpoint: resync one employee's absences on demand
+ *
+ * POST /api/admin/resync-employee
+ *
+ * Body (or query string), one of:
+ *   flip_user_id → the Flip user
+ *   breathe_ref  → the BreatheHR employee ref (Flip's ExtHRRef)
+ *
+ * Runs a start → push → complete cycle scoped to that Flip user, so only
+ * their absence requests are replaced. If their BreatheHR data can't be
+ * fetched nothing is started; if the push fails the sync is cancelled.
+ * Leave requests whose webhook creation is still waiting for its Flip
+ * patch (lib/pending-repair.ts) are pushed under their Flip request id, as
+ * in the scheduled absence sync, so the original isn't replaced.
+ *
+ * Takes the "sync" lock (lib/lock.ts) for the cycle, so it never overlaps
+ * the scheduled syncs; while one of them runs, responds 409.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const params = { ...(req.query as Record<string, unknown>), ...(req.body || {}) };
+  const flipUserId = params.flip_user_id ? String(params.flip_user_id) : undefined;
+  const breatheRef = params.breathe_ref ? String(params.breathe_ref) : undefined;
+
+  if (!flipUserId && !breatheRef) {
+    res.status(400).json({ error: 'Provide flip_user_id or breathe_ref' });
+    return;
+  }
+
+  try {
+    const { breathe, flip, userMapping } = createClients();
+
+    const mapping = flipUserId
+      ? await userMapping.getMappingByFlipUserId(flipUserId)
+      : await userMapping.getMappingByRef(breatheRef!);
+    if (!mapping) {
+      res.status(404).json({
+        error: flipUserId
+          ? `No BreatheHR employee mapped to Flip user ${flipUserId}`
+          : `No Flip user mapped to BreatheHR ref ${breatheRef}`,
+      });
+      return;
+    }
+
+    console.log(
+      `[Admin] Resyncing absences for employee ${mapping.breatheEmployeeId} ` +
+        `(Flip user ${mapping.flipUserId})`
+    );
+
+    const result = await new SharedLock().run('sync', jobLockTtlMs(), async () =>
+      syncEmployeeAbsences({
+        breathe,
+        flip,
+        links: new AbsenceLinkStore(),
+        mapping,
+        policyByExternalId: await getPolicyIdsByExternalId(flip),
+        batchSize: getConfig().sync.batchSize,
+        pendingRepairs: await new PendingRepairStore().list(),
+      })
+    );
+
+    res.status(result.status === 'ok' ? 200 : 502).json(result);
+  } catch (error) {
+    if (error instanceof LockHeldError) {
+      res.status(409).json({
+        error: 'A sync is running, try again once it has finished',
+        locked_until: error.lease.expiresAt,
+      });
+      return;
+    }
+    console.error('[Admin] Employee resync failed:', error);
+    res.status(500).json({
+      error: 'Employee resync failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
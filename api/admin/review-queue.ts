@@ -0,0 +1,70 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/admin-auth';
+import { ReviewQueueStore, ReviewStatus } from '../../lib/review-queue';
+
+/**
+ * Admin endpoint: drift the reconciler left for a person to review
+ *
+ * GET  /api/admin/review-queue                        → List items
+ *      ?status=open|resolved|dismissed
+ * GET  /api/admin/review-queue?id=xxx                 → One item
+ * POST /api/admin/review-queue  { id, action, note? } → action "resolve"
+ *      (fixed by hand) or "dismiss" (nothing to do)
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const store = new ReviewQueueStore();
+
+    if (req.method === 'GET') {
+      if (req.query.id) {
+        const item = await store.get(req.query.id as string);
+        res.status(item ? 200 : 404).json(item ? { item } : { error: 'Not found' });
+        return;
+      }
+
+      const items = await store.list(req.query.status as ReviewStatus | undefined);
+      res.status(200).json({ status: 'ok', total: items.length, items });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed. Use GET or POST.' });
+      return;
+    }
+
+    const id = req.body?.id as string | undefined;
+    const action = req.body?.action as string | undefined;
+    const note = req.body?.note as string | undefined;
+    if (!id || (action !== 'resolve' && action !== 'dismiss')) {
+      res.status(400).json({ error: 'Body must be { "id": "...", "action": "resolve" | "dismiss" }' });
+      return;
+    }
+
+    const item = await store.get(id);
+    if (!item) {
+      res.status(404).json({ error: `Review item ${id} not found` });
+      return;
+    }
+    if (item.status !== 'open') {
+      res.status(409).json({ error: `Review item ${id} is already ${item.status}` });
+      return;
+    }
+
+    const updated =
+      action === 'resolve' ? await store.resolve(id, note) : await store.dismiss(id, note);
+    console.log(`[Admin] Review item ${id}: ${updated?.status}`);
+
+    res.status(200).json({ status: 'ok', item: updated });
+  } catch (error) {
+    console.error('[Admin] Error:', error);
+    res.status(500).json({
+      error: 'Failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { FlipClient } from '../../lib/flip';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint to list absence requests from Flip
@@ -12,7 +12,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const flip = new FlipClient();
+    const { flip } = createClients();
     const token = await flip.getAccessToken();
     const flipBaseUrl = process.env.FLIP_BASE_URL || 'https://show.flipnext.de';
     const userId = req.query.user_id as string | undefined;
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { FlipClient } from '../../lib/flip';
+import { createClients } from '../../lib/clients';
 import { getConfig } from '../../lib/config';
 
 /**
@@ -14,7 +14,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const flip = new FlipClient();
+    const { flip } = createClients();
     const config = getConfig();
 
     // Get the Annual Leave policy
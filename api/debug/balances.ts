@@ -1,7 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint to inspect balance data from both systems
@@ -15,9 +13,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const breathe = new BreatheHRClient();
-    const flip = new FlipClient();
-    const userMapping = new UserMappingService(breathe, flip);
+    const { breathe, flip, userMapping } = createClients();
 
     const mappings = await userMapping.getAllMappings();
     const lukeMapping = mappings[0]; // Luke is the only mapped user
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint to see raw BreatheHR absences for Luke
@@ -9,7 +9,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const breathe = new BreatheHRClient();
+    const { breathe } = createClients();
 
     // Luke's BreatheHR employee ID
     const employeeId = 2160859;
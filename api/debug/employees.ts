@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint: list BreatheHR employees
@@ -19,7 +19,7 @@ export default async function handler(
   }
 
   try {
-    const breathe = new BreatheHRClient();
+    const { breathe } = createClients();
     const result = await breathe.listEmployees(1, 5);
 
     // Return all fields so we can identify the "Ref" field name
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { FlipClient } from '../../lib/flip';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint: search Flip users
@@ -18,7 +18,7 @@ export default async function handler(
   }
 
   try {
-    const flip = new FlipClient();
+    const { flip } = createClients();
     const ref = req.query.ref as string | undefined;
     const search = req.query.search as string | undefined;
 
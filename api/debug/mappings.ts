@@ -1,7 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint: view user mappings
@@ -21,9 +19,7 @@ export default async function handler(
   }
 
   try {
-    const breathe = new BreatheHRClient();
-    const flip = new FlipClient();
-    const userMapping = new UserMappingService(breathe, flip);
+    const { breathe, flip, userMapping } = createClients();
 
     // Force refresh
     const mappings = await userMapping.refreshMappings();
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { FlipClient } from '../../lib/flip';
+import { createClients } from '../../lib/clients';
 
 /**
  * Debug endpoint to test the approve flow end-to-end
@@ -22,7 +22,7 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   try {
-    const flip = new FlipClient();
+    const { flip } = createClients();
 
     // List users mode — fetch first page only to avoid timeout
     // Use ?list_users=true or ?list_users=true&search=luke to search
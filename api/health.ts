@@ -1,6 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../lib/breathehr';
-import { FlipClient } from '../lib/flip';
+import { createClients } from '../lib/clients';
 
 /**
  * Health check endpoint
@@ -13,8 +12,7 @@ export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
-  const breathe = new BreatheHRClient();
-  const flip = new FlipClient();
+  const { breathe, flip } = createClients();
 
   const [breatheOk, flipOk] = await Promise.all([
     breathe.healthCheck(),
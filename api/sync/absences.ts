@@ -1,13 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
-import type {
-  FlipSyncAbsenceRequest,
-  AbsenceRequestStatus,
-  BreatheAbsence,
-  BreatheLeaveRequest,
-} from '../../lib/types';
+import { createClients } from '../../lib/clients';
+import { getConfig, parseAbsenceSyncMode } from '../../lib/config';
+import { absenceRunOutcome, runAbsenceSync } from '../../lib/absence-sync';
+import { getSyncTrigger, trackRun } from '../../lib/sync-runs';
+import { jobLockTtlMs, withLock } from '../../lib/lock';
 
 /**
  * Sync absence requests from BreatheHR to Flip
@@ -17,12 +13,50 @@ import type {
  * Uses Flip's sync lifecycle (start → push → complete).
  * The sync is a FULL REPLACEMENT — items not in the push data get removed.
  *
+ * Safety guard (lib/absence-sync-guard.ts): no Flip sync is started when
+ * any employee's BreatheHR data could not be fetched, or when the item
+ * count dropped more than ABSENCE_SYNC_MAX_DROP_PERCENT below the last
+ * completed run. The response then has status "cancelled" and the
+ * reason. Pass ?force=true to accept a large drop that is expected.
+ *
+ * Per-employee mode (?mode=per_employee, or ABSENCE_SYNC_MODE=per_employee)
+ * runs a separate lifecycle scoped to each mapped Flip user instead. An
+ * employee whose data can't be fetched or pushed is skipped/cancelled on
+ * its own; everyone else's sync still completes. The response lists each
+ * employee's result (207 when any failed). The drop guard does not apply.
+ * To resync a single employee, use POST /api/admin/resync-employee.
+ *
+ * Delta mode (?delta=true) only resyncs employees whose BreatheHR absences
+ * or leave requests changed since the last successful run (the watermark),
+ * each with its own scoped cycle. Deletions in BreatheHR aren't seen by
+ * it, so a full sync still has to run regularly — vercel.json runs delta
+ * syncs every 30 minutes and a full one nightly.
+ *
+ * ?dry_run=true builds the items, compares them with Flip's current absence
+ * requests and returns the diff (create / update / remove) — plus, for a
+ * tenant-wide sync, whether the guard would let it complete. No sync is
+ * started. Combines with ?mode.
+ *
+ * Before building items, webhook creations whose Flip external-id patch
+ * failed are repaired (lib/pending-repair.ts); ones still unrepaired are
+ * pushed with their Flip request id so they aren't duplicated.
+ *
  * DATA ONLY — no notification responsibility.
  * Notifications are handled by /api/sync/approval-check which runs
  * every 2 minutes and calls the Flip approve/reject endpoints.
  * This sync only ensures data consistency between BreatheHR and Flip.
+ *
+ * The sync itself lives in lib/absence-sync.ts (shared with /api/sync/all).
+ * Each run is recorded in the run history (GET /api/sync/runs); the
+ * response's run_id points at it.
+ *
+ * Holds the "sync" lock (lib/lock.ts), shared by /api/sync/all and the
+ * policy, balance and absence syncs: while one runs, the others respond
+ * "skipped: locked" without doing anything. Dry runs write nothing to
+ * Flip or to the link store, so they run without the lock — alongside a
+ * sync, and without holding one off.
  */
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -31,192 +65,32 @@ export default async function handler(
     return;
   }
 
-  let syncId: string | null = null;
-
   try {
     console.log('[SyncAbsences] Starting absence sync...');
 
-    const breathe = new BreatheHRClient();
-    const flip = new FlipClient();
-    const userMapping = new UserMappingService(breathe, flip);
-
-    // 1. Get all user mappings
-    const mappings = await userMapping.getAllMappings();
-    console.log(`[SyncAbsences] Processing ${mappings.length} mapped users`);
-
-    // 2. Get the policies from Flip so we can map leave reasons
-    const policiesResult = await flip.getAbsencePolicies();
-    const policies = policiesResult.items || [];
-    const policyByExternalId = new Map(
-      policies.filter((p) => p.external_id).map((p) => [p.external_id!, p.id])
-    );
-
-    // 3. Fetch absences AND leave requests, build sync items
-    const syncItems: FlipSyncAbsenceRequest[] = [];
-    const seenExternalIds = new Set<string>();
-    let absenceCount = 0;
-    let pendingCount = 0;
-    let rejectedCount = 0;
-    let errorCount = 0;
-
-    for (const mapping of mappings) {
-      try {
-        // Fetch both absences and leave requests
-        const absences = await breathe.getAllEmployeeAbsences(
-          mapping.breatheEmployeeId
-        );
-        const leaveRequests = await breathe.getAllEmployeeLeaveRequests(
-          mapping.breatheEmployeeId
-        );
-
-        // Build date→leave_request_id map for external_id matching
-        const leaveRequestMap = new Map<string, BreatheLeaveRequest>();
-        for (const lr of leaveRequests) {
-          if (lr.start_date && lr.end_date && lr.id) {
-            const key = `${lr.start_date}|${lr.end_date}`;
-            leaveRequestMap.set(key, lr);
-          }
-        }
-
-        console.log(
-          `[SyncAbsences] Employee ${mapping.breatheEmployeeId}: ` +
-            `${absences.length} absences, ${leaveRequests.length} leave requests`
-        );
-
-        // ----------------------------------------------------------
-        // A) Sync ABSENCES (approved/cancelled leave)
-        // ----------------------------------------------------------
-        for (const absence of absences) {
-          const syncItem = mapBreatheAbsenceToFlipSync(
-            absence,
-            mapping.flipUserId,
-            policyByExternalId,
-            leaveRequestMap
-          );
-          if (syncItem && syncItem.external_id) {
-            syncItems.push(syncItem);
-            seenExternalIds.add(syncItem.external_id);
-            absenceCount++;
-          }
-        }
-
-        // ----------------------------------------------------------
-        // B) Sync PENDING and DENIED leave requests
-        // ----------------------------------------------------------
-        // These don't appear in the absences endpoint but must be
-        // included in the sync to preserve webhook-created Flip entries.
-        for (const lr of leaveRequests) {
-          const lrStatus = ((lr.status || '') as string).toLowerCase();
-          const externalId = String(lr.id);
-
-          // Skip if already included via an absence (approved leave requests
-          // become absences and are handled in section A)
-          if (seenExternalIds.has(externalId)) continue;
-
-          if (lrStatus === 'pending') {
-            // Include PENDING leave requests so they're preserved in Flip
-            const syncItem = mapLeaveRequestToFlipSync(
-              lr,
-              mapping.flipUserId,
-              'PENDING'
-            );
-            if (syncItem) {
-              syncItems.push(syncItem);
-              seenExternalIds.add(externalId);
-              pendingCount++;
-              console.log(
-                `[SyncAbsences] Including PENDING leave request ${lr.id}: ` +
-                  `${lr.start_date} - ${lr.end_date}`
-              );
-            }
-          } else if (
-            lrStatus === 'denied' ||
-            lrStatus === 'rejected' ||
-            lrStatus === 'declined'
-          ) {
-            // Include REJECTED leave requests so users see the rejection
-            const syncItem = mapLeaveRequestToFlipSync(
-              lr,
-              mapping.flipUserId,
-              'REJECTED'
-            );
-            if (syncItem) {
-              syncItems.push(syncItem);
-              seenExternalIds.add(externalId);
-              rejectedCount++;
-              console.log(
-                `[SyncAbsences] Including REJECTED leave request ${lr.id}: ` +
-                  `${lr.start_date} - ${lr.end_date}`
-              );
-            }
-          }
-        }
-      } catch (error) {
-        console.error(
-          `[SyncAbsences] Error fetching data for employee ${mapping.breatheEmployeeId}:`,
-          error
-        );
-        errorCount++;
-      }
-    }
-
-    // ================================================================
-    // 4. NOTIFICATIONS are handled by /api/sync/approval-check
-    // ================================================================
-    // The approval-check endpoint runs every 2 minutes (via Vercel cron)
-    // and calls the Flip approve/reject endpoints when BreatheHR status
-    // changes. This sync only handles data consistency via bulk push.
-    // ================================================================
-
-    // 5. Start the sync in Flip
-    const syncResult = await flip.startAbsenceRequestSync();
-    syncId = syncResult.sync_id;
-    console.log(`[SyncAbsences] Started sync: ${syncId}`);
-
-    // 6. Push items in batches
-    const batchSize = 100;
-    for (let i = 0; i < syncItems.length; i += batchSize) {
-      const batch = syncItems.slice(i, i + batchSize);
-      await flip.syncAbsenceRequests(syncId, batch);
-      console.log(
-        `[SyncAbsences] Pushed batch ${Math.floor(i / batchSize) + 1} (${batch.length} items)`
-      );
-    }
-
-    // 7. Complete the sync
-    await flip.completeAbsenceRequestSync(syncId);
-
-    const totalSynced = absenceCount + pendingCount + rejectedCount;
-    console.log(
-      `[SyncAbsences] Sync complete. ` +
-        `Absences: ${absenceCount}, Pending: ${pendingCount}, ` +
-        `Rejected: ${rejectedCount}, Total: ${totalSynced}, ` +
-        `Errors: ${errorCount}`
+    const config = getConfig();
+    const dryRun = req.query.dry_run === 'true';
+    const { runId, result } = await trackRun(
+      { job: 'absences', trigger: getSyncTrigger(req), dryRun },
+      () =>
+        runAbsenceSync(createClients(), {
+          mode: req.query.mode ? parseAbsenceSyncMode(req.query.mode) : config.sync.absenceMode,
+          batchSize: config.sync.batchSize,
+          maxDropPercent: config.sync.maxAbsenceDropPercent,
+          dryRun,
+          force: req.query.force === 'true',
+          delta: req.query.delta === 'true',
+          deltaOverlapMs: config.sync.absenceDeltaOverlapMs,
+          concurrency: config.sync.concurrency,
+        }),
+      absenceRunOutcome
     );
 
-    res.status(200).json({
-      status: 'ok',
-      sync_id: syncId,
-      synced: totalSynced,
-      absences: absenceCount,
-      pending: pendingCount,
-      rejected: rejectedCount,
-      errors: errorCount,
-    });
+    const status =
+      result.status === 'cancelled' ? 409 : result.status === 'ok' ? 200 : 207;
+    res.status(status).json({ ...result, run_id: runId });
   } catch (error) {
     console.error('[SyncAbsences] Error:', error);
-
-    // Cancel the sync if it was started
-    if (syncId) {
-      try {
-        const flip = new FlipClient();
-        await flip.cancelAbsenceRequestSync(syncId);
-        console.log(`[SyncAbsences] Cancelled sync ${syncId} due to error`);
-      } catch (cancelError) {
-        console.error('[SyncAbsences] Failed to cancel sync:', cancelError);
-      }
-    }
-
     res.status(500).json({
       error: 'Absence sync failed',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -224,151 +98,14 @@ export default async function handler(
   }
 }
 
-/**
- * Map a BreatheHR absence to Flip's sync format
- *
- * Uses leave_request.id as external_id when a matching leave request
- * exists (for webhook-created entries), otherwise falls back to absence.id.
- */
-function mapBreatheAbsenceToFlipSync(
-  absence: BreatheAbsence,
-  flipUserId: string,
-  policyByExternalId: Map<string, string>,
-  leaveRequestMap: Map<string, BreatheLeaveRequest>
-): FlipSyncAbsenceRequest | null {
-  const isCancelled =
-    (absence as Record<string, unknown>).cancelled === true ||
-    (absence as Record<string, unknown>).cancelled === 'true';
-  const status: AbsenceRequestStatus = isCancelled ? 'CANCELLED' : 'APPROVED';
-
-  // Use leave_request.id as external_id when available (matches webhook entries)
-  const dateKey = `${absence.start_date}|${absence.end_date}`;
-  const matchingLR = leaveRequestMap.get(dateKey);
-  const externalId = matchingLR ? String(matchingLR.id) : String(absence.id);
-
-  // Determine the policy
-  let policyExternalId = 'annual_leave';
-  if (absence.leave_reason) {
-    const leaveReasonId =
-      (absence as Record<string, unknown>).leave_reason_id ||
-      (absence as Record<string, unknown>).other_leave_reason_id;
-    if (leaveReasonId && policyByExternalId.has(String(leaveReasonId))) {
-      policyExternalId = String(leaveReasonId);
-    }
-  }
-
-  const startsFromType = absence.half_start ? 'SECOND_HALF' : undefined;
-  const endsAtType = absence.half_end ? 'FIRST_HALF' : undefined;
-
-  return {
-    id: null,
-    external_id: externalId,
-    approver: null,
-    absentee: flipUserId,
-    duration: absence.deducted
-      ? { amount: parseFloat(String(absence.deducted)) || 0, unit: 'DAYS' }
-      : undefined,
-    policy: {
-      external_id: policyExternalId,
-    },
-    requestor_comment: absence.notes || null,
-    status,
-    last_updated: absence.updated_at || null,
-    starts_from: {
-      date: absence.start_date
-        ? `${absence.start_date}T00:00:00`
-        : absence.start_date,
-      type: startsFromType,
-    },
-    ends_at: {
-      date: absence.end_date
-        ? `${absence.end_date}T00:00:00`
-        : absence.end_date,
-      type: endsAtType,
-    },
-  };
-}
-
-/**
- * Map a BreatheHR leave request (pending or rejected) to Flip's sync format
- *
- * Used for leave requests that haven't become absences yet (still pending)
- * or were rejected/denied. Including these in the sync prevents the
- * full-replacement lifecycle from destroying webhook-created Flip entries.
- *
- * For REJECTED leave requests, we try to find and append the manager's
- * rejection reason to the requestor_comment so it's visible in Flip.
- */
-function mapLeaveRequestToFlipSync(
-  lr: BreatheLeaveRequest,
-  flipUserId: string,
-  status: AbsenceRequestStatus
-): FlipSyncAbsenceRequest | null {
-  if (!lr.start_date || !lr.end_date) return null;
-
-  const startsFromType = (lr.half_start || lr.start_half_day)
-    ? 'SECOND_HALF'
-    : undefined;
-  const endsAtType = (lr.half_end || lr.end_half_day)
-    ? 'FIRST_HALF'
-    : undefined;
+const lockedHandler = withLock('sync', jobLockTtlMs, handler);
 
-  // Build the comment — for rejected requests, append any manager rejection reason
-  let comment = lr.notes || null;
-  if (status === 'REJECTED') {
-    const rejectionReason = extractRejectionReason(lr);
-    if (rejectionReason) {
-      comment = comment
-        ? `${comment}\n\n--- Manager's reason: ${rejectionReason}`
-        : `Manager's reason: ${rejectionReason}`;
-    }
+export default async function absencesRoute(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.query.dry_run === 'true') {
+    return handler(req, res);
   }
-
-  return {
-    id: null,
-    external_id: String(lr.id),
-    approver: null,
-    absentee: flipUserId,
-    duration: undefined,
-    policy: {
-      external_id: 'annual_leave',
-    },
-    requestor_comment: comment,
-    status,
-    last_updated: lr.updated_at || null,
-    starts_from: {
-      date: `${lr.start_date}T00:00:00`,
-      type: startsFromType,
-    },
-    ends_at: {
-      date: `${lr.end_date}T00:00:00`,
-      type: endsAtType,
-    },
-  };
-}
-
-/**
- * Extract the manager's rejection reason from a BreatheHR leave request.
- *
- * BreatheHR has a `reason` field on leave requests. We check that plus
- * other possible field names. The [key: string]: unknown index signature
- * on the BreatheLeaveRequest type allows accessing additional fields.
- */
-function extractRejectionReason(lr: BreatheLeaveRequest): string | null {
-  const raw = lr as Record<string, unknown>;
-  const reason =
-    (raw.rejection_reason as string) ||
-    (raw.declined_reason as string) ||
-    (raw.reject_reason as string) ||
-    (raw.denial_reason as string) ||
-    (raw.reviewer_notes as string) ||
-    (raw.reviewer_comment as string) ||
-    (raw.manager_comment as string) ||
-    (raw.manager_notes as string) ||
-    (raw.approver_comment as string) ||
-    (raw.reason as string) ||
-    (raw.comment as string) ||
-    null;
-
-  return reason && reason.trim() ? reason.trim() : null;
+  return lockedHandler(req, res);
 }
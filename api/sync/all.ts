@@ -1,24 +1,60 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { getConfig } from '../../lib/config';
+import { policyRunOutcome, runPolicySync } from '../../lib/policy-sync';
+import { balanceRunOutcome, runBalanceSync } from '../../lib/balance-sync';
+import {
+  absenceRunOutcome,
+  AbsenceSyncRunResult,
+  runAbsenceSync,
+} from '../../lib/absence-sync';
+import { BreatheSnapshot } from '../../lib/breathe-snapshot';
+import { Job, runJobs } from '../../lib/orchestrator';
+import {
+  getSyncTrigger,
+  SyncJobName,
+  SyncRunOutcome,
+  trackRun,
+} from '../../lib/sync-runs';
+import { jobLockTtlMs, withLock } from '../../lib/lock';
 
 /**
- * Run all syncs in sequence
+ * Run all syncs in dependency order
  *
  * POST /api/sync/all
  *
- * This is called by the Vercel cron (every 30 minutes) and can also
- * be triggered manually. It runs syncs in the correct order:
- * 1. Policies (must exist before balances/absences can reference them)
- * 2. Balances
- * 3. Absences (includes notification triggering for PENDING→APPROVED/REJECTED)
+ * This is called by the Vercel cron and can also be triggered manually:
+ * every 30 minutes with ?delta=true, so the absence step only resyncs
+ * employees with BreatheHR changes since the last run, and nightly without
+ * it as the full-replacement safety net. The syncs run in-process as jobs
+ * of lib/orchestrator.ts:
+ * 1. policies
+ * 2. balances (needs policies)
+ * 3. absences (needs policies)
  *
- * Note: The absence sync now handles notification triggering internally.
- * Before running the bulk sync, it checks each APPROVED/REJECTED item
- * against the Flip API. If the Flip request is still PENDING, it calls
- * the approve/reject endpoint to trigger the notification, then proceeds
- * with the sync. This eliminates the race condition that existed when
- * notification checking was a separate step.
+ * The balance and absence steps share one BreatheHR snapshot
+ * (lib/breathe-snapshot.ts), so employees and absences are listed once for
+ * the whole run rather than fetched per employee by each step. A delta
+ * absence step only reads the changed employees, one by one.
+ *
+ * Each step has its own timeout (SYNC_*_TIMEOUT_MS). A step that times out
+ * stops writing to Flip; the absence step also cancels its open Flip sync.
+ * A step that fails or times out skips the steps depending on it — e.g. no
+ * balance or absence push against policies that weren't synced. A
+ * cancelled or failed absence sync counts as a failed step.
+ *
+ * Returns the run summary: 200 when every step succeeded, 207 otherwise.
+ * Each step that ran is also in the run history (GET /api/sync/runs) under
+ * its own run_id.
+ *
+ * Notifications are not part of this: /api/sync/approval-check calls the
+ * Flip approve/reject endpoints every 2 minutes.
+ *
+ * Holds the "sync" lock (lib/lock.ts), shared by /api/sync/all and the
+ * policy, balance and absence syncs: while one runs, the others respond
+ * "skipped: locked" without doing anything.
  */
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -27,74 +63,86 @@ export default async function handler(
     return;
   }
 
-  const results: Record<string, unknown> = {};
-  const baseUrl = `https://${req.headers.host}`;
-
   try {
     console.log('[SyncAll] Starting full sync...');
 
-    // 1. Sync policies
-    console.log('[SyncAll] Step 1/3: Syncing policies...');
-    try {
-      const policyRes = await fetch(`${baseUrl}/api/sync/policies`, {
-        method: 'POST',
-      });
-      results.policies = await policyRes.json();
-      console.log('[SyncAll] Policies sync result:', results.policies);
-    } catch (error) {
-      results.policies = {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-      console.error('[SyncAll] Policies sync failed:', error);
-    }
+    const config = getConfig();
+    const clients = createClients();
+    const timeouts = config.sync.jobTimeoutsMs;
+    const trigger = getSyncTrigger(req);
+    const delta = req.query.delta === 'true';
+    const snapshot = new BreatheSnapshot(clients.breathe);
 
-    // 2. Sync balances
-    console.log('[SyncAll] Step 2/3: Syncing balances...');
-    try {
-      const balanceRes = await fetch(`${baseUrl}/api/sync/balances`, {
-        method: 'POST',
-      });
-      results.balances = await balanceRes.json();
-      console.log('[SyncAll] Balances sync result:', results.balances);
-    } catch (error) {
-      results.balances = {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-      console.error('[SyncAll] Balances sync failed:', error);
-    }
+    // Every step is recorded in the run history like a standalone sync
+    const tracked = <T>(
+      job: SyncJobName,
+      run: (signal: AbortSignal) => Promise<T>,
+      outcomeOf: (result: T) => SyncRunOutcome
+    ) => async (signal: AbortSignal) => {
+      const { runId, result } = await trackRun({ job, trigger }, () => run(signal), outcomeOf);
+      return { ...result, run_id: runId };
+    };
 
-    // 3. Sync absences (includes notification triggering)
-    // The absence sync now internally checks for PENDING Flip requests
-    // that should be APPROVED/REJECTED and calls the approve/reject
-    // endpoints BEFORE running the bulk sync, so notifications are
-    // triggered atomically with the data sync.
-    console.log('[SyncAll] Step 3/3: Syncing absences (with notifications)...');
-    try {
-      const absenceRes = await fetch(`${baseUrl}/api/sync/absences`, {
-        method: 'POST',
-      });
-      results.absences = await absenceRes.json();
-      console.log('[SyncAll] Absences sync result:', results.absences);
-    } catch (error) {
-      results.absences = {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-      console.error('[SyncAll] Absences sync failed:', error);
-    }
+    const jobs: Job[] = [
+      {
+        name: 'policies',
+        timeoutMs: timeouts.policies,
+        run: tracked('policies', (signal) => runPolicySync(clients, { signal }), policyRunOutcome),
+      },
+      {
+        name: 'balances',
+        dependsOn: ['policies'],
+        timeoutMs: timeouts.balances,
+        run: tracked(
+          'balances',
+          (signal) =>
+            runBalanceSync(clients, { snapshot, concurrency: config.sync.concurrency, signal }),
+          balanceRunOutcome
+        ),
+      },
+      {
+        name: 'absences',
+        dependsOn: ['policies'],
+        timeoutMs: timeouts.absences,
+        run: tracked(
+          'absences',
+          (signal) =>
+            runAbsenceSync(clients, {
+              mode: config.sync.absenceMode,
+              batchSize: config.sync.batchSize,
+              maxDropPercent: config.sync.maxAbsenceDropPercent,
+              delta,
+              deltaOverlapMs: config.sync.absenceDeltaOverlapMs,
+              snapshot,
+              concurrency: config.sync.concurrency,
+              signal,
+            }),
+          absenceRunOutcome
+        ),
+        failureOf: (result: AbsenceSyncRunResult) =>
+          result.status === 'cancelled'
+            ? `Sync cancelled: ${result.message}`
+            : result.status === 'failed'
+              ? 'Every employee sync failed'
+              : undefined,
+      },
+    ];
 
-    console.log('[SyncAll] Full sync complete.');
+    const summary = await runJobs(jobs);
 
-    res.status(200).json({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      results,
-    });
+    console.log(
+      `[SyncAll] Full sync ${summary.status}: ` +
+        summary.jobs.map((j) => `${j.name}=${j.status}`).join(', ')
+    );
+
+    res.status(summary.status === 'ok' ? 200 : 207).json(summary);
   } catch (error) {
     console.error('[SyncAll] Error:', error);
     res.status(500).json({
       error: 'Full sync failed',
       message: error instanceof Error ? error.message : 'Unknown error',
-      results,
     });
   }
 }
+
+export default withLock('sync', jobLockTtlMs, handler);
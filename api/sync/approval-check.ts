@@ -1,54 +1,28 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
+import { createClients } from '../../lib/clients';
+import { getConfig } from '../../lib/config';
+import { BreatheSnapshot, daysAgo } from '../../lib/breathe-snapshot';
+import { mapConcurrent } from '../../lib/concurrency';
+import { resolveApprover } from '../../lib/approver';
+import { isNotFound } from '../../lib/errors';
+import {
+  EmployeeRunOutcome,
+  employeeRunErrors,
+  failedRunOutcome,
+  finishRunQuietly,
+  getSyncTrigger,
+  startRunQuietly,
+  SyncRunStore,
+} from '../../lib/sync-runs';
+import { jobLockTtlMs, withLock } from '../../lib/lock';
 
-/**
- * Resolve the approver for a given Flip user.
- *
- * Looks up the user's "manger_id" attribute in Flip. If not found,
- * falls back to a hardcoded admin user. The approver MUST be different
- * from the absentee to ensure push notifications are triggered.
- */
-async function resolveApprover(
-  flip: FlipClient,
-  flipUserId: string,
-  managerCache: Map<string, string>
-): Promise<string> {
-  // Check cache first
-  if (managerCache.has(flipUserId)) {
-    return managerCache.get(flipUserId)!;
-  }
-
-  try {
-    const user = await flip.getUser(flipUserId);
-    // Flip returns attributes as an array of {name, value} objects
-    const attrs = user.attributes as Array<{ name: string; value: string }> | undefined;
-    if (attrs && Array.isArray(attrs)) {
-      const managerAttr = attrs.find(
-        (a) => a.name === 'manger_id' || a.name === 'manager_id'
-      );
-      if (managerAttr?.value) {
-        console.log(
-          `[ApprovalCheck] Resolved manager for ${flipUserId}: ${managerAttr.value}`
-        );
-        managerCache.set(flipUserId, managerAttr.value);
-        return managerAttr.value;
-      }
-    }
-  } catch (err) {
-    console.warn(
-      `[ApprovalCheck] Could not look up manager for ${flipUserId}:`,
-      err instanceof Error ? err.message : err
-    );
-  }
-
-  // Fallback: use the absentee themselves (less ideal but won't break)
-  console.warn(
-    `[ApprovalCheck] No manager found for ${flipUserId}, falling back to self-approval`
-  );
-  managerCache.set(flipUserId, flipUserId);
-  return flipUserId;
+interface ApprovalAction {
+  external_id: string;
+  breathe_status: string;
+  flip_status: string;
+  action: string;
+  approver?: string;
+  error?: string;
 }
 
 /**
@@ -71,14 +45,26 @@ async function resolveApprover(
  *
  * Flow:
  * 1. Get all mapped users (Flip ↔ BreatheHR)
- * 2. For each user, fetch their BreatheHR leave requests
+ * 2. Load BreatheHR leave requests that ended at most APPROVAL_LOOKBACK_DAYS
+ *    ago, tenant-wide (lib/breathe-snapshot.ts), and take each user's
  * 3. Find leave requests that are "approved" or "denied" (with action=request)
  * 4. Look up the corresponding Flip absence request by external_id
  * 5. Resolve the user's Flip manager to use as approver
  * 6. If the Flip request is still PENDING → call approve/reject endpoint
  *    (this triggers the push notification in Flip)
+ *
+ * Users are checked SYNC_CONCURRENCY at a time (lib/concurrency.ts); the
+ * actions are listed in mapping order.
+ *
+ * Each run is recorded in the run history (GET /api/sync/runs) with the
+ * approvals and rejections per employee.
+ *
+ * Holds the "approval-check" lock (lib/lock.ts), shared with
+ * /api/sync/approval-status: a run that starts while the previous one (or
+ * an approval status check) is still going responds "skipped: locked" and
+ * does nothing.
  */
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -87,12 +73,17 @@ export default async function handler(
     return;
   }
 
+  const runs = new SyncRunStore();
+  const runId = await startRunQuietly(runs, 'approval-check', getSyncTrigger(req));
+
   try {
     console.log('[ApprovalCheck] Starting approval check...');
 
-    const breathe = new BreatheHRClient();
-    const flip = new FlipClient();
-    const userMapping = new UserMappingService(breathe, flip);
+    const config = getConfig();
+    const { breathe, flip, userMapping } = createClients();
+    const snapshot = new BreatheSnapshot(breathe, {
+      from: daysAgo(config.sync.approvalLookbackDays),
+    });
 
     // 1. Get all user mappings
     const mappings = await userMapping.getAllMappings();
@@ -103,24 +94,22 @@ export default async function handler(
     // Cache manager lookups to avoid repeated API calls
     const managerCache = new Map<string, string>();
 
-    let approved = 0;
-    let rejected = 0;
-    let checked = 0;
-    let skipped = 0;
-    let errors = 0;
-    const actions: Array<{
-      external_id: string;
-      breathe_status: string;
-      flip_status: string;
-      action: string;
-      approver?: string;
-      error?: string;
-    }> = [];
-
-    for (const mapping of mappings) {
+    const perEmployee = await mapConcurrent(mappings, config.sync.concurrency, async (mapping) => {
+      let approved = 0;
+      let rejected = 0;
+      let checked = 0;
+      let skipped = 0;
+      const actions: ApprovalAction[] = [];
+      const outcome: EmployeeRunOutcome = {
+        flip_user_id: mapping.flipUserId,
+        breathe_employee_id: mapping.breatheEmployeeId,
+        breathe_ref: mapping.breatheRef,
+        status: 'ok',
+      };
+
       try {
-        // 2. Fetch BreatheHR leave requests for this user
-        const leaveRequests = await breathe.getAllEmployeeLeaveRequests(
+        // 2. This user's BreatheHR leave requests
+        const leaveRequests = await snapshot.getAllEmployeeLeaveRequests(
           mapping.breatheEmployeeId
         );
 
@@ -149,9 +138,10 @@ export default async function handler(
           try {
             flipRequest =
               await flip.getAbsenceRequestByExternalId(externalId);
-          } catch {
+          } catch (lookupError) {
             // Not found in Flip — skip silently
-            continue;
+            if (isNotFound(lookupError)) continue;
+            throw lookupError;
           }
 
           if (!flipRequest || !flipRequest.status) {
@@ -221,9 +211,22 @@ export default async function handler(
           `[ApprovalCheck] Error checking employee ${mapping.breatheEmployeeId}:`,
           userErr
         );
-        errors++;
+        outcome.status = 'failed';
+        outcome.error = userErr instanceof Error ? userErr.message : String(userErr);
       }
-    }
+      outcome.counts = { approved, rejected };
+      return { outcome, approved, rejected, checked, skipped, actions };
+    });
+
+    const sum = (field: 'approved' | 'rejected' | 'checked' | 'skipped') =>
+      perEmployee.reduce((total, e) => total + e[field], 0);
+    const approved = sum('approved');
+    const rejected = sum('rejected');
+    const checked = sum('checked');
+    const skipped = sum('skipped');
+    const actions = perEmployee.flatMap((e) => e.actions);
+    const employees = perEmployee.map((e) => e.outcome);
+    const errors = employees.filter((e) => e.status === 'failed').length;
 
     console.log(
       `[ApprovalCheck] Done. ` +
@@ -231,6 +234,13 @@ export default async function handler(
         `Skipped: ${skipped}, Errors: ${errors}`
     );
 
+    await finishRunQuietly(runs, runId, {
+      status: errors === 0 ? 'ok' : errors < employees.length ? 'partial' : 'failed',
+      counts: { checked, approved, rejected, skipped, errors },
+      errors: employeeRunErrors(employees),
+      employees,
+    });
+
     res.status(200).json({
       status: 'ok',
       checked,
@@ -239,12 +249,16 @@ export default async function handler(
       skipped,
       errors,
       actions,
+      run_id: runId,
     });
   } catch (error) {
     console.error('[ApprovalCheck] Error:', error);
+    await finishRunQuietly(runs, runId, failedRunOutcome(error));
     res.status(500).json({
       error: 'Approval check failed',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 }
+
+export default withLock('approval-check', jobLockTtlMs, handler);
@@ -1,8 +1,21 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
+import { createClients } from '../../lib/clients';
+import { getConfig } from '../../lib/config';
+import { BreatheSnapshot, daysAgo } from '../../lib/breathe-snapshot';
+import { mapConcurrent } from '../../lib/concurrency';
+import { AbsenceLinkStore } from '../../lib/link-store';
+import { isClientError, isNotFound } from '../../lib/errors';
+import {
+  EmployeeRunOutcome,
+  employeeRunErrors,
+  failedRunOutcome,
+  finishRunQuietly,
+  getSyncTrigger,
+  startRunQuietly,
+  SyncRunStore,
+} from '../../lib/sync-runs';
 import type { BreatheLeaveRequest } from '../../lib/types';
+import { jobLockTtlMs, withLock } from '../../lib/lock';
 
 /**
  * Check approval status of pending absence requests and trigger Flip notifications
@@ -18,7 +31,8 @@ import type { BreatheLeaveRequest } from '../../lib/types';
  * (they become absences instead). Instead, we detect approval by:
  *   - A BreatheHR ABSENCE exists (proof of approval)
  *   - The corresponding Flip absence request is still PENDING
- *   - We match absence→leave_request by date range to find the external_id
+ *   - We resolve absence→leave_request through the link store to find the
+ *     external_id (date-range matching is only a fallback for legacy data)
  *
  * REJECTION DETECTION:
  * Rejected leave requests remain in the leave_requests endpoint with status
@@ -35,8 +49,20 @@ import type { BreatheLeaveRequest } from '../../lib/types';
  *    approve/reject endpoints → triggers push notification to user
  *
  * This runs BEFORE the bulk absence sync in the cron job.
+ *
+ * Absences and leave requests are loaded tenant-wide, only those that
+ * ended at most APPROVAL_LOOKBACK_DAYS ago (lib/breathe-snapshot.ts).
+ * Users are checked SYNC_CONCURRENCY at a time (lib/concurrency.ts); the
+ * details are listed in mapping order.
+ *
+ * Each run is recorded in the run history (GET /api/sync/runs) with the
+ * approvals and rejections per employee.
+ *
+ * Holds the "approval-check" lock (lib/lock.ts), shared with
+ * /api/sync/approval-check: both call the Flip approve/reject endpoints, so
+ * while one runs the other responds "skipped: locked" and does nothing.
  */
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -45,36 +71,50 @@ export default async function handler(
     return;
   }
 
+  const runs = new SyncRunStore();
+  const runId = await startRunQuietly(runs, 'approval-status', getSyncTrigger(req));
+
   try {
     console.log('[ApprovalStatus] Starting approval status check...');
 
-    const breathe = new BreatheHRClient();
-    const flip = new FlipClient();
-    const userMapping = new UserMappingService(breathe, flip);
+    const config = getConfig();
+    const { breathe, flip, userMapping } = createClients();
+    const snapshot = new BreatheSnapshot(breathe, {
+      from: daysAgo(config.sync.approvalLookbackDays),
+    });
+    const links = new AbsenceLinkStore();
 
     const mappings = await userMapping.getAllMappings();
     console.log(`[ApprovalStatus] Checking ${mappings.length} mapped users`);
 
-    let approvedCount = 0;
-    let rejectedCount = 0;
-    let stillPending = 0;
-    let errorCount = 0;
-    const details: string[] = [];
     // Track external_ids we've already processed to avoid double-processing
     const processedExternalIds = new Set<string>();
 
-    for (const mapping of mappings) {
+    const perEmployee = await mapConcurrent(mappings, config.sync.concurrency, async (mapping) => {
+      let approvedCount = 0;
+      let rejectedCount = 0;
+      let stillPending = 0;
+      const details: string[] = [];
+      const outcome: EmployeeRunOutcome = {
+        flip_user_id: mapping.flipUserId,
+        breathe_employee_id: mapping.breatheEmployeeId,
+        breathe_ref: mapping.breatheRef,
+        status: 'ok',
+      };
+
       try {
         // Fetch both absences and leave requests for this employee
-        const absences = await breathe.getAllEmployeeAbsences(
+        const absences = await snapshot.getAllEmployeeAbsences(
           mapping.breatheEmployeeId
         );
         let leaveRequests: BreatheLeaveRequest[] = [];
         try {
-          leaveRequests = await breathe.getAllEmployeeLeaveRequests(
+          leaveRequests = await snapshot.getAllEmployeeLeaveRequests(
             mapping.breatheEmployeeId
           );
         } catch (lrError) {
+          // Tolerate BreatheHR refusing the endpoint; absences still work without it
+          if (!isClientError(lrError)) throw lrError;
           console.log(
             `[ApprovalStatus] Could not fetch leave requests for employee ` +
               `${mapping.breatheEmployeeId}: ` +
@@ -87,17 +127,14 @@ export default async function handler(
             `${absences.length} absences, ${leaveRequests.length} leave requests`
         );
 
-        // Build date→leave_request map for matching absences to leave requests
-        // The webhook stores leave_request.id as external_id in Flip
-        const leaveRequestsByDate = new Map<string, BreatheLeaveRequest[]>();
-        for (const lr of leaveRequests) {
-          if (lr.start_date && lr.end_date && lr.id) {
-            const key = `${lr.start_date}|${lr.end_date}`;
-            const existing = leaveRequestsByDate.get(key) || [];
-            existing.push(lr);
-            leaveRequestsByDate.set(key, existing);
-          }
-        }
+        // Resolve absence→leave_request for matching absences to leave requests.
+        // The webhook stores leave_request.id as external_id in Flip. Newly
+        // approved absences are linked (and recorded) here.
+        const leaveRequestIdByAbsenceId = await links.resolveAbsenceLeaveRequests(
+          mapping.breatheEmployeeId,
+          absences,
+          leaveRequests
+        );
 
         // ---------------------------------------------------------------
         // STEP 1: APPROVAL DETECTION (from absences)
@@ -117,14 +154,14 @@ export default async function handler(
             (absence as Record<string, unknown>).cancelled === 'true';
           if (isCancelled) continue;
 
-          // a) Try to find matching leave request by dates → use lr.id as external_id
-          const dateKey = `${absence.start_date}|${absence.end_date}`;
-          const matchingLRs = leaveRequestsByDate.get(dateKey) || [];
+          // a) Use the linked leave request → lr.id as external_id
+          const linkedLeaveRequestId = leaveRequestIdByAbsenceId.get(absence.id);
+          const matchingLRIds = linkedLeaveRequestId ? [linkedLeaveRequestId] : [];
 
           let approvedViaLR = false;
 
-          for (const matchingLR of matchingLRs) {
-            const externalId = String(matchingLR.id);
+          for (const matchingLRId of matchingLRIds) {
+            const externalId = String(matchingLRId);
             if (processedExternalIds.has(externalId)) continue;
 
             try {
@@ -138,7 +175,7 @@ export default async function handler(
               if (flipRequest && flipRequest.status === 'PENDING') {
                 console.log(
                   `[ApprovalStatus] Absence ${absence.id} exists → ` +
-                    `leave request ${matchingLR.id} approved in BreatheHR → ` +
+                    `leave request ${matchingLRId} approved in BreatheHR → ` +
                     `approving Flip request ${flipRequest.id}`
                 );
 
@@ -149,7 +186,7 @@ export default async function handler(
                 approvedCount++;
                 processedExternalIds.add(externalId);
                 details.push(
-                  `approved: LR ${matchingLR.id} / absence ${absence.id} → ` +
+                  `approved: LR ${matchingLRId} / absence ${absence.id} → ` +
                     `Flip ${flipRequest.id} (${absence.start_date} - ${absence.end_date})`
                 );
                 console.log(
@@ -160,10 +197,8 @@ export default async function handler(
                 break; // Don't try other LRs for this absence
               }
             } catch (lookupError) {
-              console.log(
-                `[ApprovalStatus] No Flip request found for lr.id ${externalId}: ` +
-                  `${lookupError instanceof Error ? lookupError.message : 'not found'}`
-              );
+              if (!isNotFound(lookupError)) throw lookupError;
+              console.log(`[ApprovalStatus] No Flip request found for lr.id ${externalId}`);
             }
           }
 
@@ -198,8 +233,9 @@ export default async function handler(
                     `[ApprovalStatus] ✓ Approved absence ${absence.id} in Flip — notification sent`
                   );
                 }
-              } catch {
+              } catch (lookupError) {
                 // No matching Flip request by absence ID — expected for most absences
+                if (!isNotFound(lookupError)) throw lookupError;
               }
             }
           }
@@ -316,9 +352,9 @@ export default async function handler(
               );
             }
           } catch (lookupError) {
+            if (!isNotFound(lookupError)) throw lookupError;
             console.log(
-              `[ApprovalStatus] No Flip request found for rejected lr.id ${externalId}: ` +
-                `${lookupError instanceof Error ? lookupError.message : 'not found'}`
+              `[ApprovalStatus] No Flip request found for rejected lr.id ${externalId}`
             );
           }
         }
@@ -368,8 +404,9 @@ export default async function handler(
                 `[ApprovalStatus] ✓ Approved in Flip (secondary) — notification sent`
               );
             }
-          } catch {
+          } catch (lookupError) {
             // No matching Flip request
+            if (!isNotFound(lookupError)) throw lookupError;
           }
         }
       } catch (error) {
@@ -377,9 +414,21 @@ export default async function handler(
           `[ApprovalStatus] Error processing user ${mapping.flipUserId}:`,
           error
         );
-        errorCount++;
+        outcome.status = 'failed';
+        outcome.error = error instanceof Error ? error.message : String(error);
       }
-    }
+      outcome.counts = { approved: approvedCount, rejected: rejectedCount };
+      return { outcome, approvedCount, rejectedCount, stillPending, details };
+    });
+
+    const sum = (field: 'approvedCount' | 'rejectedCount' | 'stillPending') =>
+      perEmployee.reduce((total, e) => total + e[field], 0);
+    const approvedCount = sum('approvedCount');
+    const rejectedCount = sum('rejectedCount');
+    const stillPending = sum('stillPending');
+    const details = perEmployee.flatMap((e) => e.details);
+    const employees = perEmployee.map((e) => e.outcome);
+    const errorCount = employees.filter((e) => e.status === 'failed').length;
 
     console.log(
       `[ApprovalStatus] Complete. ` +
@@ -387,6 +436,18 @@ export default async function handler(
         `Still pending: ${stillPending}, Errors: ${errorCount}`
     );
 
+    await finishRunQuietly(runs, runId, {
+      status: errorCount === 0 ? 'ok' : errorCount < employees.length ? 'partial' : 'failed',
+      counts: {
+        approved: approvedCount,
+        rejected: rejectedCount,
+        still_pending: stillPending,
+        errors: errorCount,
+      },
+      errors: employeeRunErrors(employees),
+      employees,
+    });
+
     res.status(200).json({
       status: 'ok',
       approved: approvedCount,
@@ -394,12 +455,16 @@ export default async function handler(
       still_pending: stillPending,
       errors: errorCount,
       details: details.length > 0 ? details : undefined,
+      run_id: runId,
     });
   } catch (error) {
     console.error('[ApprovalStatus] Error:', error);
+    await finishRunQuietly(runs, runId, failedRunOutcome(error));
     res.status(500).json({
       error: 'Approval status check failed',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
 }
+
+export default withLock('approval-check', jobLockTtlMs, handler);
@@ -0,0 +1,84 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { AbsenceWebhookProcessor } from '../../lib/absence-webhook';
+import { DeadLetterStore, retryDeadLetter } from '../../lib/dead-letter';
+import { getConfig } from '../../lib/config';
+import { withLock } from '../../lib/lock';
+
+// Longer than a run can take, so a live run never loses the lock
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Retry failed webhook items from the dead-letter queue
+ *
+ * GET/POST /api/sync/dead-letters
+ *
+ * Runs every 5 minutes via Vercel cron. Each pending dead letter whose
+ * backoff has elapsed is retried once. Items that run out of attempts, or
+ * that the upstream API rejects outright (4xx), are marked exhausted and
+ * their Flip request is set to ERROR.
+ *
+ * Holds the "dead-letters" lock (lib/lock.ts): a run that starts while the
+ * previous one is still going responds "skipped: locked" and does nothing.
+ */
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const store = new DeadLetterStore(undefined, {
+      maxAttempts: getConfig().deadLetter.maxAttempts,
+    });
+    const due = await store.listDue();
+    console.log(`[DeadLetters] ${due.length} dead letters due for retry`);
+
+    if (due.length === 0) {
+      res.status(200).json({ status: 'ok', retried: 0, resolved: 0, exhausted: 0 });
+      return;
+    }
+
+    const { breathe, flip, userMapping } = createClients();
+    const processor = new AbsenceWebhookProcessor(breathe, flip, userMapping);
+
+    let resolved = 0;
+    let exhausted = 0;
+    const results: Array<{ id: string; status: string; attempts: number; error?: string }> = [];
+
+    for (const letter of due) {
+      const updated = await retryDeadLetter(letter, store, processor, flip);
+      if (updated.status === 'resolved') resolved++;
+      if (updated.status === 'exhausted') exhausted++;
+      results.push({
+        id: updated.id,
+        status: updated.status,
+        attempts: updated.attempts,
+        error: updated.status === 'resolved' ? undefined : updated.last_error,
+      });
+    }
+
+    console.log(
+      `[DeadLetters] Done. Retried: ${due.length}, Resolved: ${resolved}, Exhausted: ${exhausted}`
+    );
+
+    res.status(200).json({
+      status: 'ok',
+      retried: due.length,
+      resolved,
+      exhausted,
+      results,
+    });
+  } catch (error) {
+    console.error('[DeadLetters] Error:', error);
+    res.status(500).json({
+      error: 'Dead-letter retry failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withLock('dead-letters', LOCK_TTL_MS, handler);
@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClients } from '../../lib/clients';
+import { getConfig } from '../../lib/config';
+import { getPolicyIdsByExternalId } from '../../lib/absence-sync';
+import { Reconciler } from '../../lib/reconciler';
+import { withLock } from '../../lib/lock';
+
+// Longer than a run can take, so a live run never loses the lock
+const LOCK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Repair drift between Flip absence requests and BreatheHR
+ *
+ * GET/POST /api/sync/reconcile
+ *
+ * Runs hourly via Vercel cron. Patches missing external ids, approves or
+ * rejects Flip requests BreatheHR has decided (notifying the user), and
+ * cancels Flip requests whose BreatheHR leave is gone. Ambiguous drift is
+ * queued for review (GET /api/admin/review-queue); every action is logged
+ * (GET /api/admin/reconcile-actions). See lib/reconciler.ts.
+ *
+ * Holds the "reconcile" lock (lib/lock.ts): a run that starts while the
+ * previous one is still going responds "skipped: locked" and does nothing.
+ * Approvals and cancellations also take the "approval-check" and "sync"
+ * locks, so they never overlap the jobs that own those writes.
+ */
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    console.log('[Reconcile] Starting reconciliation...');
+
+    const { breathe, flip, userMapping } = createClients();
+    const config = getConfig();
+    const reconciler = new Reconciler(breathe, flip, {
+      batchSize: config.sync.batchSize,
+      concurrency: config.sync.concurrency,
+    });
+
+    const mappings = await userMapping.getAllMappings();
+    const run = await reconciler.run(mappings, await getPolicyIdsByExternalId(flip));
+
+    console.log(
+      `[Reconcile] Done. Fixed: ${run.fixed}, Failed: ${run.failed}, ` +
+        `Queued for review: ${run.queued}, Employee errors: ${run.errors}`
+    );
+
+    res.status(200).json({ status: 'ok', ...run });
+  } catch (error) {
+    console.error('[Reconcile] Error:', error);
+    res.status(500).json({
+      error: 'Reconciliation failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withLock('reconcile', LOCK_TTL_MS, handler);
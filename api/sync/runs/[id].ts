@@ -0,0 +1,37 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../../lib/admin-auth';
+import { SyncRunStore } from '../../../lib/sync-runs';
+
+/**
+ * One sync run
+ *
+ * GET /api/sync/runs/:id → The run with its counts, errors, Flip sync ids
+ *                          and every employee's outcome
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const run = await new SyncRunStore().get(req.query.id as string);
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    res.status(200).json({ status: 'ok', run });
+  } catch (error) {
+    console.error('[SyncRuns] Error:', error);
+    res.status(500).json({
+      error: 'Failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../../lib/admin-auth';
+import {
+  isEmployee,
+  SyncJobName,
+  SyncRunStatus,
+  SyncRunStore,
+} from '../../../lib/sync-runs';
+
+/**
+ * Sync run history
+ *
+ * GET /api/sync/runs                 → Newest runs first, without the
+ *                                      per-employee outcomes
+ *     ?job=absences        → policies | balances | absences |
+ *                            approval-check | approval-status
+ *     ?status=failed       → running | ok | partial | failed | cancelled
+ *     ?employee=xxx        → only runs that covered this employee (Flip user
+ *                            id, BreatheHR employee id or ref); each run then
+ *                            includes that employee's outcome
+ *     ?limit=50            → at most this many (default 100)
+ *
+ * GET /api/sync/runs/:id for one run with every employee's outcome.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const employee = req.query.employee as string | undefined;
+    const runs = await new SyncRunStore().list({
+      job: req.query.job as SyncJobName | undefined,
+      status: req.query.status as SyncRunStatus | undefined,
+      employee,
+      limit: parseInt((req.query.limit as string) || '100', 10) || 100,
+    });
+
+    res.status(200).json({
+      status: 'ok',
+      total: runs.length,
+      runs: runs.map(({ employees, ...run }) => ({
+        ...run,
+        employee_count: employees.length,
+        employee: employee ? employees.find((e) => isEmployee(e, employee)) : undefined,
+      })),
+    });
+  } catch (error) {
+    console.error('[SyncRuns] Error:', error);
+    res.status(500).json({
+      error: 'Failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
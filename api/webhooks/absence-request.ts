@@ -1,17 +1,42 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { BreatheHRClient } from '../../lib/breathehr';
-import { FlipClient } from '../../lib/flip';
-import { UserMappingService } from '../../lib/user-mapping';
-import { logWebhook, getWebhookLogs } from '../../lib/webhook-log';
-
-const breathe = new BreatheHRClient();
-const flip = new FlipClient();
-const userMapping = new UserMappingService(breathe, flip);
+import { createClients } from '../../lib/clients';
+import {
+  logWebhook,
+  getWebhookLog,
+  getWebhookLogs,
+  createWebhookLogEntry,
+  WebhookLogEntry,
+  WebhookItemLog,
+} from '../../lib/webhook-log';
+import { getConfig } from '../../lib/config';
+import { AbsenceWebhookProcessor } from '../../lib/absence-webhook';
+import { WebhookDedupStore } from '../../lib/webhook-dedup';
+import { DeadLetterStore } from '../../lib/dead-letter';
+import { isClientError } from '../../lib/errors';
+import { requireAdmin } from '../../lib/admin-auth';
+import { readRawBody, verifyWebhookSignature } from '../../lib/webhook-signature';
+
+const { breathe, flip, userMapping } = createClients();
+const dedup = new WebhookDedupStore();
+const deadLetters = new DeadLetterStore(undefined, {
+  maxAttempts: getConfig().deadLetter.maxAttempts,
+});
+const processor = new AbsenceWebhookProcessor(
+  breathe,
+  flip,
+  userMapping,
+  undefined,
+  undefined,
+  deadLetters
+);
 
 /**
  * Webhook handler for absence request events from Flip
  *
- * GET  /api/webhooks/absence-request  → View recent webhook logs
+ * GET  /api/webhooks/absence-request  → View recent webhook logs (admin only)
+ *      ?id=<delivery id>                  → a single delivery
+ *      ?event_type= &flip_user_id= &absence_request_id= &status=
+ *      &since= &until= (ISO timestamps) &limit= (default 20)
  * POST /api/webhooks/absence-request  → Handle webhook events
  *
  * Flip sends batched webhook payloads:
@@ -27,6 +52,20 @@ const userMapping = new UserMappingService(breathe, flip);
  *   "recipient": "...",
  *   "tenant": "..."
  * }
+ *
+ * When FLIP_WEBHOOK_SECRET is set, every delivery must carry a valid
+ * X-Flip-Signature / X-Flip-Timestamp pair (see lib/webhook-signature.ts).
+ * Unsigned or badly signed batches are logged and rejected with 401.
+ *
+ * Redelivered items are deduplicated on batch id + absence request id
+ * (see lib/webhook-dedup.ts) and answered with their original result.
+ * If another delivery of the same item is still in flight, the response
+ * is 409 so Flip retries once that delivery has finished.
+ *
+ * Items are processed independently. The response lists a status per item;
+ * the HTTP status is 200 when nothing failed, 202 when failed items were
+ * queued for retry (see lib/dead-letter.ts), 207 when some items failed
+ * outright and 500 when all of them did.
  */
 export default async function handler(
   req: VercelRequest,
@@ -34,7 +73,24 @@ export default async function handler(
 ): Promise<void> {
   // GET: Return recent webhook logs for debugging
   if (req.method === 'GET') {
-    res.status(200).json({ logs: getWebhookLogs() });
+    if (!requireAdmin(req, res)) return;
+
+    if (req.query.id) {
+      const entry = await getWebhookLog(req.query.id as string);
+      res.status(entry ? 200 : 404).json(entry ? { log: entry } : { error: 'Not found' });
+      return;
+    }
+
+    const logs = await getWebhookLogs({
+      eventType: req.query.event_type as string | undefined,
+      flipUserId: req.query.flip_user_id as string | undefined,
+      absenceRequestId: req.query.absence_request_id as string | undefined,
+      status: req.query.status as string | undefined,
+      since: req.query.since as string | undefined,
+      until: req.query.until as string | undefined,
+      limit: parseInt(req.query.limit as string, 10) || 20,
+    });
+    res.status(200).json({ logs });
     return;
   }
 
@@ -44,17 +100,35 @@ export default async function handler(
   }
 
   // Log the raw incoming webhook
-  const logEntry = {
-    timestamp: new Date().toISOString(),
+  const startedAt = Date.now();
+  const logEntry = createWebhookLogEntry({
     method: req.method,
     headers: {
       'content-type': req.headers['content-type'] as string || '',
       'user-agent': req.headers['user-agent'] as string || '',
     },
     body: req.body,
-    result: undefined as string | undefined,
-    error: undefined as string | undefined,
-  };
+  });
+
+  // Verify the signature before touching BreatheHR
+  const { webhookSecret, webhookToleranceSeconds } = getConfig().flip;
+  if (webhookSecret) {
+    const rawBody = await readRawBody(req);
+    const verification = verifyWebhookSignature(rawBody, req.headers, webhookSecret, {
+      toleranceSeconds: webhookToleranceSeconds,
+    });
+
+    if (!verification.valid) {
+      console.warn(`[Webhook] Rejected delivery: ${verification.reason}`);
+      logEntry.status = 'rejected';
+      logEntry.error = `signature rejected: ${verification.reason}`;
+      await saveLog(logEntry, startedAt);
+      res.status(401).json({ error: 'Invalid webhook signature' });
+      return;
+    }
+  } else {
+    console.warn('[Webhook] FLIP_WEBHOOK_SECRET not set — skipping signature verification');
+  }
 
   try {
     const payload = req.body;
@@ -63,52 +137,61 @@ export default async function handler(
     console.log(`[Webhook] Received batch ${payload?.id} with ${items.length} items`);
     console.log(`[Webhook] Payload:`, JSON.stringify(payload, null, 2));
 
-    const results: string[] = [];
-
+    // Each item is processed on its own — one failure never stops the rest
+    const outcomes: WebhookItemLog[] = [];
     for (const item of items) {
-      const eventType = item.type || '';
-      const data = item.data || {};
-
-      console.log(`[Webhook] Processing event: ${eventType}`);
+      outcomes.push(await processBatchItem(payload?.id, item));
+    }
 
-      switch (eventType) {
-        case 'hr.absence.requested':
-          await handleAbsenceCreated(data);
-          results.push(`created: ${data.id}`);
-          break;
+    await dedup.prune().catch((pruneError) =>
+      console.warn('[Webhook] Failed to prune processed items:', pruneError)
+    );
 
-        case 'hr.absence.cancelled':
-        case 'hr.absence.canceled':
-          await handleAbsenceCancelled(data);
-          results.push(`cancelled: ${data.id}`);
-          break;
+    const failed = outcomes.filter((o) => o.status === 'failed');
+    const queued = outcomes.filter((o) => o.status === 'queued');
+    const inFlight = outcomes.filter((o) => o.status === 'in_progress');
+    const summary = outcomes
+      .map((o) => `${o.status}: ${o.absence_request_id || o.type}${o.error ? ` (${o.error})` : ''}`)
+      .join(', ');
+
+    // Another delivery still owns some items — ask Flip to retry later,
+    // by which time the original result will be stored
+    let status = 200;
+    let batchStatus: WebhookLogEntry['status'] = 'ok';
+    if (inFlight.length > 0) {
+      status = 409;
+      batchStatus = 'in_progress';
+    } else if (failed.length > 0 && failed.length === outcomes.length) {
+      status = 500;
+      batchStatus = 'failed';
+    } else if (failed.length > 0) {
+      status = 207;
+      batchStatus = 'partial';
+    } else if (queued.length > 0) {
+      status = 202;
+      batchStatus = 'queued';
+    }
 
-        default:
-          console.log(`[Webhook] Unknown event type: ${eventType}`);
-          results.push(`ignored: ${eventType}`);
-          break;
-      }
+    logEntry.status = batchStatus;
+    logEntry.items = outcomes;
+    logEntry.result = summary;
+    if (failed.length > 0 || queued.length > 0) {
+      logEntry.error =
+        `${failed.length}/${outcomes.length} items failed, ` +
+        `${queued.length} queued for retry`;
     }
+    await saveLog(logEntry, startedAt);
 
-    logEntry.result = `ok: ${results.join(', ')}`;
-    logWebhook(logEntry);
-    res.status(200).json({ status: 'ok', processed: results });
+    res.status(status).json({
+      status: batchStatus,
+      processed: outcomes.filter((o) => o.result).map((o) => o.result),
+      items: outcomes,
+    });
   } catch (error) {
     console.error('[Webhook] Error processing webhook:', error);
+    logEntry.status = 'failed';
     logEntry.error = error instanceof Error ? error.message : String(error);
-    logWebhook(logEntry);
-
-    // Try to set error status on the absence request in Flip
-    try {
-      const firstItem = req.body?.items?.[0]?.data;
-      if (firstItem?.id) {
-        await flip.setAbsenceRequestError({
-          absence_request_id: firstItem.id,
-        });
-      }
-    } catch (flipError) {
-      console.error('[Webhook] Failed to set error status in Flip:', flipError);
-    }
+    await saveLog(logEntry, startedAt);
 
     res.status(500).json({
       error: 'Internal server error',
@@ -118,214 +201,114 @@ export default async function handler(
 }
 
 /**
- * Handle new absence request created by user in Flip MiniApp
- *
- * Actual Flip webhook data format:
- * {
- *   "id": "absence-request-uuid",
- *   "absentee": "user-uuid",
- *   "policy_id": "policy-uuid",
- *   "policy_external_id": "annual_leave",
- *   "starts_from": { "date": "2026-03-10T00:00:00", "type": "FIRST_HALF" },
- *   "ends_at": { "date": "2026-03-12T00:00:00", "type": "SECOND_HALF" },
- *   "requestor_comment": "...",
- *   "status": "PENDING"
- * }
+ * Persist a delivery's log entry. Logging problems never fail the webhook.
  */
-async function handleAbsenceCreated(data: Record<string, unknown>): Promise<void> {
-  const absenceRequestId = data.id as string;
-  const userId = data.absentee as string;
-  const policyId = data.policy_id as string;
-  const policyExternalId = data.policy_external_id as string | null;
-  const requestorComment = data.requestor_comment as string | null;
-  const startsFrom = data.starts_from as { date: string; type: string } | undefined;
-  const endsAt = data.ends_at as { date: string; type: string } | undefined;
-
-  console.log(
-    `[Webhook] Processing absence creation: request=${absenceRequestId}, user=${userId}, policy=${policyId}`
-  );
-
-  if (!absenceRequestId || !userId) {
-    throw new Error(`Missing required fields: id=${absenceRequestId}, absentee=${userId}`);
-  }
-
-  // 1. Map Flip user to BreatheHR employee
-  const breatheEmployeeId = await userMapping.getBreatheEmployeeId(userId);
-  if (!breatheEmployeeId) {
-    console.error(`[Webhook] No BreatheHR mapping found for Flip user ${userId}`);
-    await flip.setAbsenceRequestError({
-      absence_request_id: absenceRequestId,
-    });
-    throw new Error(`No BreatheHR employee mapping for Flip user ${userId}`);
-  }
-
-  // 2. Determine the BreatheHR leave reason ID from the policy external_id
-  const leaveReasonId = policyExternalId
-    ? parseInt(policyExternalId, 10)
-    : undefined;
-
-  // 3. Parse dates — Flip sends "2026-03-10T00:00:00", BreatheHR needs "2026-03-10"
-  const startDate = startsFrom?.date?.split('T')[0] || '';
-  const endDate = endsAt?.date?.split('T')[0] || '';
-
-  // 4. Map half-day types
-  const halfStart = startsFrom?.type === 'SECOND_HALF';
-  const halfEnd = endsAt?.type === 'FIRST_HALF';
-
-  // 5. Create leave request in BreatheHR
-  const result = await breathe.createLeaveRequest(
-    breatheEmployeeId,
-    startDate,
-    endDate,
-    {
-      halfStart,
-      halfEnd,
-      notes: requestorComment || undefined,
-      leaveReasonId: leaveReasonId && !isNaN(leaveReasonId) ? leaveReasonId : undefined,
-    }
-  );
-
-  const leaveRequest = result.leave_requests?.[0];
-  if (!leaveRequest) {
-    throw new Error('BreatheHR did not return a leave request');
+async function saveLog(entry: WebhookLogEntry, startedAt: number): Promise<void> {
+  entry.duration_ms = Date.now() - startedAt;
+  try {
+    await logWebhook(entry);
+  } catch (logError) {
+    console.error('[Webhook] Failed to write webhook log:', logError);
   }
-
-  console.log(
-    `[Webhook] Created BreatheHR leave request ${leaveRequest.id} for employee ${breatheEmployeeId}`
-  );
-
-  // 6. Patch the Flip absence request with BreatheHR's leave request ID
-  await flip.patchAbsenceRequestExternalId(
-    absenceRequestId,
-    String(leaveRequest.id)
-  );
-
-  // Note: Do NOT auto-approve in Flip here.
-  // The request stays PENDING until BreatheHR's manager approves it.
-  // Our periodic absence sync (every 30 mins) will detect the approval
-  // in BreatheHR and update the status to APPROVED in Flip.
-
-  console.log(
-    `[Webhook] Absence request ${absenceRequestId} created in BreatheHR as ${leaveRequest.id} — awaiting approval`
-  );
 }
 
 /**
- * Handle absence request cancelled by user in Flip MiniApp
- *
- * The external_id on the Flip request is the BreatheHR LEAVE REQUEST ID
- * (not the absence ID — they're different in BreatheHR).
+ * Process one item of a batch in isolation.
  *
- * Two cases:
- * 1. Leave request is still PENDING → cancel/delete the leave request
- * 2. Leave request was APPROVED (absence exists) → find the absence and cancel it
+ * Never throws: a failure is reported in the outcome. Failed items go to
+ * the dead-letter queue for retry; if the upstream API rejected the item
+ * (4xx) or queuing is impossible, its absence request is set to ERROR in
+ * Flip straight away.
  */
-async function handleAbsenceCancelled(data: Record<string, unknown>): Promise<void> {
-  const absenceRequestId = data.id as string;
-  const userId = data.absentee as string;
-  const externalId = data.external_id as string | null;
-
-  // Also extract dates from the webhook data (used to find the absence if needed)
-  const startsFrom = data.starts_from as { date: string } | undefined;
-  const endsAt = data.ends_at as { date: string } | undefined;
-
-  console.log(
-    `[Webhook] Processing absence cancellation: request=${absenceRequestId}, ` +
-      `user=${userId}, external_id=${externalId}`
-  );
-
-  if (!externalId) {
-    console.warn(
-      `[Webhook] No external_id on absence request ${absenceRequestId}, cannot cancel in BreatheHR`
-    );
-    return;
-  }
-
-  const breatheLeaveRequestId = parseInt(externalId, 10);
-  if (isNaN(breatheLeaveRequestId)) {
-    throw new Error(`Invalid BreatheHR leave request ID: ${externalId}`);
-  }
+async function processBatchItem(
+  batchId: string | undefined,
+  item: { type?: string; data?: Record<string, unknown> }
+): Promise<WebhookItemLog> {
+  const eventType = item.type || '';
+  const data = item.data || {};
+  const absenceRequestId = (data.id as string) || null;
+  const startedAt = Date.now();
+  const outcome: WebhookItemLog = {
+    type: eventType,
+    absence_request_id: absenceRequestId,
+    flip_user_id: (data.absentee as string) || null,
+    status: 'processed',
+    started_at: new Date(startedAt).toISOString(),
+    duration_ms: 0,
+  };
+  const done = (fields: Partial<WebhookItemLog>): WebhookItemLog => ({
+    ...outcome,
+    ...fields,
+    duration_ms: Date.now() - startedAt,
+  });
 
-  // Step 1: Try to cancel/delete the leave request directly
-  // This works when the request is still pending in BreatheHR
   try {
-    await breathe.cancelLeaveRequest(breatheLeaveRequestId);
-    console.log(
-      `[Webhook] Cancelled BreatheHR leave request ${breatheLeaveRequestId} (Flip ${absenceRequestId})`
-    );
-    return;
-  } catch (leaveRequestError) {
-    console.log(
-      `[Webhook] Could not cancel leave request ${breatheLeaveRequestId}: ` +
-        `${leaveRequestError instanceof Error ? leaveRequestError.message : leaveRequestError}. ` +
-        `The request may have already been approved — trying to find and cancel the absence.`
-    );
-  }
-
-  // Step 2: Leave request cancel failed — it was probably already approved
-  // and became an absence. Find the matching absence by dates + employee.
-  const breatheEmployeeId = await userMapping.getBreatheEmployeeId(userId);
-  if (!breatheEmployeeId) {
-    throw new Error(
-      `Cannot cancel: no BreatheHR mapping for Flip user ${userId} ` +
-        `and leave request cancel failed`
-    );
-  }
-
-  // Try to find the absence that matches this leave request's dates
-  const startDate = startsFrom?.date?.split('T')[0] || '';
-  const endDate = endsAt?.date?.split('T')[0] || '';
-
-  const absences = await breathe.getAllEmployeeAbsences(breatheEmployeeId);
+    // Skip items this batch already processed (or is processing right now)
+    const claim = await dedup.claim(batchId, eventType, absenceRequestId || undefined);
+    if (claim.state === 'completed') {
+      console.log(`[Webhook] Duplicate delivery of ${claim.key} — returning original result`);
+      return done({ status: 'duplicate', result: claim.result });
+    }
+    if (claim.state === 'in_progress') {
+      console.log(`[Webhook] ${claim.key} is already being processed — skipping`);
+      return done({ status: 'in_progress' });
+    }
 
-  // Match by dates first, then fall back to checking the leave request for dates
-  let matchingAbsence = absences.find(
-    (a) =>
-      a.start_date === startDate &&
-      a.end_date === endDate &&
-      !((a as Record<string, unknown>).cancelled === true ||
-        (a as Record<string, unknown>).cancelled === 'true')
-  );
+    console.log(`[Webhook] Processing event: ${eventType}`);
 
-  // If no date match from webhook data, try fetching the leave request for dates
-  if (!matchingAbsence && breatheLeaveRequestId) {
     try {
-      const lrResult = await breathe.getLeaveRequest(breatheLeaveRequestId);
-      const lr = lrResult.leave_requests?.[0];
-      if (lr) {
-        matchingAbsence = absences.find(
-          (a) =>
-            a.start_date === lr.start_date &&
-            a.end_date === lr.end_date &&
-            !((a as Record<string, unknown>).cancelled === true ||
-              (a as Record<string, unknown>).cancelled === 'true')
+      const processed = await processor.processItem(eventType, data);
+      if (claim.state === 'claimed') {
+        await dedup.complete(claim.key, claim.token, processed.result);
+      }
+      return done(processed);
+    } catch (itemError) {
+      const message = itemError instanceof Error ? itemError.message : String(itemError);
+      console.error(`[Webhook] Failed to process ${eventType} ${absenceRequestId}:`, itemError);
+
+      // Park the item for retry; Flip is only told about the error once
+      // the dead-letter job has run out of attempts. A request the API
+      // rejected outright (4xx) would fail the same way again, so it is
+      // not queued.
+      if (isClientError(itemError)) {
+        console.error(
+          `[Webhook] ${eventType} ${absenceRequestId} was rejected by the upstream API — not retrying`
+        );
+      } else {
+        try {
+          const letter = await deadLetters.add({ eventType, data, error: message, batchId });
+          const result = `queued for retry: ${letter.id}`;
+          if (claim.state === 'claimed') {
+            await dedup.complete(claim.key, claim.token, result);
+          }
+          console.log(`[Webhook] Queued ${letter.id} for retry (attempt ${letter.attempts})`);
+          return done({ status: 'queued', result, error: message });
+        } catch (queueError) {
+          console.error('[Webhook] Failed to queue item for retry:', queueError);
+        }
+      }
+
+      if (claim.state === 'claimed') {
+        await dedup.fail(claim.key, claim.token, message);
+      }
+      throw itemError;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Webhook] Giving up on ${eventType} ${absenceRequestId}:`, error);
+
+    // Could not queue it — set error status on this item's absence request in Flip
+    if (absenceRequestId) {
+      try {
+        await flip.setAbsenceRequestError({ absence_request_id: absenceRequestId });
+      } catch (flipError) {
+        console.error(
+          `[Webhook] Failed to set error status in Flip for ${absenceRequestId}:`,
+          flipError
         );
       }
-    } catch {
-      console.log(
-        `[Webhook] Could not fetch leave request ${breatheLeaveRequestId} for date matching`
-      );
     }
-  }
 
-  if (matchingAbsence) {
-    await breathe.cancelAbsence(matchingAbsence.id);
-    console.log(
-      `[Webhook] Cancelled BreatheHR absence ${matchingAbsence.id} ` +
-        `(dates: ${matchingAbsence.start_date} - ${matchingAbsence.end_date}, ` +
-        `Flip request ${absenceRequestId})`
-    );
-  } else {
-    console.error(
-      `[Webhook] Could not find matching BreatheHR absence for ` +
-        `leave request ${breatheLeaveRequestId} ` +
-        `(dates: ${startDate || 'unknown'} - ${endDate || 'unknown'}, ` +
-        `employee ${breatheEmployeeId}). ` +
-        `Manual intervention may be needed.`
-    );
-    throw new Error(
-      `Could not cancel: leave request ${breatheLeaveRequestId} cancel failed ` +
-        `and no matching absence found`
-    );
+    return done({ status: 'failed', error: message });
   }
 }
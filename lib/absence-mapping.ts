@@ -0,0 +1,165 @@
+import type {
+  FlipSyncAbsenceRequest,
+  AbsenceRequestStatus,
+  BreatheAbsence,
+  BreatheLeaveRequest,
+} from './types';
+
+/**
+ * BreatheHR → Flip absence mapping
+ *
+ * Pure functions that turn BreatheHR absences and leave requests into
+ * Flip sync items. Used by the absence sync.
+ *
+ * Half days: BreatheHR's half_start means the first day starts at midday
+ * (Flip SECOND_HALF); half_end means the last day ends at midday (Flip
+ * FIRST_HALF).
+ */
+
+/**
+ * Map a BreatheHR absence to Flip's sync format
+ *
+ * Uses leave_request.id as external_id when the absence resolves to a
+ * leave request (for webhook-created entries), otherwise falls back to absence.id.
+ */
+export function mapBreatheAbsenceToFlipSync(
+  absence: BreatheAbsence,
+  flipUserId: string,
+  policyByExternalId: Map<string, string>,
+  leaveRequestIdByAbsenceId: Map<number, number>
+): FlipSyncAbsenceRequest | null {
+  const isCancelled =
+    (absence as Record<string, unknown>).cancelled === true ||
+    (absence as Record<string, unknown>).cancelled === 'true';
+  const status: AbsenceRequestStatus = isCancelled ? 'CANCELLED' : 'APPROVED';
+
+  // Use leave_request.id as external_id when available (matches webhook entries)
+  const leaveRequestId = leaveRequestIdByAbsenceId.get(absence.id);
+  const externalId = leaveRequestId ? String(leaveRequestId) : String(absence.id);
+
+  // Determine the policy
+  let policyExternalId = 'annual_leave';
+  if (absence.leave_reason) {
+    const leaveReasonId =
+      (absence as Record<string, unknown>).leave_reason_id ||
+      (absence as Record<string, unknown>).other_leave_reason_id;
+    if (leaveReasonId && policyByExternalId.has(String(leaveReasonId))) {
+      policyExternalId = String(leaveReasonId);
+    }
+  }
+
+  const startsFromType = absence.half_start ? 'SECOND_HALF' : undefined;
+  const endsAtType = absence.half_end ? 'FIRST_HALF' : undefined;
+
+  return {
+    id: null,
+    external_id: externalId,
+    approver: null,
+    absentee: flipUserId,
+    duration: absence.deducted
+      ? { amount: parseFloat(String(absence.deducted)) || 0, unit: 'DAYS' }
+      : undefined,
+    policy: {
+      external_id: policyExternalId,
+    },
+    requestor_comment: absence.notes || null,
+    status,
+    last_updated: absence.updated_at || null,
+    starts_from: {
+      date: absence.start_date
+        ? `${absence.start_date}T00:00:00`
+        : absence.start_date,
+      type: startsFromType,
+    },
+    ends_at: {
+      date: absence.end_date
+        ? `${absence.end_date}T00:00:00`
+        : absence.end_date,
+      type: endsAtType,
+    },
+  };
+}
+
+/**
+ * Map a BreatheHR leave request (pending or rejected) to Flip's sync format
+ *
+ * Used for leave requests that haven't become absences yet (still pending)
+ * or were rejected/denied. Including these in the sync prevents the
+ * full-replacement lifecycle from destroying webhook-created Flip entries.
+ *
+ * For REJECTED leave requests, we try to find and append the manager's
+ * rejection reason to the requestor_comment so it's visible in Flip.
+ */
+export function mapLeaveRequestToFlipSync(
+  lr: BreatheLeaveRequest,
+  flipUserId: string,
+  status: AbsenceRequestStatus
+): FlipSyncAbsenceRequest | null {
+  if (!lr.start_date || !lr.end_date) return null;
+
+  const startsFromType = (lr.half_start || lr.start_half_day)
+    ? 'SECOND_HALF'
+    : undefined;
+  const endsAtType = (lr.half_end || lr.end_half_day)
+    ? 'FIRST_HALF'
+    : undefined;
+
+  // Build the comment — for rejected requests, append any manager rejection reason
+  let comment = lr.notes || null;
+  if (status === 'REJECTED') {
+    const rejectionReason = extractRejectionReason(lr);
+    if (rejectionReason) {
+      comment = comment
+        ? `${comment}\n\n--- Manager's reason: ${rejectionReason}`
+        : `Manager's reason: ${rejectionReason}`;
+    }
+  }
+
+  return {
+    id: null,
+    external_id: String(lr.id),
+    approver: null,
+    absentee: flipUserId,
+    duration: undefined,
+    policy: {
+      external_id: 'annual_leave',
+    },
+    requestor_comment: comment,
+    status,
+    last_updated: lr.updated_at || null,
+    starts_from: {
+      date: `${lr.start_date}T00:00:00`,
+      type: startsFromType,
+    },
+    ends_at: {
+      date: `${lr.end_date}T00:00:00`,
+      type: endsAtType,
+    },
+  };
+}
+
+/**
+ * Extract the manager's rejection reason from a BreatheHR leave request.
+ *
+ * BreatheHR has a `reason` field on leave requests. We check that plus
+ * other possible field names. The [key: string]: unknown index signature
+ * on the BreatheLeaveRequest type allows accessing additional fields.
+ */
+export function extractRejectionReason(lr: BreatheLeaveRequest): string | null {
+  const raw = lr as Record<string, unknown>;
+  const reason =
+    (raw.rejection_reason as string) ||
+    (raw.declined_reason as string) ||
+    (raw.reject_reason as string) ||
+    (raw.denial_reason as string) ||
+    (raw.reviewer_notes as string) ||
+    (raw.reviewer_comment as string) ||
+    (raw.manager_comment as string) ||
+    (raw.manager_notes as string) ||
+    (raw.approver_comment as string) ||
+    (raw.reason as string) ||
+    (raw.comment as string) ||
+    null;
+
+  return reason && reason.trim() ? reason.trim() : null;
+}
@@ -0,0 +1,96 @@
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'sync_state';
+const KEY = 'absences';
+
+const DEFAULT_MAX_DROP_PERCENT = 25;
+
+interface AbsenceSyncState {
+  syncId: string;
+  itemCount: number;
+  completedAt: string;
+}
+
+export type AbsenceSyncVerdict =
+  | { ok: true; previousItemCount: number | null }
+  | {
+      ok: false;
+      reason: 'employee_fetch_failed' | 'item_count_dropped';
+      message: string;
+      previousItemCount: number | null;
+    };
+
+/**
+ * Absence Sync Guard
+ *
+ * Flip's absence sync is a full replacement: completing it removes every
+ * Flip request that was not pushed. Before starting one, the absence sync
+ * asks this guard whether the push is safe. It is not when:
+ *
+ *   - fetching any employee's data from BreatheHR failed (their Flip
+ *     history would be wiped), or
+ *   - the item count dropped more than `maxDropPercent` below the last
+ *     completed sync (something upstream is probably wrong).
+ *
+ * The item count of each completed sync is stored as the next baseline.
+ */
+export class AbsenceSyncGuard {
+  private storage: StorageBackend;
+  private maxDropPercent: number;
+
+  constructor(storage?: StorageBackend, options?: { maxDropPercent?: number }) {
+    this.storage = storage || getStorage();
+    this.maxDropPercent = options?.maxDropPercent ?? DEFAULT_MAX_DROP_PERCENT;
+  }
+
+  /**
+   * Decide whether a sync with `itemCount` items may be completed.
+   * `allowDrop` skips the item count check (e.g. an operator confirmed it).
+   */
+  async check(params: {
+    itemCount: number;
+    failedEmployeeIds: number[];
+    allowDrop?: boolean;
+  }): Promise<AbsenceSyncVerdict> {
+    const previous = await this.storage.get<AbsenceSyncState>(COLLECTION, KEY);
+    const previousItemCount = previous ? previous.itemCount : null;
+
+    if (params.failedEmployeeIds.length > 0) {
+      return {
+        ok: false,
+        reason: 'employee_fetch_failed',
+        message:
+          `Could not fetch BreatheHR data for ${params.failedEmployeeIds.length} employee(s) ` +
+          `(${params.failedEmployeeIds.join(', ')}); completing would remove their Flip absences`,
+        previousItemCount,
+      };
+    }
+
+    if (!params.allowDrop && previousItemCount) {
+      const dropPercent = ((previousItemCount - params.itemCount) / previousItemCount) * 100;
+      if (dropPercent > this.maxDropPercent) {
+        return {
+          ok: false,
+          reason: 'item_count_dropped',
+          message:
+            `Item count dropped from ${previousItemCount} to ${params.itemCount} ` +
+            `(${dropPercent.toFixed(1)}%, limit ${this.maxDropPercent}%)`,
+          previousItemCount,
+        };
+      }
+    }
+
+    return { ok: true, previousItemCount };
+  }
+
+  /**
+   * Remember a completed sync as the baseline for the next one
+   */
+  async recordCompleted(syncId: string, itemCount: number): Promise<void> {
+    await this.storage.put<AbsenceSyncState>(COLLECTION, KEY, {
+      syncId,
+      itemCount,
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
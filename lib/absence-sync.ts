@@ -0,0 +1,756 @@
+import type { BreatheHRClient } from './breathehr';
+import {
+  absenceEmployeeId,
+  BreatheSnapshot,
+  EmployeeLeaveSource,
+  leaveRequestEmployeeId,
+} from './breathe-snapshot';
+import type { Clients } from './clients';
+import type { AbsenceSyncMode } from './config';
+import type { FlipClient } from './flip';
+import { mapConcurrent } from './concurrency';
+import { AbsenceLinkStore } from './link-store';
+import { AbsenceSyncGuard, AbsenceSyncVerdict } from './absence-sync-guard';
+import {
+  mapBreatheAbsenceToFlipSync,
+  mapLeaveRequestToFlipSync,
+} from './absence-mapping';
+import {
+  applyPendingRepairIds,
+  PendingRepair,
+  PendingRepairStore,
+  RepairOutcome,
+  repairPendingLinks,
+} from './pending-repair';
+import { diffAbsenceRequests, summarizeDiff, SyncDiff, SyncDiffSummary } from './sync-diff';
+import { EmployeeRunOutcome, employeeRunErrors, SyncRunOutcome } from './sync-runs';
+import { SyncWatermarkStore } from './sync-watermark';
+import {
+  BreatheLeaveRequest,
+  FlipAbsenceRequest,
+  FlipSyncAbsenceRequest,
+  UserMapping,
+} from './types';
+
+const WATERMARK = 'absences';
+
+// BreatheHR's clock and ours may disagree; a delta run looks this far
+// before the watermark so nothing changed around it is missed
+const DEFAULT_DELTA_OVERLAP_MS = 5 * 60 * 1000;
+
+export interface EmployeeSyncItems {
+  items: FlipSyncAbsenceRequest[];
+  /** The employee's BreatheHR leave requests the items were built from */
+  leaveRequests: BreatheLeaveRequest[];
+  /** Ids of the employee's BreatheHR absences */
+  absenceIds: number[];
+  absences: number;
+  pending: number;
+  rejected: number;
+}
+
+export interface EmployeeSyncResult {
+  flip_user_id: string;
+  breathe_employee_id: number;
+  breathe_ref: string;
+  status: 'ok' | 'failed';
+  sync_id: string | null;
+  synced: number;
+  absences: number;
+  pending: number;
+  rejected: number;
+  error?: string;
+}
+
+export interface AbsenceSyncOptions {
+  mode: AbsenceSyncMode;
+  batchSize: number;
+  maxDropPercent: number;
+  dryRun?: boolean;
+  /** Accept an item count drop past maxDropPercent */
+  force?: boolean;
+  /**
+   * Only resync employees with BreatheHR absences or leave requests
+   * changed since the last successful run, one scoped cycle each
+   * (`mode` is ignored)
+   */
+  delta?: boolean;
+  /** How far before the watermark a delta run looks */
+  deltaOverlapMs?: number;
+  /**
+   * BreatheHR data shared with other jobs of the run; loaded here otherwise.
+   * Unused by a delta run with a watermark
+   */
+  snapshot?: BreatheSnapshot;
+  /** Employees processed at once (default 1) */
+  concurrency?: number;
+  /** Aborts the run, cancelling any Flip sync it has open */
+  signal?: AbortSignal;
+}
+
+/** Which employees a delta run covered */
+export interface AbsenceDeltaScope {
+  /** Changes from here on were looked for; null when there was no watermark yet and everyone was synced */
+  since: string | null;
+  changed_employees: number;
+}
+
+export interface TenantAbsenceSyncResult {
+  status: 'ok';
+  mode: 'tenant';
+  sync_id: string;
+  synced: number;
+  absences: number;
+  pending: number;
+  rejected: number;
+  previous_item_count: number | null;
+  repairs?: Record<RepairOutcome, number>;
+  errors: number;
+  employees: EmployeeRunOutcome[];
+}
+
+export interface PerEmployeeAbsenceSyncResult {
+  status: 'ok' | 'partial' | 'failed';
+  mode: 'per_employee';
+  synced: number;
+  delta?: AbsenceDeltaScope;
+  employees: EmployeeSyncResult[];
+  repairs?: Record<RepairOutcome, number>;
+  errors: number;
+}
+
+/** The guard refused a tenant-wide sync; no Flip sync was started */
+export interface CancelledAbsenceSyncResult {
+  status: 'cancelled';
+  reason: 'employee_fetch_failed' | 'item_count_dropped';
+  message: string;
+  item_count: number;
+  previous_item_count: number | null;
+  failed_employees: number[];
+  errors: number;
+  employees: EmployeeRunOutcome[];
+}
+
+export interface AbsenceSyncDryRun {
+  status: 'ok';
+  dry_run: true;
+  mode: AbsenceSyncMode;
+  summary: SyncDiffSummary;
+  diff: SyncDiff<FlipSyncAbsenceRequest, FlipAbsenceRequest>;
+  guard?: AbsenceSyncVerdict;
+  delta?: AbsenceDeltaScope;
+  failed_employees: number[];
+  errors: number;
+  employees: EmployeeRunOutcome[];
+}
+
+export type AbsenceSyncRunResult =
+  | TenantAbsenceSyncResult
+  | PerEmployeeAbsenceSyncResult
+  | CancelledAbsenceSyncResult
+  | AbsenceSyncDryRun;
+
+/**
+ * Map Flip policy external_id (BreatheHR leave reason) → Flip policy id
+ */
+export async function getPolicyIdsByExternalId(flip: FlipClient): Promise<Map<string, string>> {
+  const policiesResult = await flip.getAbsencePolicies();
+  const policies = policiesResult.items || [];
+  return new Map(
+    policies.filter((p) => p.external_id).map((p) => [p.external_id!, p.id])
+  );
+}
+
+/**
+ * BreatheHR employee ids with an absence or leave request changed at or
+ * after `since` (tenant-wide listings filtered by updated_since). Throws
+ * when a changed record names no employee, rather than miss the change.
+ */
+export async function getChangedEmployeeIds(
+  breathe: BreatheHRClient,
+  since: string
+): Promise<Set<number>> {
+  const filters = { updated_since: since };
+  const absences = await breathe.getAllAbsences(filters);
+  const leaveRequests = await breathe.getAllLeaveRequests(filters);
+
+  return new Set<number>([
+    ...absences.map(absenceEmployeeId),
+    ...leaveRequests.map(leaveRequestEmployeeId),
+  ]);
+}
+
+/**
+ * Build the Flip sync items for one mapped employee:
+ *
+ *   A) absences (approved/cancelled leave)
+ *   B) PENDING and REJECTED leave requests — these don't appear in the
+ *      absences endpoint but must be pushed to preserve webhook-created
+ *      Flip entries and show rejections to users.
+ *
+ * Approvals detected while resolving links are recorded, unless
+ * `options.readOnly` is set (see AbsenceLinkStore.resolveAbsenceLeaveRequests).
+ *
+ * Throws when either BreatheHR fetch fails; callers must not push a
+ * partial item list for the employee.
+ */
+export async function buildEmployeeSyncItems(
+  breathe: EmployeeLeaveSource,
+  links: AbsenceLinkStore,
+  mapping: UserMapping,
+  policyByExternalId: Map<string, string>,
+  options: { readOnly?: boolean } = {}
+): Promise<EmployeeSyncItems> {
+  const seenExternalIds = new Set<string>();
+
+  const absences = await breathe.getAllEmployeeAbsences(mapping.breatheEmployeeId);
+  const leaveRequests = await breathe.getAllEmployeeLeaveRequests(mapping.breatheEmployeeId);
+  const result: EmployeeSyncItems = {
+    items: [],
+    leaveRequests,
+    absenceIds: absences.map((a) => a.id),
+    absences: 0,
+    pending: 0,
+    rejected: 0,
+  };
+
+  // Resolve absence → leave_request_id for external_id matching
+  // (stored links first, date matching only for legacy data)
+  const leaveRequestIdByAbsenceId = await links.resolveAbsenceLeaveRequests(
+    mapping.breatheEmployeeId,
+    absences,
+    leaveRequests,
+    options
+  );
+
+  console.log(
+    `[AbsenceSync] Employee ${mapping.breatheEmployeeId}: ` +
+      `${absences.length} absences, ${leaveRequests.length} leave requests`
+  );
+
+  for (const absence of absences) {
+    const syncItem = mapBreatheAbsenceToFlipSync(
+      absence,
+      mapping.flipUserId,
+      policyByExternalId,
+      leaveRequestIdByAbsenceId
+    );
+    if (syncItem && syncItem.external_id) {
+      result.items.push(syncItem);
+      seenExternalIds.add(syncItem.external_id);
+      result.absences++;
+    }
+  }
+
+  for (const lr of leaveRequests) {
+    const lrStatus = ((lr.status || '') as string).toLowerCase();
+    const externalId = String(lr.id);
+
+    // Approved leave requests become absences and are handled above
+    if (seenExternalIds.has(externalId)) continue;
+
+    if (lrStatus === 'pending') {
+      const syncItem = mapLeaveRequestToFlipSync(lr, mapping.flipUserId, 'PENDING');
+      if (syncItem) {
+        result.items.push(syncItem);
+        seenExternalIds.add(externalId);
+        result.pending++;
+        console.log(
+          `[AbsenceSync] Including PENDING leave request ${lr.id}: ` +
+            `${lr.start_date} - ${lr.end_date}`
+        );
+      }
+    } else if (
+      lrStatus === 'denied' ||
+      lrStatus === 'rejected' ||
+      lrStatus === 'declined'
+    ) {
+      const syncItem = mapLeaveRequestToFlipSync(lr, mapping.flipUserId, 'REJECTED');
+      if (syncItem) {
+        result.items.push(syncItem);
+        seenExternalIds.add(externalId);
+        result.rejected++;
+        console.log(
+          `[AbsenceSync] Including REJECTED leave request ${lr.id}: ` +
+            `${lr.start_date} - ${lr.end_date}`
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Push items to an active Flip sync in batches
+ */
+export async function pushSyncItems(
+  flip: FlipClient,
+  syncId: string,
+  items: FlipSyncAbsenceRequest[],
+  batchSize: number,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let i = 0; i < items.length; i += batchSize) {
+    signal?.throwIfAborted();
+    const batch = items.slice(i, i + batchSize);
+    await flip.syncAbsenceRequests(syncId, batch);
+    console.log(
+      `[AbsenceSync] Pushed batch ${Math.floor(i / batchSize) + 1} to ${syncId} (${batch.length} items)`
+    );
+  }
+}
+
+/**
+ * Resync one employee with its own start → push → complete cycle, scoped
+ * to their Flip user id. Completing replaces only that user's absence
+ * requests, so a failure here never touches anyone else's data.
+ *
+ * Never throws: a failed fetch skips the cycle entirely (nothing is
+ * started, Flip is left as it was) and a failed or aborted push cancels
+ * the employee's sync. Either way the result has status "failed".
+ */
+export async function syncEmployeeAbsences(params: {
+  breathe: EmployeeLeaveSource;
+  flip: FlipClient;
+  links: AbsenceLinkStore;
+  mapping: UserMapping;
+  policyByExternalId: Map<string, string>;
+  batchSize: number;
+  /** Unfinished webhook creations (lib/pending-repair.ts) */
+  pendingRepairs?: PendingRepair[];
+  signal?: AbortSignal;
+}): Promise<EmployeeSyncResult> {
+  const { flip, mapping } = params;
+  const result: EmployeeSyncResult = {
+    flip_user_id: mapping.flipUserId,
+    breathe_employee_id: mapping.breatheEmployeeId,
+    breathe_ref: mapping.breatheRef,
+    status: 'failed',
+    sync_id: null,
+    synced: 0,
+    absences: 0,
+    pending: 0,
+    rejected: 0,
+  };
+
+  let built: EmployeeSyncItems;
+  try {
+    built = await buildEmployeeSyncItems(
+      params.breathe,
+      params.links,
+      mapping,
+      params.policyByExternalId
+    );
+  } catch (error) {
+    console.error(
+      `[AbsenceSync] Error fetching data for employee ${mapping.breatheEmployeeId}, not syncing:`,
+      error
+    );
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+
+  applyPendingRepairIds(built.items, params.pendingRepairs || []);
+
+  try {
+    params.signal?.throwIfAborted();
+    const started = await flip.startAbsenceRequestSync(mapping.flipUserId);
+    result.sync_id = started.sync_id;
+    await pushSyncItems(flip, started.sync_id, built.items, params.batchSize, params.signal);
+    params.signal?.throwIfAborted();
+    await flip.completeAbsenceRequestSync(started.sync_id);
+  } catch (error) {
+    console.error(
+      `[AbsenceSync] Sync for employee ${mapping.breatheEmployeeId} failed:`,
+      error
+    );
+    result.error = error instanceof Error ? error.message : String(error);
+    if (result.sync_id) {
+      try {
+        await flip.cancelAbsenceRequestSync(result.sync_id);
+        console.log(`[AbsenceSync] Cancelled sync ${result.sync_id} due to error`);
+      } catch (cancelError) {
+        console.error('[AbsenceSync] Failed to cancel sync:', cancelError);
+      }
+    }
+    return result;
+  }
+
+  console.log(
+    `[AbsenceSync] Employee ${mapping.breatheEmployeeId} synced ` +
+      `${built.items.length} items (sync ${result.sync_id})`
+  );
+
+  return {
+    ...result,
+    status: 'ok',
+    synced: built.items.length,
+    absences: built.absences,
+    pending: built.pending,
+    rejected: built.rejected,
+  };
+}
+
+/**
+ * Absence sync job (POST /api/sync/absences, step 3 of /api/sync/all)
+ *
+ * Tenant mode runs one full-replacement start → push → complete cycle.
+ * When AbsenceSyncGuard says completing it could wipe data, no cycle is
+ * started at all (status "cancelled"). Per-employee mode runs one scoped
+ * cycle per mapped user and reports each (status "partial"/"failed" when
+ * any employee failed). Pending webhook repairs are attempted first.
+ *
+ * Delta mode (options.delta) looks up which employees have BreatheHR
+ * absences or leave requests changed since the watermark and runs the
+ * per-employee cycle for those only. Each still pushes the employee's full
+ * history, since a scoped sync replaces all of that user's Flip requests.
+ * Without a watermark yet, everyone is synced. A leave request deleted in
+ * BreatheHR leaves no trace in the change listings, so delta runs need a
+ * regular full sync alongside them.
+ *
+ * Every run that brought everyone up to date (a completed tenant sync, or
+ * a per-employee or delta run with no failures) moves the watermark to its
+ * start (lib/sync-watermark.ts). Dry runs never do, nor do they repair
+ * or record links.
+ *
+ * Employees' BreatheHR data comes from options.snapshot, or a snapshot of
+ * the full history loaded here (lib/breathe-snapshot.ts). When it can't be
+ * loaded, every employee counts as failed. A delta run with a watermark
+ * fetches the changed employees' leave one by one instead, rather than
+ * listing the whole tenant's history for a handful of them. Up to options.concurrency
+ * employees are processed at once (lib/concurrency.ts); results keep the
+ * mapping order.
+ *
+ * Throws on failures outside a single employee's data; a started tenant
+ * sync is cancelled first. So does aborting options.signal (e.g. the
+ * orchestrator's job timeout): the open Flip sync is cancelled, and no
+ * further employee is started.
+ */
+export async function runAbsenceSync(
+  clients: Clients,
+  options: AbsenceSyncOptions
+): Promise<AbsenceSyncRunResult> {
+  const { breathe, flip, userMapping } = clients;
+  const { dryRun } = options;
+  const concurrency = options.concurrency ?? 1;
+  const mode: AbsenceSyncMode = options.delta ? 'per_employee' : options.mode;
+  const startedAt = new Date().toISOString();
+  const watermarks = new SyncWatermarkStore();
+  const links = new AbsenceLinkStore();
+  const guard = new AbsenceSyncGuard(undefined, { maxDropPercent: options.maxDropPercent });
+
+  // 0. Finish webhook creations whose Flip patch failed, so their
+  // leave requests aren't pushed as new entries (lib/pending-repair.ts)
+  const repairStore = new PendingRepairStore();
+  const repairs = dryRun
+    ? undefined
+    : await repairPendingLinks({ store: repairStore, breathe, flip, links });
+  if (repairs) {
+    console.log(`[AbsenceSync] Pending repairs: ${JSON.stringify(repairs)}`);
+  }
+  const unrepaired = await repairStore.list();
+
+  // 1. Get all user mappings — for a delta run, only those with changes
+  let mappings = await userMapping.getAllMappings();
+  let delta: AbsenceDeltaScope | undefined;
+  if (options.delta) {
+    const watermark = await watermarks.get(WATERMARK);
+    const since = watermark
+      ? new Date(
+          new Date(watermark).getTime() - (options.deltaOverlapMs ?? DEFAULT_DELTA_OVERLAP_MS)
+        ).toISOString()
+      : null;
+    if (since) {
+      const changed = await getChangedEmployeeIds(breathe, since);
+      mappings = mappings.filter((m) => changed.has(m.breatheEmployeeId));
+    }
+    delta = { since, changed_employees: mappings.length };
+    console.log(
+      since
+        ? `[AbsenceSync] Delta since ${since}: ${mappings.length} employees changed`
+        : '[AbsenceSync] Delta without a watermark: syncing everyone'
+    );
+  }
+  console.log(`[AbsenceSync] Processing ${mappings.length} mapped users`);
+  const leave: EmployeeLeaveSource = delta?.since
+    ? breathe
+    : options.snapshot || new BreatheSnapshot(breathe);
+
+  // 2. Get the policies from Flip so we can map leave reasons
+  const policyByExternalId = await getPolicyIdsByExternalId(flip);
+
+  if (mode === 'per_employee' && !dryRun) {
+    // One scoped start/push/complete cycle per mapped user
+    const employees = await mapConcurrent(mappings, concurrency, async (mapping) => {
+      options.signal?.throwIfAborted();
+      return syncEmployeeAbsences({
+        breathe: leave,
+        flip,
+        links,
+        mapping,
+        policyByExternalId,
+        batchSize: options.batchSize,
+        pendingRepairs: unrepaired,
+        signal: options.signal,
+      });
+    });
+    // An employee cut short by the abort must not read as a partial run
+    options.signal?.throwIfAborted();
+
+    const failed = employees.filter((e) => e.status === 'failed');
+    const synced = employees.reduce((sum, e) => sum + e.synced, 0);
+    console.log(
+      `[AbsenceSync] Per-employee sync complete. ` +
+        `Employees: ${employees.length}, Failed: ${failed.length}, Total: ${synced}`
+    );
+
+    // Failed employees keep their changes after the watermark for next time
+    if (failed.length === 0) {
+      await watermarks.advance(WATERMARK, startedAt);
+    }
+
+    return {
+      status: failed.length === 0 ? 'ok' : failed.length < employees.length ? 'partial' : 'failed',
+      mode,
+      synced,
+      delta,
+      employees,
+      repairs,
+      errors: failed.length,
+    };
+  }
+
+  // 3. Fetch absences AND leave requests, build sync items
+  const syncItems: FlipSyncAbsenceRequest[] = [];
+  let absenceCount = 0;
+  let pendingCount = 0;
+  let rejectedCount = 0;
+  let errorCount = 0;
+  const failedEmployeeIds: number[] = [];
+  const employees: EmployeeRunOutcome[] = [];
+
+  // Fetched concurrently, added up in mapping order
+  const fetched = await mapConcurrent(mappings, concurrency, (mapping) =>
+    buildEmployeeSyncItems(leave, links, mapping, policyByExternalId, {
+      readOnly: dryRun,
+    }).then(
+      (built) => ({ built, error: undefined }),
+      (error: unknown) => ({ built: undefined, error })
+    )
+  );
+
+  for (let i = 0; i < mappings.length; i++) {
+    const mapping = mappings[i];
+    const { built, error } = fetched[i];
+    const outcome: EmployeeRunOutcome = {
+      flip_user_id: mapping.flipUserId,
+      breathe_employee_id: mapping.breatheEmployeeId,
+      breathe_ref: mapping.breatheRef,
+      status: 'ok',
+    };
+    employees.push(outcome);
+
+    if (built) {
+      syncItems.push(...built.items);
+      absenceCount += built.absences;
+      pendingCount += built.pending;
+      rejectedCount += built.rejected;
+      outcome.counts = {
+        items: built.items.length,
+        absences: built.absences,
+        pending: built.pending,
+        rejected: built.rejected,
+      };
+    } else {
+      console.error(
+        `[AbsenceSync] Error fetching data for employee ${mapping.breatheEmployeeId}:`,
+        error
+      );
+      errorCount++;
+      failedEmployeeIds.push(mapping.breatheEmployeeId);
+      outcome.status = 'failed';
+      outcome.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  applyPendingRepairIds(syncItems, unrepaired);
+
+  if (dryRun) {
+    // Per-employee syncs only replace the requests of employees
+    // whose data was fetched; a tenant-wide sync replaces everyone's
+    const failedUserIds = new Set(
+      mappings
+        .filter((m) => failedEmployeeIds.includes(m.breatheEmployeeId))
+        .map((m) => m.flipUserId)
+    );
+    const mappedUserIds = new Set(mappings.map((m) => m.flipUserId));
+    const current = await flip.getAllAbsenceRequests();
+    const diff = diffAbsenceRequests(syncItems, current, policyByExternalId, (r) =>
+      mode === 'per_employee'
+        ? mappedUserIds.has(r.absentee) && !failedUserIds.has(r.absentee)
+        : true
+    );
+    const summary = summarizeDiff(diff);
+    const verdict =
+      mode === 'tenant'
+        ? await guard.check({
+            itemCount: syncItems.length,
+            failedEmployeeIds,
+            allowDrop: options.force,
+          })
+        : undefined;
+    console.log(`[AbsenceSync] Dry run (${mode}): ${JSON.stringify(summary)}`);
+
+    return {
+      status: 'ok',
+      dry_run: true,
+      mode,
+      summary,
+      diff,
+      guard: verdict,
+      delta,
+      failed_employees: failedEmployeeIds,
+      errors: errorCount,
+      employees,
+    };
+  }
+
+  // ================================================================
+  // 4. NOTIFICATIONS are handled by /api/sync/approval-check
+  // ================================================================
+  // The approval-check endpoint runs every 2 minutes (via Vercel cron)
+  // and calls the Flip approve/reject endpoints when BreatheHR status
+  // changes. This sync only handles data consistency via bulk push.
+  // ================================================================
+
+  // 5. Check the push could be completed without wiping data in Flip —
+  // before a sync is started, so a blocked run leaves Flip untouched
+  const verdict = await guard.check({
+    itemCount: syncItems.length,
+    failedEmployeeIds,
+    allowDrop: options.force,
+  });
+
+  if (!verdict.ok) {
+    console.warn(`[AbsenceSync] Not starting sync: ${verdict.message}`);
+
+    return {
+      status: 'cancelled',
+      reason: verdict.reason,
+      message: verdict.message,
+      item_count: syncItems.length,
+      previous_item_count: verdict.previousItemCount,
+      failed_employees: failedEmployeeIds,
+      errors: errorCount,
+      employees,
+    };
+  }
+
+  // 6. Start the sync in Flip
+  options.signal?.throwIfAborted();
+  const syncResult = await flip.startAbsenceRequestSync();
+  const syncId = syncResult.sync_id;
+  console.log(`[AbsenceSync] Started sync: ${syncId}`);
+
+  try {
+    // 7. Push items in batches
+    await pushSyncItems(flip, syncId, syncItems, options.batchSize, options.signal);
+
+    const totalSynced = absenceCount + pendingCount + rejectedCount;
+
+    // 8. Complete the sync
+    options.signal?.throwIfAborted();
+    await flip.completeAbsenceRequestSync(syncId);
+    await guard.recordCompleted(syncId, syncItems.length);
+    await watermarks.advance(WATERMARK, startedAt);
+
+    console.log(
+      `[AbsenceSync] Sync complete. ` +
+        `Absences: ${absenceCount}, Pending: ${pendingCount}, ` +
+        `Rejected: ${rejectedCount}, Total: ${totalSynced}, ` +
+        `Errors: ${errorCount}`
+    );
+
+    return {
+      status: 'ok',
+      mode: 'tenant',
+      sync_id: syncId,
+      synced: totalSynced,
+      absences: absenceCount,
+      pending: pendingCount,
+      rejected: rejectedCount,
+      previous_item_count: verdict.previousItemCount,
+      repairs,
+      errors: errorCount,
+      employees,
+    };
+  } catch (error) {
+    try {
+      await flip.cancelAbsenceRequestSync(syncId);
+      console.log(`[AbsenceSync] Cancelled sync ${syncId} due to error`);
+    } catch (cancelError) {
+      console.error('[AbsenceSync] Failed to cancel sync:', cancelError);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sync run history record of an absence sync (lib/sync-runs.ts)
+ */
+export function absenceRunOutcome(result: AbsenceSyncRunResult): SyncRunOutcome {
+  if ('dry_run' in result) {
+    return {
+      status: result.errors > 0 ? 'partial' : 'ok',
+      counts: { ...result.summary, errors: result.errors },
+      errors: employeeRunErrors(result.employees),
+      employees: result.employees,
+    };
+  }
+
+  if (result.status === 'cancelled') {
+    return {
+      status: 'cancelled',
+      counts: { items: result.item_count, errors: result.errors },
+      errors: [result.message, ...employeeRunErrors(result.employees)],
+      employees: result.employees,
+    };
+  }
+
+  if (result.mode === 'per_employee') {
+    const employees: EmployeeRunOutcome[] = result.employees.map((e) => ({
+      flip_user_id: e.flip_user_id,
+      breathe_employee_id: e.breathe_employee_id,
+      breathe_ref: e.breathe_ref,
+      status: e.status,
+      counts: { items: e.synced, absences: e.absences, pending: e.pending, rejected: e.rejected },
+      error: e.error,
+    }));
+    return {
+      status: result.status,
+      counts: {
+        synced: result.synced,
+        errors: result.errors,
+        ...(result.delta && { changed_employees: result.delta.changed_employees }),
+      },
+      errors: employeeRunErrors(employees),
+      sync_ids: result.employees.flatMap((e) => (e.sync_id ? [e.sync_id] : [])),
+      employees,
+    };
+  }
+
+  return {
+    status: result.errors > 0 ? 'partial' : 'ok',
+    counts: {
+      synced: result.synced,
+      absences: result.absences,
+      pending: result.pending,
+      rejected: result.rejected,
+      errors: result.errors,
+    },
+    errors: employeeRunErrors(result.employees),
+    sync_ids: [result.sync_id],
+    employees: result.employees,
+  };
+}
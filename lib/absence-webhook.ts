@@ -0,0 +1,468 @@
+import { BreatheHRClient } from './breathehr';
+import { FlipClient } from './flip';
+import { isClientError, isNotFound } from './errors';
+import { UserMappingService } from './user-mapping';
+import { AbsenceLinkStore } from './link-store';
+import { PendingRepairStore, rollbackCreation } from './pending-repair';
+import { DeadLetterStore } from './dead-letter';
+import type { BreatheAbsence } from './types';
+
+export type WebhookItemResult = { status: 'processed' | 'ignored'; result: string };
+
+export interface WebhookItemPlan {
+  action: 'create_leave_request' | 'cancel' | 'skip' | 'fail' | 'ignore';
+  description: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Absence Webhook Processor
+ *
+ * Applies a single Flip absence request event to BreatheHR. Used by the
+ * webhook route for live deliveries and by the replay route for stored ones.
+ *
+ * Supported event types:
+ *   hr.absence.requested            → create a BreatheHR leave request
+ *   hr.absence.cancelled / canceled → cancel the leave request or absence
+ */
+export class AbsenceWebhookProcessor {
+  private breathe: BreatheHRClient;
+  private flip: FlipClient;
+  private userMapping: UserMappingService;
+  private links: AbsenceLinkStore;
+  private pendingRepairs: PendingRepairStore;
+  private deadLetters: DeadLetterStore;
+
+  constructor(
+    breathe: BreatheHRClient,
+    flip: FlipClient,
+    userMapping?: UserMappingService,
+    links?: AbsenceLinkStore,
+    pendingRepairs?: PendingRepairStore,
+    deadLetters?: DeadLetterStore
+  ) {
+    this.breathe = breathe;
+    this.flip = flip;
+    this.userMapping = userMapping || new UserMappingService(breathe, flip);
+    this.links = links || new AbsenceLinkStore();
+    this.pendingRepairs = pendingRepairs || new PendingRepairStore();
+    this.deadLetters = deadLetters || new DeadLetterStore();
+  }
+
+  /**
+   * Dispatch a single webhook item to its handler and describe the outcome
+   */
+  async processItem(
+    eventType: string,
+    data: Record<string, unknown>
+  ): Promise<WebhookItemResult> {
+    switch (eventType) {
+      case 'hr.absence.requested':
+        await this.handleAbsenceCreated(data);
+        return { status: 'processed', result: `created: ${data.id}` };
+
+      case 'hr.absence.cancelled':
+      case 'hr.absence.canceled':
+        await this.handleAbsenceCancelled(data);
+        return { status: 'processed', result: `cancelled: ${data.id}` };
+
+      default:
+        console.log(`[Webhook] Unknown event type: ${eventType}`);
+        return { status: 'ignored', result: `ignored: ${eventType}` };
+    }
+  }
+
+  /**
+   * Describe what processItem would do, using read-only lookups only
+   * (dry-run for replays). Nothing is written to BreatheHR, Flip or the
+   * link store.
+   */
+  async planItem(eventType: string, data: Record<string, unknown>): Promise<WebhookItemPlan> {
+    const absenceRequestId = data.id as string;
+    const userId = data.absentee as string;
+
+    if (eventType === 'hr.absence.requested') {
+      if (!absenceRequestId || !userId) {
+        return {
+          action: 'fail',
+          description: `Missing required fields: id=${absenceRequestId}, absentee=${userId}`,
+        };
+      }
+
+      const existingLink = await this.links.findByFlipRequestId(absenceRequestId);
+      if (existingLink) {
+        return {
+          action: 'skip',
+          description:
+            `Already created in BreatheHR as leave request ${existingLink.breatheLeaveRequestId}`,
+        };
+      }
+
+      const breatheEmployeeId = await this.userMapping.getBreatheEmployeeId(userId);
+      if (!breatheEmployeeId) {
+        return {
+          action: 'fail',
+          description: `No BreatheHR employee mapping for Flip user ${userId}`,
+        };
+      }
+
+      const startsFrom = data.starts_from as { date: string; type: string } | undefined;
+      const endsAt = data.ends_at as { date: string; type: string } | undefined;
+      const startDate = startsFrom?.date?.split('T')[0] || '';
+      const endDate = endsAt?.date?.split('T')[0] || '';
+
+      return {
+        action: 'create_leave_request',
+        description:
+          `Would create a leave request for BreatheHR employee ${breatheEmployeeId} ` +
+          `(${startDate} - ${endDate}) and patch its id onto Flip request ${absenceRequestId}`,
+        details: {
+          breathe_employee_id: breatheEmployeeId,
+          start_date: startDate,
+          end_date: endDate,
+          half_start: startsFrom?.type === 'SECOND_HALF',
+          half_end: endsAt?.type === 'FIRST_HALF',
+          policy_external_id: data.policy_external_id ?? null,
+        },
+      };
+    }
+
+    if (eventType === 'hr.absence.cancelled' || eventType === 'hr.absence.canceled') {
+      const externalId = data.external_id as string | null;
+      const link = externalId
+        ? await this.links.findByLeaveRequestId(parseInt(externalId, 10))
+        : await this.links.findByFlipRequestId(absenceRequestId);
+      const leaveRequestRef = externalId || (link ? String(link.breatheLeaveRequestId) : null);
+
+      if (!leaveRequestRef) {
+        return {
+          action: 'skip',
+          description: `No external_id or stored link for absence request ${absenceRequestId}`,
+        };
+      }
+
+      return {
+        action: 'cancel',
+        description:
+          `Would cancel BreatheHR leave request ${leaveRequestRef}` +
+          (link?.breatheAbsenceId
+            ? `, or absence ${link.breatheAbsenceId} if it was already approved`
+            : ', or its matching absence if it was already approved'),
+        details: {
+          breathe_leave_request_id: leaveRequestRef,
+          breathe_absence_id: link?.breatheAbsenceId ?? null,
+          linked: Boolean(link),
+        },
+      };
+    }
+
+    return { action: 'ignore', description: `Unknown event type: ${eventType}` };
+  }
+
+  /**
+   * Handle new absence request created by user in Flip MiniApp
+   *
+   * Actual Flip webhook data format:
+   * {
+   *   "id": "absence-request-uuid",
+   *   "absentee": "user-uuid",
+   *   "policy_id": "policy-uuid",
+   *   "policy_external_id": "annual_leave",
+   *   "starts_from": { "date": "2026-03-10T00:00:00", "type": "FIRST_HALF" },
+   *   "ends_at": { "date": "2026-03-12T00:00:00", "type": "SECOND_HALF" },
+   *   "requestor_comment": "...",
+   *   "status": "PENDING"
+   * }
+   */
+  async handleAbsenceCreated(data: Record<string, unknown>): Promise<void> {
+    const absenceRequestId = data.id as string;
+    const userId = data.absentee as string;
+    const policyId = data.policy_id as string;
+    const policyExternalId = data.policy_external_id as string | null;
+    const requestorComment = data.requestor_comment as string | null;
+    const startsFrom = data.starts_from as { date: string; type: string } | undefined;
+    const endsAt = data.ends_at as { date: string; type: string } | undefined;
+
+    console.log(
+      `[Webhook] Processing absence creation: request=${absenceRequestId}, user=${userId}, policy=${policyId}`
+    );
+
+    if (!absenceRequestId || !userId) {
+      throw new Error(`Missing required fields: id=${absenceRequestId}, absentee=${userId}`);
+    }
+
+    // Never create a second leave request for the same Flip request, even if
+    // a redelivery arrives outside the dedup window
+    const existingLink = await this.links.findByFlipRequestId(absenceRequestId);
+    if (existingLink) {
+      console.log(
+        `[Webhook] Absence request ${absenceRequestId} already created in BreatheHR ` +
+          `as ${existingLink.breatheLeaveRequestId} — skipping`
+      );
+      return;
+    }
+
+    // 1. Map Flip user to BreatheHR employee
+    const breatheEmployeeId = await this.userMapping.getBreatheEmployeeId(userId);
+    if (!breatheEmployeeId) {
+      console.error(`[Webhook] No BreatheHR mapping found for Flip user ${userId}`);
+      throw new Error(`No BreatheHR employee mapping for Flip user ${userId}`);
+    }
+
+    // 2. Determine the BreatheHR leave reason ID from the policy external_id
+    const leaveReasonId = policyExternalId
+      ? parseInt(policyExternalId, 10)
+      : undefined;
+
+    // 3. Parse dates — Flip sends "2026-03-10T00:00:00", BreatheHR needs "2026-03-10"
+    const startDate = startsFrom?.date?.split('T')[0] || '';
+    const endDate = endsAt?.date?.split('T')[0] || '';
+
+    // 4. Map half-day types
+    const halfStart = startsFrom?.type === 'SECOND_HALF';
+    const halfEnd = endsAt?.type === 'FIRST_HALF';
+
+    // 5. Create leave request in BreatheHR
+    const result = await this.breathe.createLeaveRequest(
+      breatheEmployeeId,
+      startDate,
+      endDate,
+      {
+        halfStart,
+        halfEnd,
+        notes: requestorComment || undefined,
+        leaveReasonId: leaveReasonId && !isNaN(leaveReasonId) ? leaveReasonId : undefined,
+      }
+    );
+
+    const leaveRequest = result.leave_requests?.[0];
+    if (!leaveRequest) {
+      throw new Error('BreatheHR did not return a leave request');
+    }
+
+    console.log(
+      `[Webhook] Created BreatheHR leave request ${leaveRequest.id} for employee ${breatheEmployeeId}`
+    );
+
+    await this.links.recordLeaveRequest({
+      flipAbsenceRequestId: absenceRequestId,
+      breatheLeaveRequestId: leaveRequest.id,
+      breatheEmployeeId,
+      startDate,
+      endDate,
+    });
+
+    // 6. Patch the Flip absence request with BreatheHR's leave request ID.
+    // The client already retries transient failures. If it still fails, a
+    // refused patch (4xx) rolls the leave request back; anything else is
+    // parked for the absence sync to finish (lib/pending-repair.ts).
+    try {
+      await this.flip.patchAbsenceRequestExternalId(
+        absenceRequestId,
+        String(leaveRequest.id)
+      );
+    } catch (patchError) {
+      const repair = await this.pendingRepairs.add({
+        flipAbsenceRequestId: absenceRequestId,
+        breatheLeaveRequestId: leaveRequest.id,
+        breatheEmployeeId,
+        error: patchError instanceof Error ? patchError.message : String(patchError),
+      });
+
+      if (!isClientError(patchError)) {
+        console.warn(
+          `[Webhook] Could not patch Flip request ${absenceRequestId} with leave request ` +
+            `${leaveRequest.id}; parked for repair:`,
+          patchError
+        );
+        return;
+      }
+
+      console.warn(
+        `[Webhook] Flip refused the patch for ${absenceRequestId}; rolling back leave request ${leaveRequest.id}`
+      );
+      await rollbackCreation(repair, {
+        store: this.pendingRepairs,
+        breathe: this.breathe,
+        links: this.links,
+      });
+      throw patchError;
+    }
+
+    // Note: Do NOT auto-approve in Flip here.
+    // The request stays PENDING until BreatheHR's manager approves it.
+    // Our periodic absence sync (every 30 mins) will detect the approval
+    // in BreatheHR and update the status to APPROVED in Flip.
+
+    console.log(
+      `[Webhook] Absence request ${absenceRequestId} created in BreatheHR as ${leaveRequest.id} — awaiting approval`
+    );
+  }
+
+  /**
+   * Handle absence request cancelled by user in Flip MiniApp
+   *
+   * The external_id on the Flip request is the BreatheHR LEAVE REQUEST ID
+   * (not the absence ID — they're different in BreatheHR).
+   *
+   * Two cases:
+   * 1. Leave request is still PENDING → cancel/delete the leave request
+   * 2. Leave request was APPROVED (absence exists) → find the absence and cancel it
+   *
+   * The absence is resolved through the link store; date matching is only
+   * used for legacy requests that have no stored link.
+   *
+   * A creation of the request still queued in the dead-letter store is
+   * discarded, so its retry never books leave the user has cancelled.
+   */
+  async handleAbsenceCancelled(data: Record<string, unknown>): Promise<void> {
+    const absenceRequestId = data.id as string;
+    const userId = data.absentee as string;
+    const externalId = data.external_id as string | null;
+
+    // Also extract dates from the webhook data (used to find the absence if needed)
+    const startsFrom = data.starts_from as { date: string } | undefined;
+    const endsAt = data.ends_at as { date: string } | undefined;
+
+    console.log(
+      `[Webhook] Processing absence cancellation: request=${absenceRequestId}, ` +
+        `user=${userId}, external_id=${externalId}`
+    );
+
+    // Prefer the stored link; it also covers requests whose external_id
+    // patch never reached Flip
+    const link = externalId
+      ? await this.links.findByLeaveRequestId(parseInt(externalId, 10))
+      : await this.links.findByFlipRequestId(absenceRequestId);
+
+    const leaveRequestRef = externalId || (link ? String(link.breatheLeaveRequestId) : null);
+    if (!leaveRequestRef) {
+      const queued = await this.deadLetters.discardPending('hr.absence.requested', absenceRequestId);
+      if (queued) {
+        console.log(
+          `[Webhook] Absence request ${absenceRequestId} cancelled before its creation ` +
+            `succeeded — discarded dead letter ${queued.id}`
+        );
+        return;
+      }
+      console.warn(
+        `[Webhook] No external_id or stored link for absence request ${absenceRequestId}, ` +
+          `cannot cancel in BreatheHR`
+      );
+      return;
+    }
+
+    const breatheLeaveRequestId = parseInt(leaveRequestRef, 10);
+    if (isNaN(breatheLeaveRequestId)) {
+      throw new Error(`Invalid BreatheHR leave request ID: ${leaveRequestRef}`);
+    }
+
+    // The cancellation supersedes a creation still waiting for its patch
+    await this.pendingRepairs.remove(absenceRequestId);
+
+    // Step 1: Try to cancel/delete the leave request directly
+    // This works when the request is still pending in BreatheHR
+    try {
+      await this.breathe.cancelLeaveRequest(breatheLeaveRequestId);
+      console.log(
+        `[Webhook] Cancelled BreatheHR leave request ${breatheLeaveRequestId} (Flip ${absenceRequestId})`
+      );
+      return;
+    } catch (leaveRequestError) {
+      // Only a refusal from BreatheHR means "try the absence instead";
+      // server or network failures go back to the caller to be retried
+      if (!isClientError(leaveRequestError)) throw leaveRequestError;
+      console.log(
+        `[Webhook] Could not cancel leave request ${breatheLeaveRequestId}: ` +
+          `${leaveRequestError instanceof Error ? leaveRequestError.message : leaveRequestError}. ` +
+          `The request may have already been approved — trying to find and cancel the absence.`
+      );
+    }
+
+    // Step 2: Leave request cancel failed — it was probably already approved
+    // and became an absence. If the link already names the absence, use it.
+    if (link?.breatheAbsenceId) {
+      await this.breathe.cancelAbsence(link.breatheAbsenceId);
+      console.log(
+        `[Webhook] Cancelled BreatheHR absence ${link.breatheAbsenceId} ` +
+          `(linked to leave request ${breatheLeaveRequestId}, Flip request ${absenceRequestId})`
+      );
+      return;
+    }
+
+    const breatheEmployeeId =
+      link?.breatheEmployeeId ?? (await this.userMapping.getBreatheEmployeeId(userId));
+    if (!breatheEmployeeId) {
+      throw new Error(
+        `Cannot cancel: no BreatheHR mapping for Flip user ${userId} ` +
+          `and leave request cancel failed`
+      );
+    }
+
+    const startDate = startsFrom?.date?.split('T')[0] || '';
+    const endDate = endsAt?.date?.split('T')[0] || '';
+
+    const absences = await this.breathe.getAllEmployeeAbsences(breatheEmployeeId);
+    const isActive = (a: BreatheAbsence): boolean =>
+      !((a as Record<string, unknown>).cancelled === true ||
+        (a as Record<string, unknown>).cancelled === 'true');
+
+    let matchingAbsence: BreatheAbsence | undefined;
+
+    if (link) {
+      // Linked request approved since the last sync — resolve which absence it became
+      const resolved = await this.links.resolveAbsenceLeaveRequests(
+        breatheEmployeeId,
+        absences,
+        []
+      );
+      matchingAbsence = absences.find(
+        (a) => resolved.get(a.id) === breatheLeaveRequestId && isActive(a)
+      );
+    } else {
+      // Legacy request created before links were recorded: match by dates,
+      // first from the webhook data, then from the leave request itself
+      matchingAbsence = absences.find(
+        (a) => a.start_date === startDate && a.end_date === endDate && isActive(a)
+      );
+
+      if (!matchingAbsence) {
+        try {
+          const lrResult = await this.breathe.getLeaveRequest(breatheLeaveRequestId);
+          const lr = lrResult.leave_requests?.[0];
+          if (lr) {
+            matchingAbsence = absences.find(
+              (a) => a.start_date === lr.start_date && a.end_date === lr.end_date && isActive(a)
+            );
+          }
+        } catch (lookupError) {
+          if (!isNotFound(lookupError)) throw lookupError;
+          console.log(
+            `[Webhook] Leave request ${breatheLeaveRequestId} not found in BreatheHR for date matching`
+          );
+        }
+      }
+    }
+
+    if (matchingAbsence) {
+      await this.breathe.cancelAbsence(matchingAbsence.id);
+      console.log(
+        `[Webhook] Cancelled BreatheHR absence ${matchingAbsence.id} ` +
+          `(dates: ${matchingAbsence.start_date} - ${matchingAbsence.end_date}, ` +
+          `Flip request ${absenceRequestId})`
+      );
+    } else {
+      console.error(
+        `[Webhook] Could not find matching BreatheHR absence for ` +
+          `leave request ${breatheLeaveRequestId} ` +
+          `(dates: ${startDate || 'unknown'} - ${endDate || 'unknown'}, ` +
+          `employee ${breatheEmployeeId}). ` +
+          `Manual intervention may be needed.`
+      );
+      throw new Error(
+        `Could not cancel: leave request ${breatheLeaveRequestId} cancel failed ` +
+          `and no matching absence found`
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { timingSafeEqual } from 'crypto';
+import { getConfig } from './config';
+
+/**
+ * Admin route authentication
+ *
+ * Admin routes require the ADMIN_API_KEY, sent either as
+ * `Authorization: Bearer <key>` or as an `X-Admin-Key` header.
+ * If ADMIN_API_KEY is not configured, admin routes refuse every request.
+ *
+ * Returns true when the request may proceed; otherwise the response has
+ * already been sent.
+ */
+export function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
+  const { apiKey } = getConfig().admin;
+
+  if (!apiKey) {
+    console.warn('[Admin] ADMIN_API_KEY not set — refusing admin request');
+    res.status(503).json({ error: 'Admin API is not configured' });
+    return false;
+  }
+
+  const authorization = (req.headers['authorization'] as string) || '';
+  const provided =
+    (authorization.startsWith('Bearer ') ? authorization.slice(7) : '') ||
+    (req.headers['x-admin-key'] as string) ||
+    '';
+
+  const providedBuf = Buffer.from(provided);
+  const expectedBuf = Buffer.from(apiKey);
+  if (providedBuf.length !== expectedBuf.length || !timingSafeEqual(providedBuf, expectedBuf)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,49 @@
+import type { FlipClient } from './flip';
+import { isNotFound } from './errors';
+
+/**
+ * Resolve the approver for a given Flip user.
+ *
+ * Looks up the user's "manger_id" attribute in Flip. If not found,
+ * falls back to a hardcoded admin user. The approver MUST be different
+ * from the absentee to ensure push notifications are triggered.
+ */
+export async function resolveApprover(
+  flip: FlipClient,
+  flipUserId: string,
+  managerCache: Map<string, string>
+): Promise<string> {
+  // Check cache first
+  if (managerCache.has(flipUserId)) {
+    return managerCache.get(flipUserId)!;
+  }
+
+  try {
+    const user = await flip.getUser(flipUserId);
+    // Flip returns attributes as an array of {name, value} objects
+    const attrs = user.attributes as Array<{ name: string; value: string }> | undefined;
+    if (attrs && Array.isArray(attrs)) {
+      const managerAttr = attrs.find(
+        (a) => a.name === 'manger_id' || a.name === 'manager_id'
+      );
+      if (managerAttr?.value) {
+        console.log(
+          `[Approver] Resolved manager for ${flipUserId}: ${managerAttr.value}`
+        );
+        managerCache.set(flipUserId, managerAttr.value);
+        return managerAttr.value;
+      }
+    }
+  } catch (err) {
+    // Only an unknown user falls back; anything else fails this employee's check
+    if (!isNotFound(err)) throw err;
+    console.warn(`[Approver] Flip user ${flipUserId} not found when looking up manager`);
+  }
+
+  // Fallback: use the absentee themselves (less ideal but won't break)
+  console.warn(
+    `[Approver] No manager found for ${flipUserId}, falling back to self-approval`
+  );
+  managerCache.set(flipUserId, flipUserId);
+  return flipUserId;
+}
@@ -0,0 +1,263 @@
+import type { Clients } from './clients';
+import { BreatheSnapshot } from './breathe-snapshot';
+import { mapConcurrent } from './concurrency';
+import { buildAnnualLeaveBalance } from './balance';
+import {
+  diffBalances,
+  FlipBalanceEntry,
+  summarizeDiff,
+  SyncDiff,
+  SyncDiffSummary,
+} from './sync-diff';
+import { EmployeeRunOutcome, employeeRunErrors, SyncRunOutcome } from './sync-runs';
+import type { FlipSyncBalance } from './types';
+
+export interface BalanceSyncResult {
+  status: 'ok';
+  synced: number;
+  errors: number;
+  total_users: number;
+  policy_used: {
+    id: string;
+    external_id: string | null | undefined;
+    name: string;
+    time_unit: string;
+  };
+  balances_sent: Array<{
+    user: string;
+    policy: FlipSyncBalance['policy'];
+    total: number;
+    taken: number;
+    available: number;
+    time_unit: string;
+  }>;
+  flip_response: unknown[];
+  employees: EmployeeRunOutcome[];
+}
+
+export interface BalanceSyncDryRun {
+  status: 'ok';
+  dry_run: true;
+  summary: SyncDiffSummary;
+  diff: SyncDiff<FlipSyncBalance, FlipBalanceEntry>;
+  errors: number;
+  total_users: number;
+  employees: EmployeeRunOutcome[];
+}
+
+/**
+ * Balance sync job (POST /api/sync/balances, step 2 of /api/sync/all)
+ *
+ * For each mapped user:
+ * 1. Gets their holiday allowance from BreatheHR (via allowances list)
+ * 2. Gets their taken absences from BreatheHR
+ * 3. Calculates available balance (see lib/balance.ts)
+ * 4. Pushes the balance to Flip using the policy's Flip UUID
+ *
+ * Employees and absences come from options.snapshot, or a snapshot loaded
+ * here (lib/breathe-snapshot.ts). Up to options.concurrency employees
+ * (default 1) are processed at once. Aborting options.signal (e.g. the
+ * orchestrator's job timeout) throws before the next employee or batch,
+ * so nothing more is pushed.
+ *
+ * Needs the "Annual Leave" policy in Flip (the policy sync creates it) and
+ * throws without it. An employee that fails is counted in `errors` and
+ * skipped. With dryRun, returns the diff against Flip's current balances
+ * without pushing anything.
+ */
+export async function runBalanceSync(
+  clients: Clients,
+  options: {
+    dryRun?: boolean;
+    snapshot?: BreatheSnapshot;
+    concurrency?: number;
+    signal?: AbortSignal;
+  } = {}
+): Promise<BalanceSyncResult | BalanceSyncDryRun> {
+  const { breathe, flip, userMapping } = clients;
+  const { signal } = options;
+  const snapshot = options.snapshot || new BreatheSnapshot(breathe);
+
+  // Get all user mappings
+  const mappings = await userMapping.getAllMappings();
+  console.log(`[BalanceSync] Processing ${mappings.length} mapped users`);
+
+  // Get the Flip "Annual Leave" policy to get its UUID
+  const policiesResult = await flip.getAbsencePolicies('annual_leave');
+  const annualLeavePolicy = policiesResult.items?.[0];
+
+  if (!annualLeavePolicy) {
+    throw new Error('Annual Leave policy not found in Flip. Run policy sync first.');
+  }
+
+  console.log(
+    `[BalanceSync] Annual Leave policy: id=${annualLeavePolicy.id}, ` +
+    `external_id=${annualLeavePolicy.external_id}, ` +
+    `time_unit=${annualLeavePolicy.time_unit}`
+  );
+
+  // Fetch ALL holiday allowances from BreatheHR upfront
+  // The employee record only has { name, id } — the amount is in this list
+  const allowancesResult = await breathe.listHolidayAllowances();
+  const allowanceMap = new Map<number, { amount: number; units: string }>();
+  for (const ha of allowancesResult.holiday_allowances || []) {
+    allowanceMap.set(ha.id, {
+      amount: parseFloat(String(ha.amount)) || 0,
+      units: ha.units || 'days',
+    });
+  }
+
+  console.log(`[BalanceSync] Loaded ${allowanceMap.size} holiday allowances from BreatheHR`);
+  console.log(`[BalanceSync] Allowances: ${JSON.stringify(Object.fromEntries(allowanceMap))}`);
+
+  // Employees are processed concurrently; results keep the mapping order
+  const results = await mapConcurrent(mappings, options.concurrency ?? 1, async (mapping) => {
+    signal?.throwIfAborted();
+    const outcome: EmployeeRunOutcome = {
+      flip_user_id: mapping.flipUserId,
+      breathe_employee_id: mapping.breatheEmployeeId,
+      breathe_ref: mapping.breatheRef,
+      status: 'failed',
+    };
+
+    try {
+      // Get employee details from BreatheHR
+      const employee = await snapshot.findEmployee(mapping.breatheEmployeeId);
+
+      if (!employee) {
+        console.warn(
+          `[BalanceSync] Employee ${mapping.breatheEmployeeId} not found in BreatheHR`
+        );
+        outcome.error = 'Employee not found in BreatheHR';
+        return { outcome };
+      }
+
+      // Look up the allowance amount from the allowances list
+      const empAllowanceId = employee.holiday_allowance?.id;
+      const allowanceDetails = empAllowanceId
+        ? allowanceMap.get(empAllowanceId)
+        : undefined;
+
+      console.log(
+        `[BalanceSync] Employee ${employee.first_name} ${employee.last_name}: ` +
+        `allowanceId=${empAllowanceId}, totalAllowance=${allowanceDetails?.amount || 0}, ` +
+        `units=${allowanceDetails?.units}`
+      );
+
+      // Get absences to calculate taken days
+      const absences = await snapshot.getAllEmployeeAbsences(mapping.breatheEmployeeId);
+
+      console.log(`[BalanceSync] Found ${absences.length} absences for employee ${mapping.breatheEmployeeId}`);
+
+      const balance = buildAnnualLeaveBalance({
+        flipUserId: mapping.flipUserId,
+        breatheEmployeeId: mapping.breatheEmployeeId,
+        policy: annualLeavePolicy,
+        allowance: allowanceDetails,
+        absences,
+      });
+
+      outcome.status = 'ok';
+      outcome.counts = {
+        total: balance.balance.total,
+        taken: balance.balance.taken,
+        available: balance.balance.available,
+      };
+
+      console.log(
+        `[BalanceSync] ${employee.first_name} ${employee.last_name}: ` +
+          `total=${balance.balance.total}, taken=${balance.balance.taken}, ` +
+          `available=${balance.balance.available} ${balance.balance.time_unit}`
+      );
+      return { outcome, balance };
+    } catch (error) {
+      console.error(
+        `[BalanceSync] Error processing employee ${mapping.breatheEmployeeId}:`,
+        error
+      );
+      outcome.error = error instanceof Error ? error.message : String(error);
+      return { outcome };
+    }
+  });
+
+  const employees = results.map((r) => r.outcome);
+  const balances = results.flatMap((r) => (r.balance ? [r.balance] : []));
+  const successCount = balances.length;
+  const errorCount = employees.length - successCount;
+
+  if (options.dryRun) {
+    const current = await flip.getBalances({ policyId: annualLeavePolicy.id });
+    const diff = diffBalances(balances, current.items || []);
+    const summary = summarizeDiff(diff);
+    console.log(`[BalanceSync] Dry run: ${JSON.stringify(summary)}`);
+
+    return {
+      status: 'ok',
+      dry_run: true,
+      summary,
+      diff,
+      errors: errorCount,
+      total_users: mappings.length,
+      employees,
+    };
+  }
+
+  // Push all balances to Flip in batches
+  console.log(`[BalanceSync] Sending ${balances.length} balances to Flip...`);
+  console.log(`[BalanceSync] Payload: ${JSON.stringify({ items: balances }, null, 2)}`);
+
+  const batchSize = 100;
+  const syncResults: unknown[] = [];
+  for (let i = 0; i < balances.length; i += batchSize) {
+    signal?.throwIfAborted();
+    const batch = balances.slice(i, i + batchSize);
+    const result = await flip.syncBalances(batch);
+    syncResults.push(result);
+    console.log(
+      `[BalanceSync] Pushed batch ${Math.floor(i / batchSize) + 1} ` +
+      `(${batch.length} balances), response: ${JSON.stringify(result)}`
+    );
+  }
+
+  console.log(
+    `[BalanceSync] Balance sync complete. Success: ${successCount}, Errors: ${errorCount}`
+  );
+
+  return {
+    status: 'ok',
+    synced: successCount,
+    errors: errorCount,
+    total_users: mappings.length,
+    policy_used: {
+      id: annualLeavePolicy.id,
+      external_id: annualLeavePolicy.external_id,
+      name: annualLeavePolicy.name,
+      time_unit: annualLeavePolicy.time_unit,
+    },
+    balances_sent: balances.map(b => ({
+      user: b.user_id,
+      policy: b.policy,
+      total: b.balance.total,
+      taken: b.balance.taken,
+      available: b.balance.available,
+      time_unit: b.balance.time_unit,
+    })),
+    flip_response: syncResults,
+    employees,
+  };
+}
+
+/**
+ * Sync run history record of a balance sync (lib/sync-runs.ts)
+ */
+export function balanceRunOutcome(result: BalanceSyncResult | BalanceSyncDryRun): SyncRunOutcome {
+  const failed = result.employees.filter((e) => e.status === 'failed');
+  return {
+    status: failed.length === 0 ? 'ok' : failed.length < result.employees.length ? 'partial' : 'failed',
+    counts: 'dry_run' in result
+      ? { ...result.summary, errors: result.errors }
+      : { synced: result.synced, errors: result.errors },
+    errors: employeeRunErrors(result.employees),
+    employees: result.employees,
+  };
+}
@@ -0,0 +1,54 @@
+import type { BreatheAbsence, FlipAbsencePolicy, FlipSyncBalance } from './types';
+
+/**
+ * Annual leave balance calculation
+ *
+ * BreatheHR has no balance endpoint, so the balance is derived:
+ *   taken     = sum of `deducted` over non-cancelled absences
+ *   available = allowance - taken (never below zero)
+ *
+ * BreatheHR "adjustments" are not available through the API and are
+ * not reflected.
+ */
+
+/**
+ * Sum of deducted days (or hours) over non-cancelled absences.
+ * BreatheHR returns `deducted` as a string like "2.0".
+ */
+export function sumDeductedDays(absences: BreatheAbsence[]): number {
+  return absences
+    .filter((a) => a.cancelled !== true && a.cancelled !== 'true')
+    .reduce((sum, a) => sum + (parseFloat(String(a.deducted || '0')) || 0), 0);
+}
+
+/**
+ * Build the Flip balance item for one employee's annual leave
+ */
+export function buildAnnualLeaveBalance(params: {
+  flipUserId: string;
+  breatheEmployeeId: number;
+  policy: Pick<FlipAbsencePolicy, 'id' | 'external_id'>;
+  allowance: { amount: number; units: string } | undefined;
+  absences: BreatheAbsence[];
+}): FlipSyncBalance {
+  const total = params.allowance?.amount || 0;
+  const taken = sumDeductedDays(params.absences);
+
+  // Use BOTH policy id (UUID) and external_id for reliable matching
+  // Also include external_id on the balance itself for linking
+  return {
+    user_id: params.flipUserId,
+    policy: {
+      id: params.policy.id,
+      external_id: params.policy.external_id || 'annual_leave',
+    },
+    balance: {
+      external_id: `breathehr_${params.breatheEmployeeId}_annual_leave`,
+      total,
+      available: Math.max(0, total - taken),
+      taken,
+      unlimited: false,
+      time_unit: params.allowance?.units === 'hours' ? 'HOURS' : 'DAYS',
+    },
+  };
+}
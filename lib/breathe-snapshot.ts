@@ -0,0 +1,134 @@
+import type { BreatheHRClient } from './breathehr';
+import type { BreatheAbsence, BreatheEmployee, BreatheLeaveRequest } from './types';
+
+/**
+ * Where a job reads an employee's leave from: BreatheHRClient fetches it
+ * per employee (fine for one-off lookups), BreatheSnapshot from the
+ * tenant-wide listings
+ */
+export type EmployeeLeaveSource = Pick<
+  BreatheHRClient,
+  'getAllEmployeeAbsences' | 'getAllEmployeeLeaveRequests'
+>;
+
+export interface BreatheSnapshotOptions {
+  /** Only leave ending on or after this date (YYYY-MM-DD) */
+  from?: string;
+  /** Only leave starting on or before this date (YYYY-MM-DD) */
+  to?: string;
+}
+
+/**
+ * BreatheHR Snapshot
+ *
+ * Loads employees, absences and leave requests through the tenant-wide
+ * /employees, /absences and /leave_requests listings and groups them by
+ * employee in memory, so a job looping over every mapping costs one call
+ * per page instead of several per employee. Each listing is fetched the
+ * first time it is needed and then reused — pass one snapshot to every
+ * job of a run to share it.
+ *
+ * A listing that fails to load fails every lookup against it: there is no
+ * per-employee data to fall back on, and jobs must not mistake a failed
+ * load for an employee with no leave. The same goes for a listed record
+ * that names no employee — the load fails rather than drop it.
+ *
+ * With `from`/`to` only leave overlapping that range is loaded. A sync
+ * that replaces Flip's data wholesale needs the full history and must not
+ * set them.
+ */
+export class BreatheSnapshot implements EmployeeLeaveSource {
+  private breathe: BreatheHRClient;
+  private filters: Record<string, string>;
+  private employees?: Promise<Map<number, BreatheEmployee>>;
+  private absences?: Promise<Map<number, BreatheAbsence[]>>;
+  private leaveRequests?: Promise<Map<number, BreatheLeaveRequest[]>>;
+
+  constructor(breathe: BreatheHRClient, options?: BreatheSnapshotOptions) {
+    this.breathe = breathe;
+    this.filters = {
+      ...(options?.from && { start_date: options.from }),
+      ...(options?.to && { end_date: options.to }),
+    };
+  }
+
+  /**
+   * The employee as listed by BreatheHR, or undefined when not listed
+   */
+  async findEmployee(employeeId: number): Promise<BreatheEmployee | undefined> {
+    if (!this.employees) {
+      this.employees = this.breathe.getAllEmployees().then((employees) => {
+        console.log(`[BreatheSnapshot] Loaded ${employees.length} employees`);
+        return new Map(employees.map((e) => [e.id, e]));
+      });
+    }
+    return (await this.employees).get(employeeId);
+  }
+
+  async getAllEmployeeAbsences(employeeId: number): Promise<BreatheAbsence[]> {
+    if (!this.absences) {
+      this.absences = this.breathe.getAllAbsences(this.filters).then((absences) => {
+        const byEmployee = groupByEmployee(absences, absenceEmployeeId);
+        console.log(
+          `[BreatheSnapshot] Loaded ${absences.length} absences for ${byEmployee.size} employees`
+        );
+        return byEmployee;
+      });
+    }
+    return (await this.absences).get(employeeId) || [];
+  }
+
+  async getAllEmployeeLeaveRequests(employeeId: number): Promise<BreatheLeaveRequest[]> {
+    if (!this.leaveRequests) {
+      this.leaveRequests = this.breathe.getAllLeaveRequests(this.filters).then((requests) => {
+        const byEmployee = groupByEmployee(requests, leaveRequestEmployeeId);
+        console.log(
+          `[BreatheSnapshot] Loaded ${requests.length} leave requests for ${byEmployee.size} employees`
+        );
+        return byEmployee;
+      });
+    }
+    return (await this.leaveRequests).get(employeeId) || [];
+  }
+}
+
+/**
+ * The date `days` days before today (YYYY-MM-DD), e.g. as options.from
+ */
+export function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The employee a listed absence belongs to. Throws when the record names
+ * none: it can't be attributed, and dropping it would read as no leave.
+ */
+export function absenceEmployeeId(absence: BreatheAbsence): number {
+  return requireEmployeeId('absence', absence.id, absence.employee?.id);
+}
+
+/**
+ * The employee a listed leave request belongs to — `employee_id`, or the
+ * nested `employee` some listings have instead. Throws when it names none.
+ */
+export function leaveRequestEmployeeId(lr: BreatheLeaveRequest): number {
+  return requireEmployeeId('leave request', lr.id, lr.employee_id ?? lr.employee?.id);
+}
+
+function requireEmployeeId(kind: string, id: number, employeeId: number | undefined): number {
+  if (employeeId === undefined || employeeId === null) {
+    throw new Error(`BreatheHR ${kind} ${id} is listed without an employee`);
+  }
+  return employeeId;
+}
+
+function groupByEmployee<T>(items: T[], employeeIdOf: (item: T) => number): Map<number, T[]> {
+  const byEmployee = new Map<number, T[]>();
+  for (const item of items) {
+    const employeeId = employeeIdOf(item);
+    const list = byEmployee.get(employeeId) || [];
+    list.push(item);
+    byEmployee.set(employeeId, list);
+  }
+  return byEmployee;
+}
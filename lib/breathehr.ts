@@ -1,4 +1,7 @@
-import { getConfig } from './config';
+import { BreatheApiError, isClientError, parseErrorBody } from './errors';
+import { RateLimiter } from './rate-limiter';
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, RetryPolicy } from './retry';
+import { fetchTransport, HttpTransport } from './transport';
 import {
   BreatheEmployee,
   BreatheLeaveRequest,
@@ -7,58 +10,113 @@ import {
   BreatheHolidayAllowance,
 } from './types';
 
+export interface BreatheHRClientOptions {
+  apiKey: string;
+  baseUrl: string;
+  /** Defaults to the global fetch */
+  transport?: HttpTransport;
+  /** Defaults to DEFAULT_RETRY_POLICY */
+  retryPolicy?: RetryPolicy;
+  /** Client-side throttling; omit to send requests unthrottled */
+  rateLimit?: { requests: number; intervalMs: number };
+}
+
 /**
  * BreatheHR API Client
  *
  * Base URL: https://api.breathehr.com/v1
  * Auth: X-API-KEY header
  * Rate limit: 60 requests per 60 seconds
+ *
+ * Requests are throttled client-side by a sliding window (see
+ * lib/rate-limiter.ts). The window is shared by every client using the
+ * same API key in this process, so concurrent calls queue instead of
+ * tripping BreatheHR's 429s.
+ *
+ * Transient failures are retried per lib/retry.ts; every attempt takes
+ * its own rate-limit token.
+ *
+ * Handlers get a configured instance from createClients() in
+ * lib/clients.ts rather than constructing one themselves.
  */
 export class BreatheHRClient {
   private apiKey: string;
   private baseUrl: string;
-
-  constructor() {
-    const config = getConfig();
-    this.apiKey = config.breathehr.apiKey;
-    this.baseUrl = config.breathehr.baseUrl;
+  private transport: HttpTransport;
+  private limiter: RateLimiter | null;
+  private retryPolicy: RetryPolicy;
+
+  constructor(options: BreatheHRClientOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.transport = options.transport || fetchTransport;
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+    this.limiter = options.rateLimit
+      ? sharedLimiter(this.apiKey, {
+          capacity: options.rateLimit.requests,
+          intervalMs: options.rateLimit.intervalMs,
+        })
+      : null;
   }
 
   private async request<T>(
     method: string,
     path: string,
     body?: Record<string, unknown>,
-    queryParams?: Record<string, string>
+    queryParams?: Record<string, string>,
+    requestOptions?: { retry?: boolean }
   ): Promise<T> {
-    let url = `${this.baseUrl}${path}`;
+    let endpoint = path;
 
     if (queryParams) {
       const params = new URLSearchParams(queryParams);
-      url += `?${params.toString()}`;
+      endpoint += `?${params.toString()}`;
     }
 
+    const url = `${this.baseUrl}${endpoint}`;
+
     const headers: Record<string, string> = {
       'X-API-KEY': this.apiKey,
       'Accept': 'application/json',
     };
 
-    const options: Record<string, unknown> = { method, headers };
+    const options: RequestInit = { method, headers };
 
     if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
       headers['Content-Type'] = 'application/json';
       options.body = JSON.stringify(body);
     }
 
-    console.log(`[BreatheHR] ${method} ${url}`);
-
-    const response = await fetch(url, options);
+    const response = await fetchWithRetry(
+      async () => {
+        if (this.limiter) {
+          if (this.limiter.pending > 0) {
+            console.log(`[BreatheHR] Throttled — ${this.limiter.pending} requests queued`);
+          }
+          await this.limiter.acquire();
+        }
+
+        console.log(`[BreatheHR] ${method} ${url}`);
+        return this.transport(url, options);
+      },
+      {
+        method,
+        retry: requestOptions?.retry,
+        policy: this.retryPolicy,
+        label: '[BreatheHR]',
+      }
+    );
 
     if (!response.ok) {
       const errorBody = await response.text();
       console.error(`[BreatheHR] Error ${response.status}: ${errorBody}`);
-      throw new Error(
-        `BreatheHR API error: ${response.status} ${response.statusText} - ${errorBody}`
-      );
+      throw new BreatheApiError({
+        status: response.status,
+        statusText: response.statusText,
+        method,
+        endpoint,
+        body: parseErrorBody(errorBody),
+      });
     }
 
     // Handle 204 No Content
@@ -157,7 +215,11 @@ export class BreatheHRClient {
       },
     };
 
-    return this.request('POST', `/employees/${employeeId}/leave_requests`, body);
+    // Never retried on failure: a timed-out create may still have succeeded,
+    // and resending would book the leave twice
+    return this.request('POST', `/employees/${employeeId}/leave_requests`, body, undefined, {
+      retry: false,
+    });
   }
 
   /**
@@ -236,6 +298,27 @@ export class BreatheHRClient {
     return allAbsences;
   }
 
+  /**
+   * Get all absences across employees (auto-paginate). Filters e.g.
+   * { updated_since: <ISO timestamp> } for the ones changed since then, or
+   * { start_date, end_date } for the ones overlapping a date range
+   */
+  async getAllAbsences(filters?: Record<string, string>): Promise<BreatheAbsence[]> {
+    const allAbsences: BreatheAbsence[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.listAbsences(page, 100, filters);
+      const absences = result.absences || [];
+      allAbsences.push(...absences);
+      hasMore = absences.length === 100;
+      page++;
+    }
+
+    return allAbsences;
+  }
+
   /**
    * Cancel an absence by absence ID
    */
@@ -245,7 +328,9 @@ export class BreatheHRClient {
 
   /**
    * Cancel/delete a leave request
-   * Tries DELETE first (for pending requests), falls back to cancel endpoint
+   * Tries DELETE first (for pending requests), falls back to the cancel
+   * endpoint when BreatheHR refuses the DELETE (4xx). Server and network
+   * errors are rethrown as-is.
    */
   async cancelLeaveRequest(leaveRequestId: number): Promise<void> {
     try {
@@ -253,6 +338,7 @@ export class BreatheHRClient {
       await this.request('DELETE', `/leave_requests/${leaveRequestId}`);
       console.log(`[BreatheHR] Deleted leave request ${leaveRequestId}`);
     } catch (deleteError) {
+      if (!isClientError(deleteError)) throw deleteError;
       console.log(
         `[BreatheHR] DELETE leave_request ${leaveRequestId} failed: ` +
           `${deleteError instanceof Error ? deleteError.message : deleteError}. ` +
@@ -305,6 +391,26 @@ export class BreatheHRClient {
     return allRequests;
   }
 
+  /**
+   * Get all leave requests across employees (auto-paginate). Filters as
+   * for getAllAbsences
+   */
+  async getAllLeaveRequests(filters?: Record<string, string>): Promise<BreatheLeaveRequest[]> {
+    const allRequests: BreatheLeaveRequest[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.listLeaveRequests(page, 100, filters);
+      const requests = result.leave_requests || [];
+      allRequests.push(...requests);
+      hasMore = requests.length === 100;
+      page++;
+    }
+
+    return allRequests;
+  }
+
   // ============================================================
   // Holiday Allowances
   // ============================================================
@@ -343,3 +449,18 @@ export class BreatheHRClient {
     }
   }
 }
+
+// One bucket per API key — the limit applies to the key, not the client instance
+const limiters = new Map<string, RateLimiter>();
+
+function sharedLimiter(
+  apiKey: string,
+  options: { capacity: number; intervalMs: number }
+): RateLimiter {
+  let limiter = limiters.get(apiKey);
+  if (!limiter) {
+    limiter = new RateLimiter(options);
+    limiters.set(apiKey, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,64 @@
+import { BreatheHRClient } from './breathehr';
+import { Config, getConfig } from './config';
+import { FlipClient } from './flip';
+import { HttpTransport } from './transport';
+import { UserMappingService } from './user-mapping';
+
+/**
+ * Client factory
+ *
+ * The single place where the BreatheHR and Flip clients are built from
+ * config. Every handler goes through createClients(), so swapping the
+ * transport (see setTransport) points the whole driver somewhere else —
+ * e.g. at local fakes — without touching env vars or handlers.
+ */
+export interface Clients {
+  breathe: BreatheHRClient;
+  flip: FlipClient;
+  userMapping: UserMappingService;
+}
+
+export interface CreateClientsOptions {
+  /** Defaults to getConfig() */
+  config?: Config;
+  /** Defaults to the transport set with setTransport(), else global fetch */
+  transport?: HttpTransport;
+}
+
+let defaultTransport: HttpTransport | undefined;
+
+export function createClients(options?: CreateClientsOptions): Clients {
+  const config = options?.config || getConfig();
+  const transport = options?.transport || defaultTransport;
+
+  const breathe = new BreatheHRClient({
+    apiKey: config.breathehr.apiKey,
+    baseUrl: config.breathehr.baseUrl,
+    rateLimit: config.breathehr.rateLimit,
+    retryPolicy: config.retry,
+    transport,
+  });
+
+  const flip = new FlipClient({
+    clientId: config.flip.clientId,
+    clientSecret: config.flip.clientSecret,
+    baseUrl: config.flip.baseUrl,
+    organization: config.flip.organization,
+    retryPolicy: config.retry,
+    transport,
+  });
+
+  const userMapping = new UserMappingService(breathe, flip, {
+    concurrency: config.sync.concurrency,
+  });
+
+  return { breathe, flip, userMapping };
+}
+
+/**
+ * Replace the transport used by clients created from now on
+ * (pass undefined to go back to global fetch)
+ */
+export function setTransport(transport: HttpTransport | undefined): void {
+  defaultTransport = transport;
+}
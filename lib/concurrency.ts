@@ -0,0 +1,45 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs `fn` over `items` with at most `limit` calls in flight, starting
+ * them in input order. Results come back in input order, however the
+ * calls interleave — so per-employee results, counts and error lists
+ * built from them read the same as with a sequential loop.
+ *
+ * When a call throws, no further items are started; once the calls in
+ * flight have settled, the promise rejects with the error of the earliest
+ * failed item (the one a sequential loop would have thrown). Callers that
+ * want to keep going past a failure catch inside `fn`.
+ *
+ * Calls to BreatheHR still pass its shared rate limiter (lib/rate-limiter.ts),
+ * which queues them in FIFO order, so a higher limit never exceeds the
+ * rate limit — it only stops requests from waiting on each other.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const errors = new Map<number, unknown>();
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && errors.size === 0) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        errors.set(index, error);
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (errors.size > 0) {
+    throw errors.get(Math.min(...errors.keys()));
+  }
+  return results;
+}
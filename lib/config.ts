@@ -1,3 +1,15 @@
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry';
+
+/** How the absence sync replaces Flip's data (lib/absence-sync.ts) */
+export type AbsenceSyncMode = 'tenant' | 'per_employee';
+
+/**
+ * Parse an absence sync mode, falling back to tenant-wide
+ */
+export function parseAbsenceSyncMode(value: unknown): AbsenceSyncMode {
+  return value === 'per_employee' ? 'per_employee' : 'tenant';
+}
+
 /**
  * Environment configuration with validation
  */
@@ -5,6 +17,10 @@ export interface Config {
   breathehr: {
     apiKey: string;
     baseUrl: string;
+    rateLimit: {
+      requests: number;
+      intervalMs: number;
+    };
   };
   flip: {
     clientId: string;
@@ -12,9 +28,69 @@ export interface Config {
     baseUrl: string;
     organization: string;
     webhookSecret?: string;
+    webhookToleranceSeconds: number;
   };
   sync: {
     batchSize: number;
+    /** Absence sync is cancelled if its item count drops more than this below the last run */
+    maxAbsenceDropPercent: number;
+    /** "tenant" (one full-replacement sync) or "per_employee" (one scoped sync per user) */
+    absenceMode: AbsenceSyncMode;
+    /** How far before the watermark a delta absence sync looks for changes */
+    absenceDeltaOverlapMs: number;
+    /** Approval checks only load leave that ended at most this many days ago */
+    approvalLookbackDays: number;
+    /** Employees processed at once by the sync jobs (lib/concurrency.ts) */
+    concurrency: number;
+    /** Per-step timeouts of /api/sync/all */
+    jobTimeoutsMs: {
+      policies: number;
+      balances: number;
+      absences: number;
+    };
+  };
+  retry: RetryPolicy;
+  admin: {
+    apiKey?: string;
+  };
+  deadLetter: {
+    maxAttempts: number;
+  };
+  storage: StorageConfig;
+  webhookLog: WebhookLogConfig;
+}
+
+export interface StorageConfig {
+  backend: 'file' | 'memory';
+  dir: string;
+}
+
+/**
+ * Storage settings only — usable without the API credentials being set
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'file';
+  // Vercel functions can only write to /tmp
+  const defaultDir = process.env.VERCEL ? '/tmp/breathehr-flipdriver' : '.data';
+
+  return {
+    backend,
+    dir: process.env.STORAGE_DIR || defaultDir,
+  };
+}
+
+export interface WebhookLogConfig {
+  maxEntries: number;
+  retentionDays: number;
+}
+
+/**
+ * Webhook log retention — usable without the API credentials being set
+ */
+export function getWebhookLogConfig(): WebhookLogConfig {
+  return {
+    maxEntries: parseInt(process.env.WEBHOOK_LOG_MAX_ENTRIES || '500', 10),
+    retentionDays: parseInt(process.env.WEBHOOK_LOG_RETENTION_DAYS || '30', 10),
   };
 }
 
@@ -31,10 +107,16 @@ export function getConfig(): Config {
   if (!flipBaseUrl) throw new Error('FLIP_BASE_URL is required');
   if (!flipOrg) throw new Error('FLIP_ORG is required');
 
+  const breathehrRateLimit = {
+    requests: parseInt(process.env.BREATHEHR_RATE_LIMIT_REQUESTS || '60', 10),
+    intervalMs: parseInt(process.env.BREATHEHR_RATE_LIMIT_INTERVAL_MS || '60000', 10),
+  };
+
   return {
     breathehr: {
       apiKey: breathehrApiKey,
       baseUrl: process.env.BREATHEHR_BASE_URL || 'https://api.breathehr.com/v1',
+      rateLimit: breathehrRateLimit,
     },
     flip: {
       clientId: flipClientId,
@@ -42,9 +124,50 @@ export function getConfig(): Config {
       baseUrl: flipBaseUrl.replace(/\/$/, ''),
       organization: flipOrg,
       webhookSecret: process.env.FLIP_WEBHOOK_SECRET || undefined,
+      webhookToleranceSeconds: parseInt(
+        process.env.FLIP_WEBHOOK_TOLERANCE_SECONDS || '300',
+        10
+      ),
     },
     sync: {
       batchSize: parseInt(process.env.SYNC_BATCH_SIZE || '100', 10),
+      maxAbsenceDropPercent: parseFloat(process.env.ABSENCE_SYNC_MAX_DROP_PERCENT || '25'),
+      absenceMode: parseAbsenceSyncMode(process.env.ABSENCE_SYNC_MODE),
+      absenceDeltaOverlapMs: parseInt(process.env.ABSENCE_DELTA_OVERLAP_MS || '300000', 10),
+      approvalLookbackDays: parseInt(process.env.APPROVAL_LOOKBACK_DAYS || '365', 10),
+      // More employees in flight than BreatheHR allows per window would only
+      // queue on its rate limiter
+      concurrency: Math.max(
+        1,
+        Math.min(
+          parseInt(process.env.SYNC_CONCURRENCY || '5', 10) || 1,
+          breathehrRateLimit.requests
+        )
+      ),
+      jobTimeoutsMs: {
+        policies: parseInt(process.env.SYNC_POLICIES_TIMEOUT_MS || '60000', 10),
+        balances: parseInt(process.env.SYNC_BALANCES_TIMEOUT_MS || '120000', 10),
+        absences: parseInt(process.env.SYNC_ABSENCES_TIMEOUT_MS || '240000', 10),
+      },
+    },
+    retry: {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: parseInt(
+        process.env.HTTP_RETRY_MAX_ATTEMPTS || String(DEFAULT_RETRY_POLICY.maxAttempts),
+        10
+      ),
+      baseDelayMs: parseInt(
+        process.env.HTTP_RETRY_BASE_DELAY_MS || String(DEFAULT_RETRY_POLICY.baseDelayMs),
+        10
+      ),
+    },
+    admin: {
+      apiKey: process.env.ADMIN_API_KEY || undefined,
+    },
+    deadLetter: {
+      maxAttempts: parseInt(process.env.DEAD_LETTER_MAX_ATTEMPTS || '6', 10),
     },
+    storage: getStorageConfig(),
+    webhookLog: getWebhookLogConfig(),
   };
 }
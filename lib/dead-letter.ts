@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import { getStorage, StorageBackend } from './storage';
+import type { AbsenceWebhookProcessor } from './absence-webhook';
+import type { FlipClient } from './flip';
+import { isClientError } from './errors';
+
+const COLLECTION = 'dead_letters';
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 60 * 1000; // 1 min, 2 min, 4 min, ...
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export type DeadLetterStatus = 'pending' | 'exhausted' | 'resolved' | 'discarded';
+
+export interface DeadLetter {
+  id: string;
+  event_type: string;
+  absence_request_id: string | null;
+  flip_user_id: string | null;
+  data: Record<string, unknown>;
+  batch_id?: string;
+  status: DeadLetterStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string;
+  first_failed_at: string;
+  last_attempt_at: string;
+  next_attempt_at: string | null;
+  resolved_at?: string;
+}
+
+/**
+ * Dead-Letter Store
+ *
+ * Webhook items that fail (BreatheHR 5xx, rate limits, a missing user
+ * mapping, ...) are parked here instead of being marked ERROR in Flip
+ * straight away. The dead-letter job retries them with exponential
+ * backoff; only when all attempts are used up is the Flip request set
+ * to ERROR.
+ *
+ * Entries are keyed on event type + absence request id, so repeated
+ * failures of the same item update one entry rather than piling up.
+ */
+export class DeadLetterStore {
+  private storage: StorageBackend;
+  private maxAttempts: number;
+
+  constructor(storage?: StorageBackend, options?: { maxAttempts?: number }) {
+    this.storage = storage || getStorage();
+    this.maxAttempts = options?.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Park a failed item. The first failure counts as attempt 1.
+   */
+  async add(item: {
+    eventType: string;
+    data: Record<string, unknown>;
+    error: string;
+    batchId?: string;
+  }): Promise<DeadLetter> {
+    const absenceRequestId = (item.data.id as string) || null;
+    const id = absenceRequestId ? `${item.eventType}:${absenceRequestId}` : randomUUID();
+    const now = new Date();
+
+    const stored = await this.storage.update<DeadLetter>(COLLECTION, id, (current) => {
+      // An unresolved entry for the same item already exists — count another attempt
+      if (current && current.status === 'pending') {
+        return this.withFailure(current, item.error, now);
+      }
+      return {
+        id,
+        event_type: item.eventType,
+        absence_request_id: absenceRequestId,
+        flip_user_id: (item.data.absentee as string) || null,
+        data: item.data,
+        batch_id: item.batchId,
+        status: 'pending',
+        attempts: 1,
+        max_attempts: this.maxAttempts,
+        last_error: item.error,
+        first_failed_at: now.toISOString(),
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: new Date(now.getTime() + backoffDelay(1)).toISOString(),
+      };
+    });
+
+    return stored!;
+  }
+
+  async get(id: string): Promise<DeadLetter | null> {
+    return this.storage.get<DeadLetter>(COLLECTION, id);
+  }
+
+  /**
+   * List dead letters, newest failure first
+   */
+  async list(status?: DeadLetterStatus): Promise<DeadLetter[]> {
+    const letters = await this.storage.list<DeadLetter>(COLLECTION);
+    return letters
+      .filter((l) => !status || l.status === status)
+      .sort((a, b) => b.last_attempt_at.localeCompare(a.last_attempt_at));
+  }
+
+  /**
+   * Pending entries whose next attempt is due
+   */
+  async listDue(now: Date = new Date()): Promise<DeadLetter[]> {
+    const letters = await this.list('pending');
+    return letters
+      .filter((l) => l.next_attempt_at && new Date(l.next_attempt_at) <= now)
+      .sort((a, b) => (a.next_attempt_at || '').localeCompare(b.next_attempt_at || ''));
+  }
+
+  /**
+   * Record another failed attempt; marks the entry exhausted when out of
+   * attempts, or straight away when the failure is `permanent` (retrying
+   * would fail the same way)
+   */
+  async recordFailure(
+    id: string,
+    error: string,
+    options?: { permanent?: boolean }
+  ): Promise<DeadLetter | null> {
+    return this.storage.update<DeadLetter>(COLLECTION, id, (current) =>
+      current ? this.withFailure(current, error, new Date(), options?.permanent) : null
+    );
+  }
+
+  async markResolved(id: string): Promise<DeadLetter | null> {
+    return this.setStatus(id, 'resolved');
+  }
+
+  async discard(id: string): Promise<DeadLetter | null> {
+    return this.setStatus(id, 'discarded');
+  }
+
+  /**
+   * Discard the pending entry for an item, e.g. a creation the user has
+   * cancelled since. Null when there is none waiting for a retry.
+   */
+  async discardPending(eventType: string, absenceRequestId: string): Promise<DeadLetter | null> {
+    const id = `${eventType}:${absenceRequestId}`;
+    const current = await this.storage.get<DeadLetter>(COLLECTION, id);
+    if (!current || current.status !== 'pending') return null;
+    return this.setStatus(id, 'discarded');
+  }
+
+  private async setStatus(id: string, status: DeadLetterStatus): Promise<DeadLetter | null> {
+    return this.storage.update<DeadLetter>(COLLECTION, id, (current) =>
+      current
+        ? {
+            ...current,
+            status,
+            next_attempt_at: null,
+            resolved_at: new Date().toISOString(),
+          }
+        : null
+    );
+  }
+
+  private withFailure(
+    current: DeadLetter,
+    error: string,
+    now: Date,
+    permanent = false
+  ): DeadLetter {
+    const attempts = current.attempts + 1;
+    const exhausted = permanent || attempts >= current.max_attempts;
+    return {
+      ...current,
+      attempts,
+      status: exhausted ? 'exhausted' : 'pending',
+      last_error: error,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: exhausted
+        ? null
+        : new Date(now.getTime() + backoffDelay(attempts)).toISOString(),
+    };
+  }
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * Math.pow(2, attempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * Retry a dead letter once.
+ *
+ * On success the entry is resolved. On failure the attempt is recorded,
+ * and if that used up the last attempt the Flip request is set to ERROR.
+ * A request the upstream API rejected outright (4xx) would fail the same
+ * way again, so it is marked exhausted and set to ERROR at once — as the
+ * webhook handler does on first delivery.
+ */
+export async function retryDeadLetter(
+  letter: DeadLetter,
+  store: DeadLetterStore,
+  processor: AbsenceWebhookProcessor,
+  flip: FlipClient
+): Promise<DeadLetter> {
+  console.log(
+    `[DeadLetter] Retrying ${letter.id} (attempt ${letter.attempts + 1}/${letter.max_attempts})`
+  );
+
+  try {
+    await processor.processItem(letter.event_type, letter.data);
+    const resolved = await store.markResolved(letter.id);
+    console.log(`[DeadLetter] ${letter.id} succeeded on retry`);
+    return resolved || letter;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[DeadLetter] Retry of ${letter.id} failed: ${message}`);
+
+    const permanent = isClientError(error);
+    const updated = (await store.recordFailure(letter.id, message, { permanent })) || letter;
+
+    if (updated.status === 'exhausted' && updated.absence_request_id) {
+      console.error(
+        permanent
+          ? `[DeadLetter] ${letter.id} was rejected by the upstream API — ` +
+              `setting Flip request ${updated.absence_request_id} to ERROR`
+          : `[DeadLetter] ${letter.id} exhausted after ${updated.attempts} attempts — ` +
+              `setting Flip request ${updated.absence_request_id} to ERROR`
+      );
+      try {
+        await flip.setAbsenceRequestError({ absence_request_id: updated.absence_request_id });
+      } catch (flipError) {
+        console.error(
+          `[DeadLetter] Failed to set error status in Flip for ${updated.absence_request_id}:`,
+          flipError
+        );
+      }
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Upstream API Errors
+ *
+ * Both clients throw a subclass of `UpstreamApiError` when the API answers
+ * with a non-2xx status. The error carries the status, method, endpoint and
+ * the parsed error body, so callers can tell "not found" apart from a
+ * server failure.
+ *
+ * Network failures (DNS, connection reset, timeouts) are not wrapped: they
+ * surface as whatever `fetch` threw, after the retry policy has given up.
+ * Use `isNotFound()` / `isClientError()` to branch; anything else should
+ * normally be rethrown.
+ */
+export class UpstreamApiError extends Error {
+  readonly service: string;
+  readonly status: number;
+  readonly statusText: string;
+  readonly method: string;
+  /** Request path relative to the API base URL, including any query string */
+  readonly endpoint: string;
+  /** Error body — parsed JSON where possible, otherwise the raw text */
+  readonly body: unknown;
+
+  constructor(
+    service: string,
+    fields: {
+      status: number;
+      statusText: string;
+      method: string;
+      endpoint: string;
+      body: unknown;
+    }
+  ) {
+    const bodyText = typeof fields.body === 'string' ? fields.body : JSON.stringify(fields.body);
+    super(`${service} API error: ${fields.status} ${fields.statusText} - ${bodyText}`);
+    this.name = new.target.name;
+    this.service = service;
+    this.status = fields.status;
+    this.statusText = fields.statusText;
+    this.method = fields.method;
+    this.endpoint = fields.endpoint;
+    this.body = fields.body;
+  }
+}
+
+export class BreatheApiError extends UpstreamApiError {
+  constructor(fields: ConstructorParameters<typeof UpstreamApiError>[1]) {
+    super('BreatheHR', fields);
+  }
+}
+
+export class FlipApiError extends UpstreamApiError {
+  constructor(fields: ConstructorParameters<typeof UpstreamApiError>[1]) {
+    super('Flip', fields);
+  }
+}
+
+/**
+ * Parse an error response body: JSON if it parses, otherwise the raw text
+ */
+export function parseErrorBody(text: string): unknown {
+  if (!text) return '';
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * True if the error is an API 404
+ */
+export function isNotFound(error: unknown): boolean {
+  return error instanceof UpstreamApiError && error.status === 404;
+}
+
+/**
+ * True if the API rejected the request itself (4xx other than 408 / 429),
+ * i.e. sending it again unchanged will not help
+ */
+export function isClientError(error: unknown): boolean {
+  return (
+    error instanceof UpstreamApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
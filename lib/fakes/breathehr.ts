@@ -0,0 +1,262 @@
+import type {
+  BreatheAbsence,
+  BreatheEmployee,
+  BreatheHolidayAllowance,
+  BreatheLeaveRequest,
+  BreatheOtherLeaveReason,
+} from '../types';
+import { errorResponse, FakeApi, FakeRequest, jsonResponse, paginate } from './http';
+
+export const FAKE_BREATHE_BASE_URL = 'https://breathehr.fake/v1';
+export const FAKE_BREATHE_API_KEY = 'fake-breathe-key';
+
+/**
+ * In-memory stand-in for the BreatheHR API
+ *
+ * Implements the endpoints BreatheHRClient uses. Leave requests start
+ * "pending"; approveLeaveRequest() turns one into an absence the way a
+ * manager approving it in BreatheHR would, and denyLeaveRequest() rejects
+ * it. A pending request can be DELETEd; a decided one only cancelled.
+ */
+export class FakeBreatheHR extends FakeApi {
+  employees: BreatheEmployee[] = [];
+  leaveRequests: BreatheLeaveRequest[] = [];
+  absences: BreatheAbsence[] = [];
+  holidayAllowances: BreatheHolidayAllowance[] = [];
+  otherLeaveReasons: BreatheOtherLeaveReason[] = [];
+
+  private nextId = 1000;
+
+  constructor(
+    baseUrl: string = FAKE_BREATHE_BASE_URL,
+    private apiKey: string = FAKE_BREATHE_API_KEY
+  ) {
+    super(baseUrl);
+
+    this.route('GET', '/employees', (req) =>
+      jsonResponse(200, { employees: paginate(this.employees, req.query) })
+    );
+    this.route('GET', '/employees/:id', (req) => {
+      const employee = this.employees.find((e) => e.id === Number(req.params.id));
+      return employee
+        ? jsonResponse(200, { employees: [employee] })
+        : errorResponse(404, 'Employee not found');
+    });
+    this.route('GET', '/employees/:id/leave_requests', (req) =>
+      jsonResponse(200, {
+        leave_requests: paginate(
+          this.leaveRequests.filter((lr) => lr.employee_id === Number(req.params.id)),
+          req.query
+        ),
+      })
+    );
+    this.route('POST', '/employees/:id/leave_requests', (req) => this.createLeaveRequest(req));
+    this.route('GET', '/employees/:id/absences', (req) =>
+      jsonResponse(200, {
+        absences: paginate(
+          this.absences.filter((a) => a.employee.id === Number(req.params.id)),
+          req.query
+        ),
+      })
+    );
+
+    this.route('GET', '/leave_requests', (req) =>
+      jsonResponse(200, {
+        leave_requests: paginate(applyFilters(this.leaveRequests, req.query), req.query),
+      })
+    );
+    this.route('GET', '/leave_requests/:id', (req) => {
+      const lr = this.findLeaveRequest(req.params.id);
+      return lr
+        ? jsonResponse(200, { leave_requests: [lr] })
+        : errorResponse(404, 'Leave request not found');
+    });
+    this.route('DELETE', '/leave_requests/:id', (req) => {
+      const lr = this.findLeaveRequest(req.params.id);
+      if (!lr) return errorResponse(404, 'Leave request not found');
+      if (lr.status !== 'pending') {
+        return errorResponse(422, `Only pending leave requests can be deleted (status: ${lr.status})`);
+      }
+      this.leaveRequests = this.leaveRequests.filter((l) => l !== lr);
+      return new Response(null, { status: 204 });
+    });
+    this.route('POST', '/leave_requests/:id/cancel', (req) => {
+      const lr = this.findLeaveRequest(req.params.id);
+      if (!lr) return errorResponse(404, 'Leave request not found');
+      if (lr.status === 'approved') {
+        return errorResponse(422, 'Leave request already approved — cancel the absence');
+      }
+      lr.status = 'cancelled';
+      lr.updated_at = new Date().toISOString();
+      return jsonResponse(200, { leave_requests: [lr] });
+    });
+
+    this.route('GET', '/absences', (req) =>
+      jsonResponse(200, { absences: paginate(applyFilters(this.absences, req.query), req.query) })
+    );
+    this.route('POST', '/absences/:id/cancel', (req) => {
+      const absence = this.absences.find((a) => a.id === Number(req.params.id));
+      if (!absence) return errorResponse(404, 'Absence not found');
+      absence.cancelled = true;
+      absence.updated_at = new Date().toISOString();
+      return jsonResponse(200, { absences: [absence] });
+    });
+
+    this.route('GET', '/holiday_allowances', () =>
+      jsonResponse(200, { holiday_allowances: this.holidayAllowances })
+    );
+    this.route('GET', '/other_leave_reasons', () =>
+      jsonResponse(200, { other_leave_reasons: this.otherLeaveReasons })
+    );
+  }
+
+  // ============================================================
+  // Seeding and scenario helpers
+  // ============================================================
+
+  /**
+   * Add an employee; `employee_ref` is what the user mapping matches on
+   */
+  addEmployee(fields: Partial<BreatheEmployee> & { employee_ref: string }): BreatheEmployee {
+    const employee: BreatheEmployee = {
+      id: this.nextId++,
+      first_name: 'Test',
+      last_name: `Employee ${fields.employee_ref}`,
+      status: 'Current employee',
+      ...fields,
+    };
+    this.employees.push(employee);
+    return employee;
+  }
+
+  addLeaveRequest(
+    employeeId: number,
+    fields: Partial<BreatheLeaveRequest> & { start_date: string; end_date: string }
+  ): BreatheLeaveRequest {
+    const now = new Date().toISOString();
+    const lr: BreatheLeaveRequest = {
+      id: this.nextId++,
+      employee_id: employeeId,
+      status: 'pending',
+      action: 'request',
+      half_start: false,
+      half_end: false,
+      created_at: now,
+      updated_at: now,
+      ...fields,
+    };
+    this.leaveRequests.push(lr);
+    return lr;
+  }
+
+  addAbsence(
+    employeeId: number,
+    fields: Partial<BreatheAbsence> & { start_date: string; end_date: string }
+  ): BreatheAbsence {
+    const employee = this.employees.find((e) => e.id === employeeId);
+    const now = new Date().toISOString();
+    const absence: BreatheAbsence = {
+      id: this.nextId++,
+      employee: {
+        id: employeeId,
+        first_name: employee?.first_name || 'Test',
+        last_name: employee?.last_name || 'Employee',
+      },
+      type: 'Holiday',
+      half_start: false,
+      half_end: false,
+      cancelled: false,
+      created_at: now,
+      updated_at: now,
+      ...fields,
+    };
+    this.absences.push(absence);
+    return absence;
+  }
+
+  /**
+   * Approve a pending leave request, creating the matching absence
+   */
+  approveLeaveRequest(leaveRequestId: number): BreatheAbsence {
+    const lr = this.findLeaveRequest(leaveRequestId);
+    if (!lr) throw new Error(`Fake BreatheHR: no leave request ${leaveRequestId}`);
+    lr.status = 'approved';
+    lr.updated_at = new Date().toISOString();
+    return this.addAbsence(lr.employee_id!, {
+      start_date: lr.start_date,
+      end_date: lr.end_date,
+      half_start: lr.half_start,
+      half_end: lr.half_end,
+      leave_request_id: lr.id,
+      notes: lr.notes,
+    });
+  }
+
+  /**
+   * Deny a pending leave request, optionally with the manager's reason
+   */
+  denyLeaveRequest(leaveRequestId: number, reason?: string): BreatheLeaveRequest {
+    const lr = this.findLeaveRequest(leaveRequestId);
+    if (!lr) throw new Error(`Fake BreatheHR: no leave request ${leaveRequestId}`);
+    lr.status = 'denied';
+    lr.updated_at = new Date().toISOString();
+    if (reason) lr.rejection_reason = reason;
+    return lr;
+  }
+
+  protected authorize(_method: string, _path: string, headers: Headers): Response | null {
+    return headers.get('x-api-key') === this.apiKey
+      ? null
+      : errorResponse(401, 'Invalid API key');
+  }
+
+  private createLeaveRequest(req: FakeRequest): Response {
+    const employeeId = Number(req.params.id);
+    if (!this.employees.some((e) => e.id === employeeId)) {
+      return errorResponse(404, 'Employee not found');
+    }
+
+    const fields = (req.body as { leave_request?: Record<string, unknown> })?.leave_request;
+    if (!fields?.start_date || !fields?.end_date) {
+      return errorResponse(422, 'start_date and end_date are required');
+    }
+    if (String(fields.end_date) < String(fields.start_date)) {
+      return errorResponse(422, 'end_date must not be before start_date');
+    }
+
+    const lr = this.addLeaveRequest(employeeId, {
+      start_date: String(fields.start_date),
+      end_date: String(fields.end_date),
+      half_start: Boolean(fields.half_start),
+      half_end: Boolean(fields.half_end),
+      ...(fields.notes !== undefined && { notes: String(fields.notes) }),
+      ...(fields.leave_reason_id !== undefined && {
+        leave_reason_id: Number(fields.leave_reason_id),
+      }),
+    });
+    return jsonResponse(201, { leave_requests: [lr] });
+  }
+
+  private findLeaveRequest(id: string | number): BreatheLeaveRequest | undefined {
+    return this.leaveRequests.find((lr) => lr.id === Number(id));
+  }
+}
+
+/**
+ * The listing filters: ?updated_since= keeps records changed at or after
+ * it, ?start_date= / ?end_date= the leave overlapping that range
+ */
+function applyFilters<T extends BreatheAbsence | BreatheLeaveRequest>(
+  items: T[],
+  query: URLSearchParams
+): T[] {
+  const since = query.get('updated_since');
+  const from = query.get('start_date');
+  const to = query.get('end_date');
+  return items.filter(
+    (item) =>
+      (!since || (item.updated_at || '') >= since) &&
+      (!from || item.end_date >= from) &&
+      (!to || item.start_date <= to)
+  );
+}
@@ -0,0 +1,468 @@
+import { randomUUID } from 'crypto';
+import type {
+  AbsenceRequestStatus,
+  FlipAbsencePolicy,
+  FlipAbsencePolicySync,
+  FlipAbsenceRequest,
+  FlipSyncAbsenceRequest,
+  FlipSyncBalance,
+  FlipUser,
+} from '../types';
+import { errorResponse, FakeApi, FakeRequest, jsonResponse, paginate } from './http';
+
+export const FAKE_FLIP_BASE_URL = 'https://flip.fake';
+export const FAKE_FLIP_ORG = 'fake-org';
+export const FAKE_FLIP_CLIENT_ID = 'fake-client';
+export const FAKE_FLIP_CLIENT_SECRET = 'fake-secret';
+
+const INTEGRATION = '/api/hr/v4/integration';
+
+export interface FakeAbsenceRequestSync {
+  id: string;
+  user_id?: string;
+  status: 'STARTED' | 'COMPLETED' | 'CANCELLED';
+  items: FlipSyncAbsenceRequest[];
+  created_at: string;
+}
+
+/**
+ * In-memory stand-in for the Flip API
+ *
+ * Implements the OAuth token endpoint and the user, absence-policy,
+ * balance and absence-request endpoints FlipClient uses. Every approve /
+ * reject call is recorded in `notifications`, since those are the calls
+ * that notify users in the real app.
+ *
+ * requestAbsence() and cancelAbsence() play the part of an employee using
+ * the MiniApp and return the webhook item Flip would deliver.
+ *
+ * A completed absence-request sync is a full replacement, like the real
+ * one: items are upserted by id / external id and every other request in
+ * the sync's scope (one user, or everyone) is removed.
+ */
+export class FakeFlip extends FakeApi {
+  users: FlipUser[] = [];
+  policies: FlipAbsencePolicy[] = [];
+  assignments = new Map<string, Set<string>>();
+  balances: FlipSyncBalance[] = [];
+  absenceRequests: FlipAbsenceRequest[] = [];
+  syncs = new Map<string, FakeAbsenceRequestSync>();
+  notifications: Array<{
+    action: 'APPROVED' | 'REJECTED';
+    absence_request_id: string;
+    approver: string;
+  }> = [];
+
+  private tokens = new Set<string>();
+
+  constructor(
+    baseUrl: string = FAKE_FLIP_BASE_URL,
+    private credentials = {
+      organization: FAKE_FLIP_ORG,
+      clientId: FAKE_FLIP_CLIENT_ID,
+      clientSecret: FAKE_FLIP_CLIENT_SECRET,
+    }
+  ) {
+    super(baseUrl);
+
+    this.route('POST', `/auth/realms/:org/protocol/openid-connect/token`, (req) =>
+      this.issueToken(req)
+    );
+
+    // Users
+    this.route('GET', '/api/admin/users/v4/users', (req) => this.searchUsers(req));
+    this.route('GET', '/api/admin/users/v4/users/:id', (req) => {
+      const user = this.users.find((u) => u.id === req.params.id);
+      return user ? jsonResponse(200, user) : errorResponse(404, 'User not found');
+    });
+
+    // Absence policies
+    this.route('GET', `${INTEGRATION}/absence-policies`, (req) => {
+      const externalId = req.query.get('external_id');
+      return jsonResponse(200, {
+        items: this.policies.filter((p) => !externalId || p.external_id === externalId),
+      });
+    });
+    this.route('POST', `${INTEGRATION}/absence-policies`, (req) =>
+      jsonResponse(200, this.upsertPolicy(req.body as FlipAbsencePolicySync))
+    );
+    this.route('POST', `${INTEGRATION}/absence-policies/:id/assignments`, (req) => {
+      if (!this.policies.some((p) => p.id === req.params.id)) {
+        return errorResponse(404, 'Policy not found');
+      }
+      const assigned = this.assignments.get(req.params.id) || new Set<string>();
+      for (const userId of (req.body as { user_ids?: string[] })?.user_ids || []) {
+        assigned.add(userId);
+      }
+      this.assignments.set(req.params.id, assigned);
+      return new Response(null, { status: 204 });
+    });
+
+    // Balances
+    this.route('GET', `${INTEGRATION}/balances`, (req) => {
+      const policyId = req.query.get('policy_id');
+      const userId = req.query.get('user_id');
+      return jsonResponse(200, {
+        items: this.balances
+          .filter((b) => !userId || b.user_id === userId)
+          .filter((b) => !policyId || this.resolvePolicyId(b.policy) === policyId)
+          .map((b) => ({
+            user_id: b.user_id,
+            policy_id: this.resolvePolicyId(b.policy),
+            balance: b.balance,
+          })),
+      });
+    });
+    this.route('POST', `${INTEGRATION}/balances/sync`, (req) => {
+      const items = (req.body as { items?: FlipSyncBalance[] })?.items || [];
+      for (const item of items) {
+        if (!this.resolvePolicyId(item.policy)) {
+          return errorResponse(422, `Unknown policy ${JSON.stringify(item.policy)}`);
+        }
+      }
+      for (const item of items) {
+        const policyId = this.resolvePolicyId(item.policy);
+        this.balances = this.balances.filter(
+          (b) => !(b.user_id === item.user_id && this.resolvePolicyId(b.policy) === policyId)
+        );
+        this.balances.push(item);
+      }
+      return jsonResponse(200, { synced: items.length });
+    });
+
+    // Absence requests
+    this.route('GET', `${INTEGRATION}/absence-requests`, (req) => {
+      const request = this.absenceRequests.find(
+        (r) => r.external_id && r.external_id === req.query.get('external_id')
+      );
+      return request ? jsonResponse(200, request) : errorResponse(404, 'Absence request not found');
+    });
+    this.route('GET', '/api/hr/v4/absence-requests', (req) => {
+      const userId = req.query.get('user_id');
+      const matches = this.absenceRequests.filter((r) => !userId || r.absentee === userId);
+      return jsonResponse(200, {
+        items: paginate(matches, req.query, 'page_number', 'page_limit'),
+      });
+    });
+    this.route('POST', `${INTEGRATION}/absence-requests/approve`, (req) =>
+      this.decide(req, 'APPROVED')
+    );
+    this.route('POST', `${INTEGRATION}/absence-requests/reject`, (req) =>
+      this.decide(req, 'REJECTED')
+    );
+    this.route('POST', `${INTEGRATION}/absence-requests/error`, (req) => {
+      const request = this.findByIdentifier(req);
+      if (!request) return errorResponse(404, 'Absence request not found');
+      this.setStatus(request, 'ERROR');
+      return jsonResponse(200, request);
+    });
+    this.route('POST', `${INTEGRATION}/absence-requests/:id/patch-external-id`, (req) => {
+      const request = this.absenceRequests.find((r) => r.id === req.params.id);
+      if (!request) return errorResponse(404, 'Absence request not found');
+      request.external_id = (req.body as { external_id?: string })?.external_id ?? null;
+      request.updated_at = new Date().toISOString();
+      return new Response(null, { status: 204 });
+    });
+
+    // Absence request sync lifecycle
+    this.route('POST', `${INTEGRATION}/absence-requests/sync/start`, (req) => {
+      const sync: FakeAbsenceRequestSync = {
+        id: randomUUID(),
+        user_id: (req.body as { user_id?: string })?.user_id,
+        status: 'STARTED',
+        items: [],
+        created_at: new Date().toISOString(),
+      };
+      this.syncs.set(sync.id, sync);
+      return jsonResponse(200, { sync_id: sync.id, created_at: sync.created_at });
+    });
+    this.route('GET', `${INTEGRATION}/absence-requests/sync/:id`, (req) => {
+      const sync = this.syncs.get(req.params.id);
+      return sync
+        ? jsonResponse(200, { status: sync.status })
+        : errorResponse(404, 'Sync not found');
+    });
+    this.route('POST', `${INTEGRATION}/absence-requests/sync/:id`, (req) => {
+      const sync = this.openSync(req.params.id);
+      if (sync instanceof Response) return sync;
+      sync.items.push(...((req.body as { items?: FlipSyncAbsenceRequest[] })?.items || []));
+      return new Response(null, { status: 204 });
+    });
+    this.route('POST', `${INTEGRATION}/absence-requests/sync/:id/complete`, (req) => {
+      const sync = this.openSync(req.params.id);
+      if (sync instanceof Response) return sync;
+      const kept = new Set(sync.items.map((item) => this.applySyncItem(item)));
+      this.absenceRequests = this.absenceRequests.filter(
+        (r) => kept.has(r) || (sync.user_id !== undefined && r.absentee !== sync.user_id)
+      );
+      sync.status = 'COMPLETED';
+      return new Response(null, { status: 204 });
+    });
+    this.route('POST', `${INTEGRATION}/absence-requests/sync/:id/cancel`, (req) => {
+      const sync = this.openSync(req.params.id);
+      if (sync instanceof Response) return sync;
+      sync.status = 'CANCELLED';
+      return new Response(null, { status: 204 });
+    });
+  }
+
+  // ============================================================
+  // Seeding and scenario helpers
+  // ============================================================
+
+  /**
+   * Add a user; `extHRRef` becomes the "exthrref" attribute used for mapping
+   */
+  addUser(fields: Partial<FlipUser> & { extHRRef?: string; managerId?: string }): FlipUser {
+    const { extHRRef, managerId, ...rest } = fields;
+    const attributes: Array<{ name: string; value: string }> = [];
+    if (extHRRef) attributes.push({ name: 'exthrref', value: extHRRef });
+    if (managerId) attributes.push({ name: 'manger_id', value: managerId });
+
+    const user: FlipUser = {
+      id: randomUUID(),
+      first_name: 'Test',
+      last_name: 'User',
+      status: 'ACTIVE',
+      ...rest,
+      attributes: attributes as unknown as Record<string, unknown>,
+    };
+    this.users.push(user);
+    return user;
+  }
+
+  addPolicy(fields: FlipAbsencePolicySync): FlipAbsencePolicy {
+    return this.upsertPolicy(fields);
+  }
+
+  /**
+   * An employee requests an absence in the MiniApp. Returns the new
+   * request and the webhook item Flip would send for it.
+   */
+  requestAbsence(fields: {
+    absentee: string;
+    policyId: string;
+    startDate: string;
+    endDate: string;
+    comment?: string;
+  }): { request: FlipAbsenceRequest; webhookItem: { type: string; data: Record<string, unknown> } } {
+    const now = new Date().toISOString();
+    const request: FlipAbsenceRequest = {
+      id: randomUUID(),
+      external_id: null,
+      absentee: fields.absentee,
+      policy_id: fields.policyId,
+      created_by: fields.absentee,
+      requestor_comment: fields.comment ?? null,
+      status: 'PENDING',
+      created_at: now,
+      updated_at: now,
+      starts_from: { date: `${fields.startDate}T00:00:00` },
+      ends_at: { date: `${fields.endDate}T00:00:00` },
+      is_cancellable: true,
+    };
+    this.absenceRequests.push(request);
+    return { request, webhookItem: this.webhookItem('hr.absence.requested', request) };
+  }
+
+  /**
+   * An employee cancels their absence in the MiniApp
+   */
+  cancelAbsence(absenceRequestId: string): { type: string; data: Record<string, unknown> } {
+    const request = this.absenceRequests.find((r) => r.id === absenceRequestId);
+    if (!request) throw new Error(`Fake Flip: no absence request ${absenceRequestId}`);
+    this.setStatus(request, 'CANCELLED');
+    return this.webhookItem('hr.absence.cancelled', request);
+  }
+
+  /**
+   * The webhook item Flip would deliver for an absence request
+   */
+  webhookItem(
+    type: string,
+    request: FlipAbsenceRequest
+  ): { type: string; data: Record<string, unknown> } {
+    const policy = this.policies.find((p) => p.id === request.policy_id);
+    return {
+      type,
+      data: {
+        id: request.id,
+        absentee: request.absentee,
+        policy_id: request.policy_id,
+        policy_external_id: policy?.external_id ?? null,
+        external_id: request.external_id ?? null,
+        requestor_comment: request.requestor_comment ?? null,
+        starts_from: request.starts_from,
+        ends_at: request.ends_at,
+        status: request.status,
+      },
+    };
+  }
+
+  protected authorize(_method: string, path: string, headers: Headers): Response | null {
+    if (path.endsWith('/protocol/openid-connect/token')) return null;
+    const token = (headers.get('authorization') || '').replace(/^Bearer /, '');
+    return this.tokens.has(token) ? null : errorResponse(401, 'Invalid or missing token');
+  }
+
+  private issueToken(req: FakeRequest): Response {
+    const form = (req.body || {}) as Record<string, string>;
+    if (
+      req.params.org !== this.credentials.organization ||
+      form.grant_type !== 'client_credentials' ||
+      form.client_id !== this.credentials.clientId ||
+      form.client_secret !== this.credentials.clientSecret
+    ) {
+      return jsonResponse(401, { error: 'invalid_client' });
+    }
+    const token = `fake-token-${randomUUID()}`;
+    this.tokens.add(token);
+    return jsonResponse(200, { access_token: token, expires_in: 3600, token_type: 'Bearer' });
+  }
+
+  private searchUsers(req: FakeRequest): Response {
+    const attributeName = req.query.get('attribute_technical_name')?.toLowerCase();
+    const attributeValue = req.query.get('attribute_value');
+    const externalId = req.query.get('external_id');
+    const searchTerm = req.query.get('search_term')?.toLowerCase();
+
+    const matches = this.users.filter((user) => {
+      if (externalId && user.external_id !== externalId) return false;
+      if (
+        searchTerm &&
+        !`${user.first_name} ${user.last_name} ${user.email}`.toLowerCase().includes(searchTerm)
+      ) {
+        return false;
+      }
+      if (attributeName) {
+        const attrs = (user.attributes || []) as unknown as Array<{ name: string; value: string }>;
+        const attr = attrs.find((a) => a.name.toLowerCase() === attributeName);
+        if (!attr || (attributeValue !== null && attr.value !== attributeValue)) return false;
+      }
+      return true;
+    });
+
+    const users = paginate(matches, req.query, 'page_number', 'page_limit');
+    return jsonResponse(200, {
+      users,
+      pagination: {
+        page_number: parseInt(req.query.get('page_number') || '1', 10),
+        page_limit: parseInt(req.query.get('page_limit') || '100', 10),
+        total_elements: matches.length,
+      },
+    });
+  }
+
+  private upsertPolicy(sync: FlipAbsencePolicySync): FlipAbsencePolicy {
+    const now = new Date().toISOString();
+    const existing = this.policies.find(
+      (p) => (sync.id && p.id === sync.id) || (sync.external_id && p.external_id === sync.external_id)
+    );
+    if (existing) {
+      Object.assign(existing, {
+        name: sync.name,
+        half_days_allowed: sync.half_days_allowed,
+        time_unit: sync.time_unit,
+        time_units: sync.time_units || [sync.time_unit],
+        updated_at: now,
+      });
+      return existing;
+    }
+
+    const policy: FlipAbsencePolicy = {
+      id: sync.id || randomUUID(),
+      name: sync.name,
+      half_days_allowed: sync.half_days_allowed,
+      time_unit: sync.time_unit,
+      time_units: sync.time_units || [sync.time_unit],
+      external_id: sync.external_id ?? null,
+      tenant: this.credentials.organization,
+      created_by: 'integration',
+      updated_by: 'integration',
+      created_at: now,
+      updated_at: now,
+    };
+    this.policies.push(policy);
+    return policy;
+  }
+
+  private resolvePolicyId(policy: { id?: string; external_id?: string | null }): string | undefined {
+    if (policy.id) return this.policies.find((p) => p.id === policy.id)?.id;
+    return this.policies.find((p) => p.external_id && p.external_id === policy.external_id)?.id;
+  }
+
+  private findByIdentifier(req: FakeRequest): FlipAbsenceRequest | undefined {
+    const identifier =
+      (req.body as { identifier?: { absence_request_id?: string; external_id?: string } })
+        ?.identifier || {};
+    return this.absenceRequests.find(
+      (r) =>
+        (identifier.absence_request_id && r.id === identifier.absence_request_id) ||
+        (identifier.external_id && r.external_id === identifier.external_id)
+    );
+  }
+
+  private decide(req: FakeRequest, status: 'APPROVED' | 'REJECTED'): Response {
+    const request = this.findByIdentifier(req);
+    if (!request) return errorResponse(404, 'Absence request not found');
+    if (request.status !== 'PENDING') {
+      return errorResponse(409, `Absence request is ${request.status}`);
+    }
+    const approver = (req.body as { approver?: string })?.approver || '';
+    request.approver = approver;
+    this.setStatus(request, status);
+    this.notifications.push({ action: status, absence_request_id: request.id, approver });
+    return new Response(null, { status: 204 });
+  }
+
+  private openSync(id: string): FakeAbsenceRequestSync | Response {
+    const sync = this.syncs.get(id);
+    if (!sync) return errorResponse(404, 'Sync not found');
+    if (sync.status !== 'STARTED') return errorResponse(409, `Sync is ${sync.status}`);
+    return sync;
+  }
+
+  private applySyncItem(item: FlipSyncAbsenceRequest): FlipAbsenceRequest {
+    const existing = this.absenceRequests.find(
+      (r) => (item.id && r.id === item.id) || (item.external_id && r.external_id === item.external_id)
+    );
+    const now = new Date().toISOString();
+    const policyId = this.resolvePolicyId(item.policy) || item.policy.id || '';
+
+    if (existing) {
+      existing.status = item.status;
+      existing.approver = item.approver ?? existing.approver;
+      existing.policy_id = policyId || existing.policy_id;
+      existing.requestor_comment = item.requestor_comment;
+      existing.starts_from = item.starts_from;
+      existing.ends_at = item.ends_at;
+      existing.duration = item.duration;
+      existing.updated_at = now;
+      return existing;
+    }
+
+    const created: FlipAbsenceRequest = {
+      id: item.id || randomUUID(),
+      external_id: item.external_id ?? null,
+      absentee: item.absentee,
+      approver: item.approver ?? undefined,
+      duration: item.duration,
+      policy_id: policyId,
+      created_by: 'integration',
+      requestor_comment: item.requestor_comment,
+      status: item.status,
+      created_at: now,
+      updated_at: now,
+      starts_from: item.starts_from,
+      ends_at: item.ends_at,
+      is_cancellable: item.status === 'PENDING',
+    };
+    this.absenceRequests.push(created);
+    return created;
+  }
+
+  private setStatus(request: FlipAbsenceRequest, status: AbsenceRequestStatus): void {
+    request.status = status;
+    request.updated_at = new Date().toISOString();
+  }
+}
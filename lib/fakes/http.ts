@@ -0,0 +1,174 @@
+import type { HttpTransport } from '../transport';
+
+/**
+ * Shared plumbing for the in-memory API fakes: path routing, JSON
+ * responses, request recording and failure injection.
+ */
+
+export interface FakeRequest {
+  method: string;
+  /** Path relative to the fake's base path, without the query string */
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  /** Parsed JSON body, form fields for urlencoded bodies, else undefined */
+  body: unknown;
+  /** Values of the `:name` segments of the matched route */
+  params: Record<string, string>;
+}
+
+export type FakeRouteHandler = (req: FakeRequest) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: FakeRouteHandler;
+}
+
+interface InjectedFailure {
+  status: number;
+  remaining: number;
+  method?: string;
+  pathPrefix?: string;
+  body: unknown;
+}
+
+export function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function errorResponse(status: number, message: string): Response {
+  return jsonResponse(status, { error: message });
+}
+
+/**
+ * Base class for a fake API. Subclasses register routes in their
+ * constructor and keep their state in plain fields.
+ */
+export abstract class FakeApi {
+  /** Every request received, in order */
+  readonly requests: Array<{ method: string; path: string; body: unknown }> = [];
+
+  private routes: Route[] = [];
+  private failures: InjectedFailure[] = [];
+  private basePath: string;
+
+  constructor(readonly baseUrl: string) {
+    this.basePath = new URL(baseUrl).pathname.replace(/\/$/, '');
+  }
+
+  /**
+   * Use as the `transport` of a client to talk to this fake in-process
+   */
+  readonly transport: HttpTransport = (url, init) => this.handle(url, init);
+
+  /**
+   * Make the next `times` matching requests fail with `status`
+   */
+  failNext(
+    status: number,
+    options?: { times?: number; method?: string; pathPrefix?: string; body?: unknown }
+  ): void {
+    this.failures.push({
+      status,
+      remaining: options?.times ?? 1,
+      method: options?.method?.toUpperCase(),
+      pathPrefix: options?.pathPrefix,
+      body: options?.body ?? { error: `Injected failure (${status})` },
+    });
+  }
+
+  async handle(url: string, init: RequestInit = {}): Promise<Response> {
+    const parsed = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    let path = parsed.pathname;
+    if (this.basePath && path.startsWith(this.basePath)) {
+      path = path.slice(this.basePath.length) || '/';
+    }
+
+    const headers = new Headers(init.headers);
+    const body = parseBody(headers, init.body);
+    this.requests.push({ method, path, body });
+
+    const failure = this.failures.find(
+      (f) =>
+        f.remaining > 0 &&
+        (!f.method || f.method === method) &&
+        (!f.pathPrefix || path.startsWith(f.pathPrefix))
+    );
+    if (failure) {
+      failure.remaining--;
+      return jsonResponse(failure.status, failure.body);
+    }
+
+    const denied = this.authorize(method, path, headers);
+    if (denied) return denied;
+
+    const segments = split(path);
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const params = matchRoute(route.segments, segments);
+      if (params) {
+        return route.handler({ method, path, query: parsed.searchParams, headers, body, params });
+      }
+    }
+
+    return errorResponse(404, `No fake route for ${method} ${path}`);
+  }
+
+  /**
+   * Return an error response to reject the request, or null to let it through
+   */
+  protected abstract authorize(method: string, path: string, headers: Headers): Response | null;
+
+  protected route(method: string, pattern: string, handler: FakeRouteHandler): void {
+    this.routes.push({ method, segments: split(pattern), handler });
+  }
+}
+
+/**
+ * Slice a list the way the paginated endpoints do (`page` is 1-based)
+ */
+export function paginate<T>(
+  items: T[],
+  query: URLSearchParams,
+  pageParam = 'page',
+  limitParam = 'per_page'
+): T[] {
+  const page = Math.max(1, parseInt(query.get(pageParam) || '1', 10) || 1);
+  const limit = Math.max(1, parseInt(query.get(limitParam) || '100', 10) || 100);
+  return items.slice((page - 1) * limit, page * limit);
+}
+
+function split(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchRoute(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (pattern[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function parseBody(headers: Headers, body: RequestInit['body']): unknown {
+  if (typeof body !== 'string' || body === '') return undefined;
+  const contentType = headers.get('content-type') || '';
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body).entries());
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,76 @@
+import { Config, getStorageConfig, getWebhookLogConfig } from '../config';
+import { DEFAULT_RETRY_POLICY } from '../retry';
+import type { HttpTransport } from '../transport';
+import { errorResponse } from './http';
+import { FAKE_BREATHE_API_KEY, FAKE_BREATHE_BASE_URL, FakeBreatheHR } from './breathehr';
+import {
+  FAKE_FLIP_BASE_URL,
+  FAKE_FLIP_CLIENT_ID,
+  FAKE_FLIP_CLIENT_SECRET,
+  FAKE_FLIP_ORG,
+  FakeFlip,
+} from './flip';
+
+export { FakeBreatheHR } from './breathehr';
+export { FakeFlip } from './flip';
+export { FakeApi } from './http';
+
+/**
+ * Offline environment: a fake BreatheHR and a fake Flip, one transport
+ * that routes to whichever fake owns the URL, and a Config pointing at
+ * both. Plug it into the driver with
+ *
+ *   setTransport(env.transport);            // every handler, or
+ *   createClients({ config: env.config, transport: env.transport });
+ *
+ * Retries keep their attempt count but use millisecond delays so failure
+ * scenarios run quickly.
+ */
+export interface FakeEnvironment {
+  breathe: FakeBreatheHR;
+  flip: FakeFlip;
+  transport: HttpTransport;
+  config: Config;
+}
+
+export function createFakeEnvironment(): FakeEnvironment {
+  const breathe = new FakeBreatheHR();
+  const flip = new FakeFlip();
+
+  const transport: HttpTransport = async (url, init) => {
+    if (url.startsWith(FAKE_BREATHE_BASE_URL)) return breathe.handle(url, init);
+    if (url.startsWith(FAKE_FLIP_BASE_URL)) return flip.handle(url, init);
+    return errorResponse(502, `No fake API serves ${url}`);
+  };
+
+  const config: Config = {
+    breathehr: {
+      apiKey: FAKE_BREATHE_API_KEY,
+      baseUrl: FAKE_BREATHE_BASE_URL,
+      rateLimit: { requests: 10000, intervalMs: 1000 },
+    },
+    flip: {
+      clientId: FAKE_FLIP_CLIENT_ID,
+      clientSecret: FAKE_FLIP_CLIENT_SECRET,
+      baseUrl: FAKE_FLIP_BASE_URL,
+      organization: FAKE_FLIP_ORG,
+      webhookToleranceSeconds: 300,
+    },
+    sync: {
+      batchSize: 100,
+      maxAbsenceDropPercent: 25,
+      absenceMode: 'tenant',
+      absenceDeltaOverlapMs: 300000,
+      approvalLookbackDays: 365,
+      concurrency: 5,
+      jobTimeoutsMs: { policies: 60000, balances: 120000, absences: 240000 },
+    },
+    retry: { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 5 },
+    admin: {},
+    deadLetter: { maxAttempts: 6 },
+    storage: getStorageConfig(),
+    webhookLog: getWebhookLogConfig(),
+  };
+
+  return { breathe, flip, transport, config };
+}
@@ -1,4 +1,6 @@
-import { getConfig } from './config';
+import { FlipApiError, isNotFound, parseErrorBody } from './errors';
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, RetryPolicy } from './retry';
+import { fetchTransport, HttpTransport } from './transport';
 import {
   FlipUser,
   FlipAbsencePolicy,
@@ -8,29 +10,50 @@ import {
   FlipAbsenceRequest,
 } from './types';
 
+export interface FlipClientOptions {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+  organization: string;
+  /** Defaults to the global fetch */
+  transport?: HttpTransport;
+  /** Defaults to DEFAULT_RETRY_POLICY */
+  retryPolicy?: RetryPolicy;
+}
+
 /**
  * Flip API Client
  *
  * Auth: OAuth2 Client Credentials → JWT Bearer token
  * Token URL: https://{domain}/auth/realms/{org}/protocol/openid-connect/token
  * Base URL: configured per tenant
+ *
+ * Transient failures are retried per lib/retry.ts. Upsert-style POSTs
+ * (policy/balance sync, assignments, external id patch) opt in to retries;
+ * other POSTs are only resent on 429.
+ *
+ * Handlers get a configured instance from createClients() in
+ * lib/clients.ts rather than constructing one themselves.
  */
 export class FlipClient {
   private clientId: string;
   private clientSecret: string;
   private baseUrl: string;
   private organization: string;
+  private transport: HttpTransport;
+  private retryPolicy: RetryPolicy;
 
   // Token cache
   private accessToken: string | null = null;
   private tokenExpiresAt: number = 0;
 
-  constructor() {
-    const config = getConfig();
-    this.clientId = config.flip.clientId;
-    this.clientSecret = config.flip.clientSecret;
-    this.baseUrl = config.flip.baseUrl;
-    this.organization = config.flip.organization;
+  constructor(options: FlipClientOptions) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.organization = options.organization;
+    this.transport = options.transport || fetchTransport;
+    this.retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
   }
 
   // ============================================================
@@ -47,7 +70,8 @@ export class FlipClient {
       return this.accessToken;
     }
 
-    const tokenUrl = `${this.baseUrl}/auth/realms/${this.organization}/protocol/openid-connect/token`;
+    const tokenPath = `/auth/realms/${this.organization}/protocol/openid-connect/token`;
+    const tokenUrl = `${this.baseUrl}${tokenPath}`;
 
     console.log(`[Flip Auth] Requesting token from ${tokenUrl}`);
 
@@ -57,20 +81,29 @@ export class FlipClient {
       client_secret: this.clientSecret,
     });
 
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: body.toString(),
-    });
+    // Requesting a token has no side effects, so it is always safe to retry
+    const response = await fetchWithRetry(
+      () =>
+        this.transport(tokenUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: body.toString(),
+        }),
+      { method: 'POST', retry: true, policy: this.retryPolicy, label: '[Flip Auth]' }
+    );
 
     if (!response.ok) {
       const errorBody = await response.text();
       console.error(`[Flip Auth] Token request failed ${response.status}: ${errorBody}`);
-      throw new Error(
-        `Flip OAuth2 token request failed: ${response.status} ${response.statusText} - ${errorBody}`
-      );
+      throw new FlipApiError({
+        status: response.status,
+        statusText: response.statusText,
+        method: 'POST',
+        endpoint: tokenPath,
+        body: parseErrorBody(errorBody),
+      });
     }
 
     const tokenData = await response.json() as {
@@ -97,23 +130,26 @@ export class FlipClient {
     method: string,
     path: string,
     body?: unknown,
-    queryParams?: Record<string, string>
+    queryParams?: Record<string, string>,
+    requestOptions?: { retry?: boolean }
   ): Promise<T> {
     const token = await this.getAccessToken();
 
-    let url = `${this.baseUrl}${path}`;
+    let endpoint = path;
 
     if (queryParams) {
       const params = new URLSearchParams(queryParams);
-      url += `?${params.toString()}`;
+      endpoint += `?${params.toString()}`;
     }
 
+    const url = `${this.baseUrl}${endpoint}`;
+
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${token}`,
       'Accept': 'application/json',
     };
 
-    const options: Record<string, unknown> = { method, headers };
+    const options: RequestInit = { method, headers };
 
     if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
       headers['Content-Type'] = 'application/json';
@@ -125,14 +161,23 @@ export class FlipClient {
       console.log(`[Flip] Request body: ${JSON.stringify(body, null, 2)}`);
     }
 
-    const response = await fetch(url, options);
+    const response = await fetchWithRetry(() => this.transport(url, options), {
+      method,
+      retry: requestOptions?.retry,
+      policy: this.retryPolicy,
+      label: '[Flip]',
+    });
 
     if (!response.ok) {
       const errorBody = await response.text();
       console.error(`[Flip] Error ${response.status}: ${errorBody}`);
-      throw new Error(
-        `Flip API error: ${response.status} ${response.statusText} - ${errorBody}`
-      );
+      throw new FlipApiError({
+        status: response.status,
+        statusText: response.statusText,
+        method,
+        endpoint,
+        body: parseErrorBody(errorBody),
+      });
     }
 
     // Always read the raw response body for logging
@@ -210,8 +255,9 @@ export class FlipClient {
       }
       return null;
     } catch (error) {
+      if (isNotFound(error)) return null;
       console.error(`[Flip] Error finding user by ExtHRRef "${extHRRef}":`, error);
-      return null;
+      throw error;
     }
   }
 
@@ -244,7 +290,9 @@ export class FlipClient {
   async syncAbsencePolicy(
     policy: FlipAbsencePolicySync
   ): Promise<FlipAbsencePolicy> {
-    return this.request('POST', '/api/hr/v4/integration/absence-policies', policy);
+    return this.request('POST', '/api/hr/v4/integration/absence-policies', policy, undefined, {
+      retry: true,
+    });
   }
 
   /**
@@ -268,7 +316,9 @@ export class FlipClient {
     await this.request(
       'POST',
       `/api/hr/v4/integration/absence-policies/${policyId}/assignments`,
-      { user_ids: userIds }
+      { user_ids: userIds },
+      undefined,
+      { retry: true }
     );
   }
 
@@ -280,9 +330,13 @@ export class FlipClient {
    * Sync balances to Flip (batch)
    */
   async syncBalances(balances: FlipSyncBalance[]): Promise<unknown> {
-    return this.request('POST', '/api/hr/v4/integration/balances/sync', {
-      items: balances,
-    });
+    return this.request(
+      'POST',
+      '/api/hr/v4/integration/balances/sync',
+      { items: balances },
+      undefined,
+      { retry: true }
+    );
   }
 
   /**
@@ -351,7 +405,9 @@ export class FlipClient {
     await this.request(
       'POST',
       `/api/hr/v4/integration/absence-requests/${absenceRequestId}/patch-external-id`,
-      { external_id: externalId }
+      { external_id: externalId },
+      undefined,
+      { retry: true }
     );
   }
 
@@ -369,6 +425,40 @@ export class FlipClient {
     );
   }
 
+  /**
+   * List absence requests (optionally for one user), one page at a time
+   */
+  async listAbsenceRequests(params?: {
+    userId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ items: FlipAbsenceRequest[] }> {
+    const queryParams: Record<string, string> = {};
+    if (params?.userId) queryParams.user_id = params.userId;
+    if (params?.page) queryParams.page_number = params.page.toString();
+    if (params?.limit) queryParams.page_limit = params.limit.toString();
+    return this.request('GET', '/api/hr/v4/absence-requests', undefined, queryParams);
+  }
+
+  /**
+   * Get all absence requests, optionally for one user (auto-paginate)
+   */
+  async getAllAbsenceRequests(userId?: string): Promise<FlipAbsenceRequest[]> {
+    const allRequests: FlipAbsenceRequest[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.listAbsenceRequests({ userId, page, limit: 100 });
+      const items = result.items || [];
+      allRequests.push(...items);
+      hasMore = items.length === 100;
+      page++;
+    }
+
+    return allRequests;
+  }
+
   // ============================================================
   // Absence Request Sync (full sync lifecycle)
   // ============================================================
@@ -0,0 +1,204 @@
+import { getStorage, StorageBackend } from './storage';
+import type { AbsenceLink, BreatheAbsence, BreatheLeaveRequest } from './types';
+
+const COLLECTION = 'absence_links';
+
+/**
+ * Absence Link Store
+ *
+ * Records which BreatheHR leave request (and, once approved, which
+ * BreatheHR absence) belongs to which Flip absence request:
+ *
+ *   Flip absence request id ↔ BreatheHR leave_request id ↔ BreatheHR absence id
+ *
+ * Links are written when the webhook creates a leave request and when an
+ * approval is detected. Sync and cancellation paths resolve through these
+ * links first and only fall back to matching on start/end dates for
+ * legacy data created before the store existed.
+ */
+export class AbsenceLinkStore {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Record a newly created leave request (webhook path)
+   */
+  async recordLeaveRequest(link: {
+    flipAbsenceRequestId: string;
+    breatheLeaveRequestId: number;
+    breatheEmployeeId: number;
+    startDate?: string;
+    endDate?: string;
+  }): Promise<AbsenceLink> {
+    const existing = await this.findByLeaveRequestId(link.breatheLeaveRequestId);
+    const now = new Date().toISOString();
+    const record: AbsenceLink = {
+      breatheAbsenceId: null,
+      ...existing,
+      ...link,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await this.storage.put(COLLECTION, String(link.breatheLeaveRequestId), record);
+    return record;
+  }
+
+  /**
+   * Record the absence BreatheHR created when a leave request was approved
+   */
+  async recordAbsence(
+    breatheLeaveRequestId: number,
+    breatheAbsenceId: number,
+    breatheEmployeeId?: number
+  ): Promise<AbsenceLink> {
+    const existing = await this.findByLeaveRequestId(breatheLeaveRequestId);
+    const now = new Date().toISOString();
+    const record: AbsenceLink = {
+      flipAbsenceRequestId: null,
+      breatheEmployeeId: breatheEmployeeId ?? null,
+      ...existing,
+      breatheLeaveRequestId,
+      breatheAbsenceId,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await this.storage.put(COLLECTION, String(breatheLeaveRequestId), record);
+    return record;
+  }
+
+  /**
+   * Forget a leave request (its creation was rolled back)
+   */
+  async removeLeaveRequest(breatheLeaveRequestId: number): Promise<void> {
+    await this.storage.delete(COLLECTION, String(breatheLeaveRequestId));
+  }
+
+  async findByLeaveRequestId(leaveRequestId: number): Promise<AbsenceLink | null> {
+    return this.storage.get<AbsenceLink>(COLLECTION, String(leaveRequestId));
+  }
+
+  async findByFlipRequestId(flipAbsenceRequestId: string): Promise<AbsenceLink | null> {
+    const links = await this.storage.list<AbsenceLink>(COLLECTION);
+    return links.find((l) => l.flipAbsenceRequestId === flipAbsenceRequestId) ?? null;
+  }
+
+  async findByAbsenceId(absenceId: number): Promise<AbsenceLink | null> {
+    const links = await this.storage.list<AbsenceLink>(COLLECTION);
+    return links.find((l) => l.breatheAbsenceId === absenceId) ?? null;
+  }
+
+  async listForEmployee(breatheEmployeeId: number): Promise<AbsenceLink[]> {
+    const links = await this.storage.list<AbsenceLink>(COLLECTION);
+    return links.filter((l) => l.breatheEmployeeId === breatheEmployeeId);
+  }
+
+  /**
+   * Resolve the leave request behind each of an employee's absences.
+   *
+   * Returns absence id → leave request id. Resolution order per absence:
+   *   1. a stored link that already names the absence
+   *   2. a `leave_request_id` field on the absence itself, if BreatheHR sends one
+   *   3. a stored link for the same dates that has no absence yet
+   *   4. legacy fallback: a leave request with the same start/end dates
+   *
+   * Each leave request is claimed at most once, so two bookings with the
+   * same dates resolve to two different absences. Pairs found in steps 2
+   * and 3 are recorded (that is approval being detected) unless
+   * `options.readOnly` is set, e.g. for a dry run; legacy date guesses from
+   * step 4 are returned but never persisted.
+   */
+  async resolveAbsenceLeaveRequests(
+    breatheEmployeeId: number,
+    absences: BreatheAbsence[],
+    leaveRequests: BreatheLeaveRequest[],
+    options: { readOnly?: boolean } = {}
+  ): Promise<Map<number, number>> {
+    const resolved = new Map<number, number>();
+    const claimed = new Set<number>();
+
+    const links = await this.listForEmployee(breatheEmployeeId);
+    const linkByAbsenceId = new Map<number, AbsenceLink>();
+    for (const link of links) {
+      if (link.breatheAbsenceId !== null) {
+        linkByAbsenceId.set(link.breatheAbsenceId, link);
+        claimed.add(link.breatheLeaveRequestId);
+      }
+    }
+
+    // Oldest first, so repeated bookings of the same dates pair up in order
+    const ordered = [...absences].sort((a, b) => a.id - b.id);
+    const unresolved: BreatheAbsence[] = [];
+
+    // 1 + 2: definitive links
+    for (const absence of ordered) {
+      const link = linkByAbsenceId.get(absence.id);
+      if (link) {
+        resolved.set(absence.id, link.breatheLeaveRequestId);
+        continue;
+      }
+
+      const rawLeaveRequestId = Number((absence as Record<string, unknown>).leave_request_id);
+      if (rawLeaveRequestId && !claimed.has(rawLeaveRequestId)) {
+        resolved.set(absence.id, rawLeaveRequestId);
+        claimed.add(rawLeaveRequestId);
+        if (!options.readOnly) {
+          await this.recordAbsence(rawLeaveRequestId, absence.id, breatheEmployeeId);
+        }
+        continue;
+      }
+
+      unresolved.push(absence);
+    }
+
+    // 3: stored links awaiting their absence
+    const openLinks = links
+      .filter((l) => l.breatheAbsenceId === null)
+      .sort((a, b) => a.breatheLeaveRequestId - b.breatheLeaveRequestId);
+    const stillUnresolved: BreatheAbsence[] = [];
+
+    for (const absence of unresolved) {
+      const link = openLinks.find(
+        (l) =>
+          !claimed.has(l.breatheLeaveRequestId) &&
+          l.startDate === absence.start_date &&
+          l.endDate === absence.end_date
+      );
+      if (link) {
+        resolved.set(absence.id, link.breatheLeaveRequestId);
+        claimed.add(link.breatheLeaveRequestId);
+        if (!options.readOnly) {
+          await this.recordAbsence(link.breatheLeaveRequestId, absence.id, breatheEmployeeId);
+          console.log(
+            `[LinkStore] Linked absence ${absence.id} to leave request ${link.breatheLeaveRequestId}`
+          );
+        }
+      } else {
+        stillUnresolved.push(absence);
+      }
+    }
+
+    // 4: legacy date match (not persisted)
+    const linkedLeaveRequestIds = new Set(links.map((l) => l.breatheLeaveRequestId));
+    const legacyCandidates = leaveRequests
+      .filter((lr) => lr.id && !linkedLeaveRequestIds.has(lr.id))
+      .sort((a, b) => a.id - b.id);
+
+    for (const absence of stillUnresolved) {
+      const lr = legacyCandidates.find(
+        (c) =>
+          !claimed.has(c.id) &&
+          c.start_date === absence.start_date &&
+          c.end_date === absence.end_date
+      );
+      if (lr) {
+        resolved.set(absence.id, lr.id);
+        claimed.add(lr.id);
+      }
+    }
+
+    return resolved;
+  }
+}
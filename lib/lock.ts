@@ -0,0 +1,236 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { getStorage, StorageBackend } from './storage';
+import { Config, getConfig } from './config';
+import { ABORT_GRACE_MS } from './orchestrator';
+
+const COLLECTION = 'locks';
+
+// For a run's work outside its timed jobs (mappings, run history, ...)
+const JOB_LOCK_MARGIN_MS = 60 * 1000;
+
+export interface Lease {
+  name: string;
+  owner: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export type AcquireResult =
+  | { acquired: true; lease: Lease }
+  /** `lease` is the current holder's */
+  | { acquired: false; lease: Lease };
+
+/**
+ * Lock backend: hands out leases that expire on their own, so a run that
+ * crashed or was killed never keeps the lock past its TTL.
+ *
+ * A backend shared by every instance (Redis `SET NX PX`, a database row,
+ * ...) can be plugged in with setLockBackend().
+ */
+export interface LockBackend {
+  /** Take the lease unless someone else holds an unexpired one. Must be atomic. */
+  acquire(name: string, owner: string, ttlMs: number): Promise<AcquireResult>;
+  /** Give the lease up — only if `owner` still holds it */
+  release(name: string, owner: string): Promise<void>;
+}
+
+/**
+ * Lock backend on the driver's storage (file or memory, see lib/storage.ts),
+ * built on its atomic `update`. File storage is per machine — on Vercel each
+ * instance has its own /tmp — so use an external backend there to lock
+ * across instances.
+ */
+export class StorageLockBackend implements LockBackend {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  async acquire(name: string, owner: string, ttlMs: number): Promise<AcquireResult> {
+    const now = Date.now();
+    const stored = await this.storage.update<Lease>(COLLECTION, name, (current) => {
+      if (current && new Date(current.expiresAt).getTime() > now) return current;
+      return {
+        name,
+        owner,
+        acquiredAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs).toISOString(),
+      };
+    });
+    return { acquired: stored!.owner === owner, lease: stored! };
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    await this.storage.update<Lease>(COLLECTION, name, (current) =>
+      current && current.owner !== owner ? current : null
+    );
+  }
+}
+
+let backend: LockBackend | null = null;
+
+/**
+ * Get the process-wide lock backend — the one set with setLockBackend(),
+ * else one on the current storage
+ */
+export function getLockBackend(): LockBackend {
+  return backend || new StorageLockBackend();
+}
+
+/**
+ * Replace the process-wide lock backend (external stores, tests);
+ * pass null to go back to the storage-based one
+ */
+export function setLockBackend(replacement: LockBackend | null): void {
+  backend = replacement;
+}
+
+/**
+ * Lease Lock
+ *
+ * Keeps scheduled jobs from overlapping: a run takes the lock with a TTL
+ * longer than it can possibly take, and releases it when done.
+ */
+export class LeaseLock {
+  private backend: LockBackend;
+
+  constructor(backend?: LockBackend) {
+    this.backend = backend || getLockBackend();
+  }
+
+  async acquire(name: string, ttlMs: number): Promise<AcquireResult> {
+    return this.backend.acquire(name, randomUUID(), ttlMs);
+  }
+
+  async release(lease: Lease): Promise<void> {
+    await this.backend.release(lease.name, lease.owner);
+  }
+}
+
+/**
+ * Thrown by SharedLock when another run holds the lock
+ */
+export class LockHeldError extends Error {
+  constructor(public readonly lease: Lease) {
+    super(`Lock "${lease.name}" is held until ${lease.expiresAt}`);
+    this.name = 'LockHeldError';
+  }
+}
+
+/**
+ * Shared Lock
+ *
+ * For Flip writes made outside the job that owns them — e.g. the
+ * reconciler running a scoped sync lifecycle, which must not overlap the
+ * "sync" job. Calls that overlap within one SharedLock share a lease: the
+ * first takes it and the last releases it, so concurrent workers of one
+ * run don't lock each other out. Throws LockHeldError when another run
+ * holds the lock, without calling `fn`.
+ */
+export class SharedLock {
+  private lock: LeaseLock;
+  private held = new Map<string, { lease: Promise<Lease>; users: number }>();
+
+  constructor(backend?: LockBackend) {
+    this.lock = new LeaseLock(backend);
+  }
+
+  async run<T>(name: string, ttlMs: number, fn: () => Promise<T>): Promise<T> {
+    let entry = this.held.get(name);
+    if (!entry) {
+      entry = { lease: this.take(name, ttlMs), users: 0 };
+      this.held.set(name, entry);
+    }
+    entry.users++;
+
+    try {
+      await entry.lease;
+      return await fn();
+    } finally {
+      entry.users--;
+      if (entry.users === 0) {
+        this.held.delete(name);
+        await entry.lease.then(
+          (lease) =>
+            this.lock.release(lease).catch((error) => {
+              // The lease expires on its own
+              console.error(`[Lock] Failed to release "${name}":`, error);
+            }),
+          () => undefined
+        );
+      }
+    }
+  }
+
+  private async take(name: string, ttlMs: number): Promise<Lease> {
+    const taken = await this.lock.acquire(name, ttlMs);
+    if (!taken.acquired) throw new LockHeldError(taken.lease);
+    return taken.lease;
+  }
+}
+
+/**
+ * Lease TTL for the "sync" and "approval-check" locks: long enough for
+ * every sync job to use up its configured timeout (config.sync.jobTimeoutsMs)
+ * and then the orchestrator's abort grace period, one after another. A run
+ * that is still alive therefore never outlives its lease, whatever the
+ * timeouts are set to.
+ */
+export function jobLockTtlMs(config: Config = getConfig()): number {
+  return Object.values(config.sync.jobTimeoutsMs).reduce(
+    (total, timeoutMs) => total + timeoutMs + ABORT_GRACE_MS,
+    JOB_LOCK_MARGIN_MS
+  );
+}
+
+/**
+ * Wrap a handler so that it only runs while holding the lock `name`.
+ * When another run holds it, responds 200 with status "skipped" (cron
+ * treats that as a clean exit) and does nothing else. `ttlMs` may be a
+ * function, evaluated per request (e.g. jobLockTtlMs, which reads config).
+ */
+export function withLock(
+  name: string,
+  ttlMs: number | (() => number),
+  handler: (req: VercelRequest, res: VercelResponse) => Promise<void>
+): (req: VercelRequest, res: VercelResponse) => Promise<void> {
+  return async (req, res) => {
+    const lock = new LeaseLock();
+    let taken: AcquireResult;
+    try {
+      taken = await lock.acquire(name, typeof ttlMs === 'function' ? ttlMs() : ttlMs);
+    } catch (error) {
+      console.error(`[Lock] Failed to take "${name}":`, error);
+      res.status(500).json({
+        error: 'Could not take the job lock',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    if (!taken.acquired) {
+      console.log(`[Lock] "${name}" is held until ${taken.lease.expiresAt}, skipping run`);
+      res.status(200).json({
+        status: 'skipped',
+        result: 'skipped: locked',
+        lock: name,
+        locked_since: taken.lease.acquiredAt,
+        locked_until: taken.lease.expiresAt,
+      });
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } finally {
+      try {
+        await lock.release(taken.lease);
+      } catch (error) {
+        // The lease expires on its own
+        console.error(`[Lock] Failed to release "${name}":`, error);
+      }
+    }
+  };
+}
@@ -0,0 +1,186 @@
+export type JobStatus = 'ok' | 'failed' | 'timed_out' | 'skipped';
+
+// How long a timed-out job gets to wind down once aborted
+export const ABORT_GRACE_MS = 30 * 1000;
+
+export interface Job<T = unknown> {
+  name: string;
+  /** Jobs that must finish with status "ok" before this one runs */
+  dependsOn?: string[];
+  /** No limit when unset */
+  timeoutMs?: number;
+  /**
+   * `signal` is aborted when the job times out: stop, and cancel anything
+   * left open (e.g. a started Flip sync), by throwing
+   */
+  run: (signal: AbortSignal) => Promise<T>;
+  /**
+   * Why a result that was returned still counts as a failure (e.g. a
+   * cancelled sync), or undefined when it doesn't
+   */
+  failureOf?(result: T): string | undefined;
+}
+
+export interface JobOutcome<T = unknown> {
+  name: string;
+  status: JobStatus;
+  started_at: string | null;
+  duration_ms: number;
+  result?: T;
+  error?: string;
+  /** Set on skipped jobs: the dependencies that did not finish "ok" */
+  blocked_by?: string[];
+}
+
+export interface JobRunSummary {
+  /** "ok" when every job succeeded, "failed" when none did */
+  status: 'ok' | 'partial' | 'failed';
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  /** In the order they ran */
+  jobs: JobOutcome[];
+}
+
+class JobTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Job "${name}" timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/**
+ * Job Orchestrator
+ *
+ * Runs jobs one at a time in dependency order (declaration order among
+ * jobs that don't depend on each other). A job whose dependency failed,
+ * timed out or was skipped is skipped too; independent jobs still run.
+ *
+ * A timeout aborts the job's signal and marks it "timed_out" once the job
+ * has wound down — or after ABORT_GRACE_MS, for a job that ignores the
+ * signal, whose requests may then still finish in the background. The next
+ * job never starts while an aborted one is still cancelling its work.
+ *
+ * Unknown dependencies and cycles are programming errors and throw before
+ * anything runs.
+ */
+export async function runJobs(jobs: Job[]): Promise<JobRunSummary> {
+  const startedAt = new Date();
+  const outcomes = new Map<string, JobOutcome>();
+  const results: JobOutcome[] = [];
+
+  for (const job of orderJobs(jobs)) {
+    const blockedBy = (job.dependsOn || []).filter((dep) => outcomes.get(dep)?.status !== 'ok');
+    const outcome: JobOutcome = blockedBy.length > 0
+      ? { name: job.name, status: 'skipped', started_at: null, duration_ms: 0, blocked_by: blockedBy }
+      : await runJob(job);
+
+    if (outcome.status === 'skipped') {
+      console.warn(`[Orchestrator] Skipping ${job.name}: ${blockedBy.join(', ')} did not succeed`);
+    }
+    outcomes.set(job.name, outcome);
+    results.push(outcome);
+  }
+
+  const succeeded = results.filter((o) => o.status === 'ok').length;
+  const finishedAt = new Date();
+  return {
+    status: succeeded === results.length ? 'ok' : succeeded === 0 ? 'failed' : 'partial',
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    jobs: results,
+  };
+}
+
+async function runJob(job: Job): Promise<JobOutcome> {
+  const startedAt = new Date();
+  const outcome = (status: JobStatus, extra: Partial<JobOutcome>): JobOutcome => ({
+    name: job.name,
+    status,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    ...extra,
+  });
+
+  console.log(`[Orchestrator] Running ${job.name}...`);
+
+  let result: unknown;
+  try {
+    result = await withTimeout(job);
+  } catch (error) {
+    const timedOut = error instanceof JobTimeoutError;
+    console.error(`[Orchestrator] ${job.name} ${timedOut ? 'timed out' : 'failed'}:`, error);
+    return outcome(timedOut ? 'timed_out' : 'failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const failure = job.failureOf?.(result);
+  if (failure) {
+    console.warn(`[Orchestrator] ${job.name} failed: ${failure}`);
+    return outcome('failed', { result, error: failure });
+  }
+
+  console.log(`[Orchestrator] ${job.name} done in ${Date.now() - startedAt.getTime()}ms`);
+  return outcome('ok', { result });
+}
+
+async function withTimeout<T>(job: Job<T>): Promise<T> {
+  const controller = new AbortController();
+  const running = job.run(controller.signal);
+  if (!job.timeoutMs) return running;
+
+  const first = await settleWithin(running, job.timeoutMs);
+  if (first.settled) return running;
+
+  const error = new JobTimeoutError(job.name, job.timeoutMs);
+  controller.abort(error);
+  const stopped = await settleWithin(running, ABORT_GRACE_MS);
+  if (!stopped.settled) {
+    console.warn(`[Orchestrator] ${job.name} still running ${ABORT_GRACE_MS}ms after abort`);
+  }
+  throw error;
+}
+
+/**
+ * Wait for `promise` to resolve or reject, at most `ms`
+ */
+async function settleWithin(promise: Promise<unknown>, ms: number): Promise<{ settled: boolean }> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<{ settled: boolean }>((resolve) => {
+    timer = setTimeout(() => resolve({ settled: false }), ms);
+  });
+  const settled = promise.then(
+    () => ({ settled: true }),
+    () => ({ settled: true })
+  );
+  return Promise.race([settled, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Topological order, stable with respect to declaration order
+ */
+function orderJobs(jobs: Job[]): Job[] {
+  const byName = new Map(jobs.map((job) => [job.name, job]));
+  for (const job of jobs) {
+    for (const dep of job.dependsOn || []) {
+      if (!byName.has(dep)) throw new Error(`Job "${job.name}" depends on unknown job "${dep}"`);
+    }
+  }
+
+  const ordered: Job[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (job: Job) => {
+    if (state.get(job.name) === 'done') return;
+    if (state.get(job.name) === 'visiting') {
+      throw new Error(`Job dependency cycle through "${job.name}"`);
+    }
+    state.set(job.name, 'visiting');
+    for (const dep of job.dependsOn || []) visit(byName.get(dep)!);
+    state.set(job.name, 'done');
+    ordered.push(job);
+  };
+  jobs.forEach(visit);
+  return ordered;
+}
@@ -0,0 +1,199 @@
+import { getStorage, StorageBackend } from './storage';
+import { isClientError } from './errors';
+import type { BreatheHRClient } from './breathehr';
+import type { FlipClient } from './flip';
+import type { AbsenceLinkStore } from './link-store';
+import type { FlipSyncAbsenceRequest } from './types';
+
+const COLLECTION = 'pending_repairs';
+
+export interface PendingRepair {
+  flip_absence_request_id: string;
+  breathe_leave_request_id: number;
+  breathe_employee_id: number;
+  attempts: number;
+  last_error: string;
+  created_at: string;
+  last_attempt_at: string;
+}
+
+export type RepairOutcome = 'patched' | 'rolled_back' | 'pending';
+
+/**
+ * Pending-Repair Store
+ *
+ * When the webhook created a BreatheHR leave request but could not patch
+ * its id onto the Flip request (Flip down after all retries), the pair is
+ * parked here. The absence sync repairs these before it builds its items
+ * — otherwise it would push the leave request as a new Flip entry and
+ * drop the original, which still has no external id.
+ *
+ * Keyed on the Flip absence request id.
+ */
+export class PendingRepairStore {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  async add(repair: {
+    flipAbsenceRequestId: string;
+    breatheLeaveRequestId: number;
+    breatheEmployeeId: number;
+    error: string;
+  }): Promise<PendingRepair> {
+    const now = new Date().toISOString();
+    const stored = await this.storage.update<PendingRepair>(
+      COLLECTION,
+      repair.flipAbsenceRequestId,
+      (current) => ({
+        flip_absence_request_id: repair.flipAbsenceRequestId,
+        breathe_leave_request_id: repair.breatheLeaveRequestId,
+        breathe_employee_id: repair.breatheEmployeeId,
+        attempts: (current?.attempts || 0) + 1,
+        last_error: repair.error,
+        created_at: current?.created_at || now,
+        last_attempt_at: now,
+      })
+    );
+    return stored!;
+  }
+
+  async get(flipAbsenceRequestId: string): Promise<PendingRepair | null> {
+    return this.storage.get<PendingRepair>(COLLECTION, flipAbsenceRequestId);
+  }
+
+  /**
+   * List pending repairs, oldest first
+   */
+  async list(): Promise<PendingRepair[]> {
+    const repairs = await this.storage.list<PendingRepair>(COLLECTION);
+    return repairs.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async recordFailure(flipAbsenceRequestId: string, error: string): Promise<PendingRepair | null> {
+    return this.storage.update<PendingRepair>(COLLECTION, flipAbsenceRequestId, (current) =>
+      current
+        ? {
+            ...current,
+            attempts: current.attempts + 1,
+            last_error: error,
+            last_attempt_at: new Date().toISOString(),
+          }
+        : null
+    );
+  }
+
+  async remove(flipAbsenceRequestId: string): Promise<void> {
+    await this.storage.delete(COLLECTION, flipAbsenceRequestId);
+  }
+}
+
+/**
+ * Finish a half-done webhook creation: patch the Flip request with the
+ * BreatheHR leave request id. If Flip rejects the patch (the request is
+ * gone or can't take it), compensate by cancelling the BreatheHR leave
+ * request and dropping its link instead. Transient failures keep the
+ * entry for the next attempt.
+ */
+export async function repairPendingLink(
+  repair: PendingRepair,
+  deps: {
+    store: PendingRepairStore;
+    breathe: BreatheHRClient;
+    flip: FlipClient;
+    links: AbsenceLinkStore;
+  }
+): Promise<RepairOutcome> {
+  const { store, flip } = deps;
+  const flipId = repair.flip_absence_request_id;
+  const leaveRequestId = repair.breathe_leave_request_id;
+
+  try {
+    await flip.patchAbsenceRequestExternalId(flipId, String(leaveRequestId));
+    await store.remove(flipId);
+    console.log(`[PendingRepair] Patched Flip request ${flipId} with leave request ${leaveRequestId}`);
+    return 'patched';
+  } catch (error) {
+    if (!isClientError(error)) {
+      await store.recordFailure(flipId, error instanceof Error ? error.message : String(error));
+      console.warn(`[PendingRepair] Flip request ${flipId} still unpatched:`, error);
+      return 'pending';
+    }
+    console.warn(
+      `[PendingRepair] Flip refused the patch for ${flipId}, rolling back leave request ${leaveRequestId}:`,
+      error
+    );
+  }
+
+  return rollbackCreation(repair, deps);
+}
+
+/**
+ * Compensate a creation Flip can't link: cancel the BreatheHR leave
+ * request and drop its link. If BreatheHR fails too, the entry stays for
+ * the next repair attempt.
+ */
+export async function rollbackCreation(
+  repair: PendingRepair,
+  deps: {
+    store: PendingRepairStore;
+    breathe: BreatheHRClient;
+    links: AbsenceLinkStore;
+  }
+): Promise<'rolled_back' | 'pending'> {
+  const { store, breathe, links } = deps;
+  const flipId = repair.flip_absence_request_id;
+  const leaveRequestId = repair.breathe_leave_request_id;
+
+  try {
+    await breathe.cancelLeaveRequest(leaveRequestId);
+  } catch (error) {
+    await store.recordFailure(
+      flipId,
+      `Rollback failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    console.error(`[PendingRepair] Could not roll back leave request ${leaveRequestId}:`, error);
+    return 'pending';
+  }
+
+  await links.removeLeaveRequest(leaveRequestId);
+  await store.remove(flipId);
+  console.log(`[PendingRepair] Rolled back leave request ${leaveRequestId} for Flip request ${flipId}`);
+  return 'rolled_back';
+}
+
+/**
+ * Attempt every pending repair once
+ */
+export async function repairPendingLinks(deps: {
+  store: PendingRepairStore;
+  breathe: BreatheHRClient;
+  flip: FlipClient;
+  links: AbsenceLinkStore;
+}): Promise<Record<RepairOutcome, number>> {
+  const counts: Record<RepairOutcome, number> = { patched: 0, rolled_back: 0, pending: 0 };
+  for (const repair of await deps.store.list()) {
+    counts[await repairPendingLink(repair, deps)]++;
+  }
+  return counts;
+}
+
+/**
+ * Give sync items of still-unrepaired leave requests their Flip request id,
+ * so the sync updates the original Flip request instead of creating a
+ * second one (and removing the original, which has no external id)
+ */
+export function applyPendingRepairIds(
+  items: FlipSyncAbsenceRequest[],
+  repairs: PendingRepair[]
+): void {
+  const flipIdByLeaveRequestId = new Map(
+    repairs.map((r) => [String(r.breathe_leave_request_id), r.flip_absence_request_id])
+  );
+  for (const item of items) {
+    const flipId = flipIdByLeaveRequestId.get(String(item.external_id));
+    if (flipId) item.id = flipId;
+  }
+}
@@ -0,0 +1,196 @@
+import type { Clients } from './clients';
+import type { BreatheHRClient } from './breathehr';
+import { diffPolicies, summarizeDiff, SyncDiff, SyncDiffSummary } from './sync-diff';
+import type { SyncRunOutcome } from './sync-runs';
+import type { FlipAbsencePolicy, FlipAbsencePolicySync } from './types';
+
+export interface StalePolicy {
+  id: string;
+  name: string;
+  external_id: string;
+}
+
+export interface PolicySyncResult {
+  status: 'ok';
+  synced_policies: string[];
+  assigned_users: number;
+  stale_policies?: StalePolicy[];
+  stale_note?: string;
+}
+
+export interface PolicySyncDryRun {
+  status: 'ok';
+  dry_run: true;
+  summary: SyncDiffSummary;
+  diff: SyncDiff<FlipAbsencePolicySync, FlipAbsencePolicy>;
+  would_assign: { policies: number; users: number };
+  stale_note?: string;
+}
+
+/**
+ * The Flip policies BreatheHR's leave types map to:
+ * - "Annual Leave" (the default holiday type) → policy with time_unit DAYS
+ * - "Other Leave Reasons" from BreatheHR → additional policies
+ *
+ * Each policy uses the BreatheHR ID as external_id for linking.
+ */
+export async function buildDesiredPolicies(
+  breathe: BreatheHRClient
+): Promise<FlipAbsencePolicySync[]> {
+  const desiredPolicies: FlipAbsencePolicySync[] = [
+    {
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      time_units: ['DAYS'],
+      external_id: 'annual_leave',
+    },
+  ];
+
+  const leaveReasonsResult = await breathe.listOtherLeaveReasons();
+  const leaveReasons = leaveReasonsResult.other_leave_reasons || [];
+
+  console.log(`[PolicySync] Found ${leaveReasons.length} other leave reasons in BreatheHR`);
+
+  for (const reason of leaveReasons) {
+    desiredPolicies.push({
+      name: reason.name,
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      time_units: ['DAYS'],
+      external_id: String(reason.id),
+    });
+  }
+
+  return desiredPolicies;
+}
+
+/**
+ * Policy sync job (POST /api/sync/policies, step 1 of /api/sync/all)
+ *
+ * Upserts the policies, assigns them to all mapped Flip users and reports
+ * stale policies in Flip (removed from BreatheHR) — Flip's API has no
+ * delete endpoint so they must be removed manually.
+ *
+ * With dryRun, compares the policies with Flip's current ones and returns
+ * the diff (create / update / stale) without writing anything.
+ * Throws on any BreatheHR or Flip failure, and before the next write once
+ * options.signal is aborted (e.g. the orchestrator's job timeout).
+ */
+export async function runPolicySync(
+  clients: Clients,
+  options: { dryRun?: boolean; signal?: AbortSignal } = {}
+): Promise<PolicySyncResult | PolicySyncDryRun> {
+  const { breathe, flip, userMapping } = clients;
+  const { signal } = options;
+
+  const desiredPolicies = await buildDesiredPolicies(breathe);
+
+  if (options.dryRun) {
+    const current = await flip.getAbsencePolicies();
+    const diff = diffPolicies(desiredPolicies, current.items || []);
+    const mappings = await userMapping.getAllMappings();
+    const summary = summarizeDiff(diff);
+    console.log(`[PolicySync] Dry run: ${JSON.stringify(summary)}`);
+
+    return {
+      status: 'ok',
+      dry_run: true,
+      summary,
+      diff,
+      would_assign: { policies: desiredPolicies.length, users: mappings.length },
+      stale_note: diff.remove.length > 0
+        ? 'Policies under "remove" were removed from BreatheHR but cannot be deleted via Flip API. They are only reported.'
+        : undefined,
+    };
+  }
+
+  const syncedPolicies: string[] = [];
+  const policyIds: string[] = [];
+
+  // Track valid external_ids so we can detect stale policies
+  const validExternalIds = new Set<string>();
+
+  for (const policy of desiredPolicies) {
+    validExternalIds.add(policy.external_id!);
+
+    signal?.throwIfAborted();
+    const result = await flip.syncAbsencePolicy(policy);
+    policyIds.push(result.id);
+    syncedPolicies.push(`${policy.name} (${result.id})`);
+    console.log(`[PolicySync] Synced policy "${policy.name}": ${result.id}`);
+  }
+
+  // Assign only active BreatheHR policies to all mapped users
+  const mappings = await userMapping.getAllMappings();
+  const flipUserIds = mappings.map((m) => m.flipUserId);
+
+  if (flipUserIds.length > 0) {
+    for (const policyId of policyIds) {
+      signal?.throwIfAborted();
+      await flip.assignPolicyToUsers(policyId, flipUserIds);
+      console.log(
+        `[PolicySync] Assigned policy ${policyId} to ${flipUserIds.length} users`
+      );
+    }
+  }
+
+  // Detect stale policies in Flip that no longer exist in BreatheHR
+  const allFlipPolicies = await flip.getAbsencePolicies();
+  const stalePolicies: StalePolicy[] = [];
+
+  for (const fp of allFlipPolicies.items || []) {
+    // Only flag policies whose external_id looks like a BreatheHR numeric ID
+    // (skip ones from other integrations that use different naming)
+    if (
+      fp.external_id &&
+      !validExternalIds.has(fp.external_id) &&
+      /^\d+$/.test(fp.external_id)
+    ) {
+      stalePolicies.push({
+        id: fp.id,
+        name: fp.name,
+        external_id: fp.external_id,
+      });
+    }
+  }
+
+  if (stalePolicies.length > 0) {
+    console.warn(
+      `[PolicySync] Found ${stalePolicies.length} stale policies in Flip ` +
+      `(removed from BreatheHR, no delete API available):`
+    );
+    for (const sp of stalePolicies) {
+      console.warn(`[PolicySync]   - "${sp.name}" (external_id=${sp.external_id})`);
+    }
+  }
+
+  console.log(`[PolicySync] Policy sync complete. Synced ${syncedPolicies.length} policies.`);
+
+  return {
+    status: 'ok',
+    synced_policies: syncedPolicies,
+    assigned_users: flipUserIds.length,
+    stale_policies: stalePolicies.length > 0 ? stalePolicies : undefined,
+    stale_note: stalePolicies.length > 0
+      ? 'These policies were removed from BreatheHR but cannot be deleted via Flip API. Remove them manually in Flip admin.'
+      : undefined,
+  };
+}
+
+/**
+ * Sync run history record of a policy sync (lib/sync-runs.ts)
+ */
+export function policyRunOutcome(result: PolicySyncResult | PolicySyncDryRun): SyncRunOutcome {
+  if ('dry_run' in result) {
+    return { status: 'ok', counts: { ...result.summary } };
+  }
+  return {
+    status: 'ok',
+    counts: {
+      synced: result.synced_policies.length,
+      assigned_users: result.assigned_users,
+      stale: result.stale_policies?.length || 0,
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Sliding Window Rate Limiter
+ *
+ * Lets at most `capacity` requests through in any `intervalMs` window:
+ * it remembers when the last `capacity` requests were sent, and the next
+ * one waits until the oldest of them is `intervalMs` old. Unlike a token
+ * bucket that starts full, a cold start can't send a burst on top of the
+ * interval's allowance. When the window is full, callers wait in FIFO
+ * order.
+ *
+ * One limiter is shared by every request a client makes, so concurrent
+ * calls within an invocation are throttled together.
+ */
+export interface RateLimiterOptions {
+  /** Requests allowed per interval */
+  capacity: number;
+  /** Interval length in milliseconds */
+  intervalMs: number;
+}
+
+export class RateLimiter {
+  private capacity: number;
+  private intervalMs: number;
+  /** When the requests of the current window were let through, oldest first */
+  private granted: number[] = [];
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimiterOptions) {
+    this.capacity = Math.max(1, options.capacity);
+    this.intervalMs = Math.max(1, options.intervalMs);
+  }
+
+  /**
+   * Wait until a request may be sent
+   */
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Number of callers currently waiting for a turn
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    while (this.granted.length > 0 && this.granted[0] + this.intervalMs <= now) {
+      this.granted.shift();
+    }
+
+    while (this.queue.length > 0 && this.granted.length < this.capacity) {
+      this.granted.push(now);
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = this.granted[0] + this.intervalMs - now;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'reconcile_actions';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export type ReconcileActionType =
+  | 'patch_external_id'
+  | 'approve'
+  | 'reject'
+  | 'cancel'
+  | 'queue_review';
+
+export interface ReconcileAction {
+  id: string;
+  run_id: string;
+  action: ReconcileActionType;
+  flip_user_id: string;
+  breathe_employee_id: number;
+  flip_absence_request_id: string | null;
+  external_id: string | null;
+  result: 'ok' | 'failed';
+  error?: string;
+  /** Why the item was queued for review */
+  note?: string;
+  /** Flip request state before the action, and after it (null when unknown) */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  at: string;
+}
+
+/**
+ * Reconcile Action Log
+ *
+ * Every change the reconciler makes (or tries to make) in Flip, with the
+ * Flip request's state before and after. Read it through
+ * GET /api/admin/reconcile-actions. Only the newest `maxEntries` are kept.
+ */
+export class ReconcileActionLog {
+  private storage: StorageBackend;
+  private maxEntries: number;
+
+  constructor(storage?: StorageBackend, options?: { maxEntries?: number }) {
+    this.storage = storage || getStorage();
+    this.maxEntries = options?.maxEntries || DEFAULT_MAX_ENTRIES;
+  }
+
+  async record(action: Omit<ReconcileAction, 'id' | 'at'>): Promise<ReconcileAction> {
+    const entry: ReconcileAction = { ...action, id: randomUUID(), at: new Date().toISOString() };
+    await this.storage.put(COLLECTION, entry.id, entry);
+    await this.prune();
+    return entry;
+  }
+
+  /**
+   * List actions, newest first (optionally for one run)
+   */
+  async list(filters?: { runId?: string; limit?: number }): Promise<ReconcileAction[]> {
+    const entries = await this.storage.list<ReconcileAction>(COLLECTION);
+    return entries
+      .filter((e) => !filters?.runId || e.run_id === filters.runId)
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .slice(0, filters?.limit ?? entries.length);
+  }
+
+  private async prune(): Promise<void> {
+    const entries = await this.list();
+    for (const stale of entries.slice(this.maxEntries)) {
+      await this.storage.delete(COLLECTION, stale.id);
+    }
+  }
+}
@@ -0,0 +1,506 @@
+import { randomUUID } from 'crypto';
+import type { BreatheHRClient } from './breathehr';
+import type { FlipClient } from './flip';
+import { AbsenceLinkStore } from './link-store';
+import { buildEmployeeSyncItems, EmployeeSyncItems, pushSyncItems } from './absence-sync';
+import { mapConcurrent } from './concurrency';
+import { jobLockTtlMs, SharedLock } from './lock';
+import { PendingRepairStore } from './pending-repair';
+import { resolveApprover } from './approver';
+import { ReconcileActionLog, ReconcileActionType } from './reconcile-log';
+import { ReviewQueueStore, ReviewReason } from './review-queue';
+import type {
+  AbsenceRequestStatus,
+  FlipAbsenceRequest,
+  FlipSyncAbsenceRequest,
+  UserMapping,
+} from './types';
+
+/** Flip statuses that still count as leave being taken */
+const ACTIVE_STATUSES = new Set<AbsenceRequestStatus>(['PENDING', 'APPROVED']);
+
+export interface ReconcileEmployeeResult {
+  flip_user_id: string;
+  breathe_employee_id: number;
+  breathe_ref: string;
+  status: 'ok' | 'error';
+  fixed: number;
+  failed: number;
+  queued: number;
+  error?: string;
+}
+
+export interface ReconcileRunResult {
+  run_id: string;
+  started_at: string;
+  finished_at: string;
+  fixed: number;
+  failed: number;
+  queued: number;
+  errors: number;
+  employees: ReconcileEmployeeResult[];
+}
+
+/**
+ * Self-healing Reconciler
+ *
+ * Compares each mapped employee's Flip absence requests with BreatheHR
+ * and repairs the drift that has exactly one safe fix:
+ *
+ *   - Flip request without external id → patch it, when a stored link or
+ *     a single BreatheHR leave on the same dates identifies it; that also
+ *     settles a webhook creation parked for repair (lib/pending-repair.ts)
+ *   - Flip PENDING, BreatheHR approved/rejected → approve/reject in Flip,
+ *     which notifies the user (same as /api/sync/approval-check)
+ *   - active Flip request whose BreatheHR leave was deleted or cancelled
+ *     → set CANCELLED through a sync scoped to that user, which pushes
+ *     every other request of theirs back unchanged
+ *
+ * The writes take the lock of the job that normally makes them (lib/lock.ts):
+ * "approval-check" for approve/reject, "sync" for the cancel sync. While
+ * that job runs, the write fails and is retried by the next run.
+ *
+ * Anything ambiguous (several candidate leave requests, conflicting final
+ * statuses, external ids that aren't BreatheHR ids, ...) goes to the
+ * review queue instead. Every action — including queuing — is written to
+ * the action log with the Flip request's state before and after.
+ *
+ * Data drift (dates, policies, half days) is left to the absence sync.
+ */
+export class Reconciler {
+  private breathe: BreatheHRClient;
+  private flip: FlipClient;
+  private links: AbsenceLinkStore;
+  private reviewQueue: ReviewQueueStore;
+  private actionLog: ReconcileActionLog;
+  private batchSize: number;
+  private concurrency: number;
+  private locks: SharedLock;
+  private lockTtlMs: number;
+  private pendingRepairs: PendingRepairStore;
+  private managerCache = new Map<string, string>();
+
+  constructor(
+    breathe: BreatheHRClient,
+    flip: FlipClient,
+    options?: {
+      links?: AbsenceLinkStore;
+      reviewQueue?: ReviewQueueStore;
+      actionLog?: ReconcileActionLog;
+      batchSize?: number;
+      /** Employees reconciled at once */
+      concurrency?: number;
+      locks?: SharedLock;
+      /** Lease TTL of the write locks; defaults to jobLockTtlMs() */
+      lockTtlMs?: number;
+      pendingRepairs?: PendingRepairStore;
+    }
+  ) {
+    this.breathe = breathe;
+    this.flip = flip;
+    this.links = options?.links || new AbsenceLinkStore();
+    this.reviewQueue = options?.reviewQueue || new ReviewQueueStore();
+    this.actionLog = options?.actionLog || new ReconcileActionLog();
+    this.batchSize = options?.batchSize || 100;
+    this.concurrency = options?.concurrency || 1;
+    this.locks = options?.locks || new SharedLock();
+    this.lockTtlMs = options?.lockTtlMs || jobLockTtlMs();
+    this.pendingRepairs = options?.pendingRepairs || new PendingRepairStore();
+  }
+
+  /**
+   * Reconcile every mapping, `concurrency` at a time; results keep the
+   * mapping order. One employee's failure doesn't stop the run.
+   */
+  async run(
+    mappings: UserMapping[],
+    policyByExternalId: Map<string, string>
+  ): Promise<ReconcileRunResult> {
+    const runId = randomUUID();
+    const startedAt = new Date().toISOString();
+    const employees = await mapConcurrent(mappings, this.concurrency, (mapping) =>
+      this.reconcileEmployee(runId, mapping, policyByExternalId)
+    );
+
+    const sum = (field: 'fixed' | 'failed' | 'queued') =>
+      employees.reduce((total, e) => total + e[field], 0);
+
+    return {
+      run_id: runId,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      fixed: sum('fixed'),
+      failed: sum('failed'),
+      queued: sum('queued'),
+      errors: employees.filter((e) => e.status === 'error').length,
+      employees,
+    };
+  }
+
+  async reconcileEmployee(
+    runId: string,
+    mapping: UserMapping,
+    policyByExternalId: Map<string, string>
+  ): Promise<ReconcileEmployeeResult> {
+    const result: ReconcileEmployeeResult = {
+      flip_user_id: mapping.flipUserId,
+      breathe_employee_id: mapping.breatheEmployeeId,
+      breathe_ref: mapping.breatheRef,
+      status: 'ok',
+      fixed: 0,
+      failed: 0,
+      queued: 0,
+    };
+    const ctx = { runId, mapping, result };
+
+    let built: EmployeeSyncItems;
+    let flipRequests: FlipAbsenceRequest[];
+    try {
+      built = await buildEmployeeSyncItems(this.breathe, this.links, mapping, policyByExternalId);
+      flipRequests = await this.flip.getAllAbsenceRequests(mapping.flipUserId);
+    } catch (error) {
+      console.error(
+        `[Reconciler] Error fetching data for employee ${mapping.breatheEmployeeId}, skipping:`,
+        error
+      );
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    }
+
+    const itemByExternalId = new Map(built.items.map((i) => [String(i.external_id), i]));
+    const claimedExternalIds = new Set(
+      flipRequests.filter((r) => r.external_id).map((r) => r.external_id!)
+    );
+
+    // 1. Flip requests that lost (or never got) their external id
+    for (const request of flipRequests.filter((r) => !r.external_id)) {
+      const match = await this.findExternalId(request, built, claimedExternalIds);
+      if (!match.externalId) {
+        await this.queue(ctx, request, 'missing_external_id', match.reason, {
+          candidates: match.candidates,
+        });
+        continue;
+      }
+
+      const externalId = match.externalId;
+      const patched = await this.act(ctx, 'patch_external_id', request, async () => {
+        await this.flip.patchAbsenceRequestExternalId(request.id, externalId);
+        return this.refetch(externalId);
+      });
+      if (patched) {
+        await this.pendingRepairs.remove(request.id);
+        request.external_id = externalId;
+        claimedExternalIds.add(externalId);
+      }
+    }
+
+    // 2. Status drift and requests whose BreatheHR leave is gone
+    const toCancel = new Set<string>();
+    for (const request of flipRequests.filter((r) => r.external_id)) {
+      const externalId = request.external_id!;
+      const item = itemByExternalId.get(externalId);
+
+      if (item) {
+        if (item.status === request.status) continue;
+
+        if (request.status === 'PENDING' && (item.status === 'APPROVED' || item.status === 'REJECTED')) {
+          await this.decide(ctx, request, item.status);
+        } else if (item.status === 'CANCELLED' && ACTIVE_STATUSES.has(request.status)) {
+          toCancel.add(request.id);
+        } else {
+          await this.queue(
+            ctx,
+            request,
+            'status_conflict',
+            `Flip has ${request.status}, BreatheHR has ${item.status}; approve/reject can't change a decided request`,
+            { breathe_status: item.status }
+          );
+        }
+        continue;
+      }
+
+      if (!ACTIVE_STATUSES.has(request.status)) continue;
+
+      if (!/^\d+$/.test(externalId)) {
+        await this.queue(
+          ctx,
+          request,
+          'unknown_external_id',
+          `External id "${externalId}" is not a BreatheHR id`
+        );
+        continue;
+      }
+
+      if (built.absenceIds.some((id) => String(id) === externalId)) {
+        await this.queue(
+          ctx,
+          request,
+          'unlinked_leave_request',
+          `BreatheHR absence ${externalId} exists but now syncs under a different external id`
+        );
+        continue;
+      }
+
+      const leaveRequest = built.leaveRequests.find((lr) => String(lr.id) === externalId);
+      const lrStatus = ((leaveRequest?.status || '') as string).toLowerCase();
+      if (!leaveRequest || lrStatus === 'cancelled' || lrStatus === 'canceled') {
+        toCancel.add(request.id);
+      } else {
+        await this.queue(
+          ctx,
+          request,
+          'unlinked_leave_request',
+          `BreatheHR leave request ${externalId} is "${lrStatus}" but no absence resolves to it`,
+          { breathe_status: lrStatus }
+        );
+      }
+    }
+
+    // 3. Cancel through a sync scoped to this user
+    if (toCancel.size > 0) {
+      await this.cancelRequests(ctx, toCancel);
+    }
+
+    console.log(
+      `[Reconciler] Employee ${mapping.breatheEmployeeId}: ` +
+        `fixed ${result.fixed}, failed ${result.failed}, queued ${result.queued}`
+    );
+    return result;
+  }
+
+  /**
+   * Work out the external id of a Flip request that has none: the stored
+   * link first, else the only unclaimed BreatheHR leave on the same dates
+   */
+  private async findExternalId(
+    request: FlipAbsenceRequest,
+    built: EmployeeSyncItems,
+    claimedExternalIds: Set<string>
+  ): Promise<{ externalId: string | null; reason: string; candidates: string[] }> {
+    const link = await this.links.findByFlipRequestId(request.id);
+    if (link) {
+      return { externalId: String(link.breatheLeaveRequestId), reason: 'stored link', candidates: [] };
+    }
+
+    const candidates = built.items
+      .filter(
+        (i) =>
+          !claimedExternalIds.has(String(i.external_id)) &&
+          day(i.starts_from.date) === day(request.starts_from?.date) &&
+          day(i.ends_at.date) === day(request.ends_at?.date)
+      )
+      .map((i) => String(i.external_id));
+
+    if (candidates.length === 1) {
+      return { externalId: candidates[0], reason: 'date match', candidates };
+    }
+    return {
+      externalId: null,
+      reason:
+        candidates.length === 0
+          ? 'No BreatheHR leave on the same dates'
+          : `${candidates.length} BreatheHR leave entries on the same dates`,
+      candidates,
+    };
+  }
+
+  private async decide(
+    ctx: ReconcileContext,
+    request: FlipAbsenceRequest,
+    status: 'APPROVED' | 'REJECTED'
+  ): Promise<void> {
+    await this.act(ctx, status === 'APPROVED' ? 'approve' : 'reject', request, () =>
+      this.locks.run('approval-check', this.lockTtlMs, async () => {
+        const approver = await resolveApprover(this.flip, request.absentee, this.managerCache);
+        const identifier = { absence_request_id: request.id };
+        if (status === 'APPROVED') {
+          await this.flip.approveAbsenceRequest(approver, identifier);
+        } else {
+          await this.flip.rejectAbsenceRequest(approver, identifier);
+        }
+        return this.refetch(request.external_id!);
+      })
+    );
+  }
+
+  /**
+   * Push the user's current Flip requests back unchanged, except the ones
+   * to cancel, in a sync scoped to that user. The list is re-read first so
+   * the approvals and patches made above are not reverted.
+   */
+  private async cancelRequests(ctx: ReconcileContext, toCancel: Set<string>): Promise<void> {
+    const { mapping } = ctx;
+    let latest: FlipAbsenceRequest[] = [];
+    let error: string | undefined;
+
+    try {
+      await this.locks.run('sync', this.lockTtlMs, async () => {
+        latest = await this.flip.getAllAbsenceRequests(mapping.flipUserId);
+        const items = latest.map((r) => toSyncItem(r, toCancel.has(r.id) ? 'CANCELLED' : r.status));
+
+        const syncId = (await this.flip.startAbsenceRequestSync(mapping.flipUserId)).sync_id;
+        try {
+          await pushSyncItems(this.flip, syncId, items, this.batchSize);
+          await this.flip.completeAbsenceRequestSync(syncId);
+        } catch (err) {
+          try {
+            await this.flip.cancelAbsenceRequestSync(syncId);
+          } catch (cancelError) {
+            console.error('[Reconciler] Failed to cancel sync:', cancelError);
+          }
+          throw err;
+        }
+      });
+    } catch (err) {
+      console.error(`[Reconciler] Cancel sync for employee ${mapping.breatheEmployeeId} failed:`, err);
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    let after: FlipAbsenceRequest[] = [];
+    if (!error) {
+      try {
+        after = await this.flip.getAllAbsenceRequests(mapping.flipUserId);
+      } catch (err) {
+        console.warn('[Reconciler] Could not re-read Flip requests after cancelling:', err);
+      }
+    }
+
+    for (const id of toCancel) {
+      const before = latest.find((r) => r.id === id) || null;
+      await this.log(ctx, 'cancel', before, {
+        flipAbsenceRequestId: id,
+        after: error ? null : snapshot(after.find((r) => r.id === id) || null),
+        error,
+      });
+    }
+  }
+
+  /**
+   * Run one repair and log it with the request's before/after state
+   */
+  private async act(
+    ctx: ReconcileContext,
+    action: ReconcileActionType,
+    request: FlipAbsenceRequest,
+    fn: () => Promise<FlipAbsenceRequest | null>
+  ): Promise<boolean> {
+    const before = { ...request };
+    try {
+      const after = await fn();
+      await this.log(ctx, action, before, { after: snapshot(after) });
+      return true;
+    } catch (error) {
+      console.error(`[Reconciler] ${action} failed for Flip request ${request.id}:`, error);
+      await this.log(ctx, action, before, {
+        after: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private async queue(
+    ctx: ReconcileContext,
+    request: FlipAbsenceRequest,
+    reason: ReviewReason,
+    message: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.reviewQueue.add({
+      reason,
+      message,
+      flipUserId: ctx.mapping.flipUserId,
+      breatheEmployeeId: ctx.mapping.breatheEmployeeId,
+      flipAbsenceRequestId: request.id,
+      externalId: request.external_id ?? null,
+      details: { ...details, flip_request: snapshot(request) },
+    });
+    await this.log(ctx, 'queue_review', request, { after: null, reason });
+  }
+
+  private async log(
+    ctx: ReconcileContext,
+    action: ReconcileActionType,
+    before: FlipAbsenceRequest | null,
+    extra: {
+      after: Record<string, unknown> | null;
+      flipAbsenceRequestId?: string;
+      error?: string;
+      reason?: string;
+    }
+  ): Promise<void> {
+    if (action === 'queue_review') {
+      ctx.result.queued++;
+    } else if (extra.error) {
+      ctx.result.failed++;
+    } else {
+      ctx.result.fixed++;
+    }
+
+    await this.actionLog.record({
+      run_id: ctx.runId,
+      action,
+      flip_user_id: ctx.mapping.flipUserId,
+      breathe_employee_id: ctx.mapping.breatheEmployeeId,
+      flip_absence_request_id: before?.id ?? extra.flipAbsenceRequestId ?? null,
+      external_id: before?.external_id ?? null,
+      result: extra.error ? 'failed' : 'ok',
+      error: extra.error,
+      note: extra.reason,
+      before: snapshot(before),
+      after: extra.after,
+    });
+  }
+
+  private async refetch(externalId: string): Promise<FlipAbsenceRequest | null> {
+    try {
+      return await this.flip.getAbsenceRequestByExternalId(externalId);
+    } catch (error) {
+      console.warn(`[Reconciler] Could not re-read Flip request ${externalId}:`, error);
+      return null;
+    }
+  }
+}
+
+interface ReconcileContext {
+  runId: string;
+  mapping: UserMapping;
+  result: ReconcileEmployeeResult;
+}
+
+function day(date: string | undefined): string | null {
+  return date ? date.slice(0, 10) : null;
+}
+
+function snapshot(request: FlipAbsenceRequest | null): Record<string, unknown> | null {
+  if (!request) return null;
+  return {
+    id: request.id,
+    external_id: request.external_id ?? null,
+    status: request.status,
+    approver: request.approver ?? null,
+    policy_id: request.policy_id,
+    starts_from: request.starts_from,
+    ends_at: request.ends_at,
+  };
+}
+
+/**
+ * A Flip request as a sync item that keeps it exactly as it is (apart from `status`)
+ */
+function toSyncItem(request: FlipAbsenceRequest, status: AbsenceRequestStatus): FlipSyncAbsenceRequest {
+  return {
+    id: request.id,
+    external_id: request.external_id ?? null,
+    approver: request.approver ?? null,
+    absentee: request.absentee,
+    duration: request.duration,
+    policy: { id: request.policy_id },
+    requestor_comment: request.requestor_comment ?? null,
+    status,
+    last_updated: request.updated_at,
+    starts_from: { date: request.starts_from.date, type: request.starts_from.type },
+    ends_at: { date: request.ends_at.date, type: request.ends_at.type },
+  };
+}
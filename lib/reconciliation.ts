@@ -0,0 +1,243 @@
+import type { BreatheHRClient } from './breathehr';
+import type { FlipClient } from './flip';
+import type { AbsenceLinkStore } from './link-store';
+import { buildEmployeeSyncItems } from './absence-sync';
+import { mapConcurrent } from './concurrency';
+import { diffAbsenceRequests, FieldChange } from './sync-diff';
+import { UserMapping } from './types';
+
+/** Fields that count as a BreatheHR ↔ Flip mismatch (comments do not) */
+const RECONCILED_FIELDS = new Set([
+  'status',
+  'start_date',
+  'end_date',
+  'start_half',
+  'end_half',
+  'policy_id',
+  'duration',
+]);
+
+export type ReconciliationIssueKind = 'mismatch' | 'missing_in_flip' | 'missing_in_breathe';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  /** BreatheHR leave request id (or absence id for leave without one) */
+  external_id: string | null;
+  flip_absence_request_id: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  breathe_status: string | null;
+  flip_status: string | null;
+  changes: FieldChange[];
+}
+
+export interface EmployeeReconciliation {
+  flip_user_id: string;
+  breathe_employee_id: number;
+  breathe_ref: string;
+  status: 'ok' | 'issues' | 'error';
+  matched: number;
+  issues: ReconciliationIssue[];
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  generated_at: string;
+  summary: {
+    employees: number;
+    matched: number;
+    mismatch: number;
+    missing_in_flip: number;
+    missing_in_breathe: number;
+    errors: number;
+  };
+  employees: EmployeeReconciliation[];
+}
+
+/**
+ * Reconciliation Report
+ *
+ * For every user mapping, compares BreatheHR's absences and leave requests
+ * (as the absence sync would push them) with the employee's Flip absence
+ * requests, matched by external id. Lists:
+ *
+ *   - mismatch           → status, dates, half days, policy or duration differ
+ *   - missing_in_flip    → BreatheHR leave that never reached Flip
+ *   - missing_in_breathe → Flip requests with no BreatheHR counterpart
+ *
+ * A mismatch's `changes` hold Flip's value as `from` and BreatheHR's as
+ * `to` — what the next absence sync would write.
+ *
+ * Read-only. An employee whose data can't be fetched is reported with
+ * status "error" and the rest of the report still runs. Up to
+ * `concurrency` employees (default 1) are compared at once; the report
+ * keeps the mapping order.
+ */
+export async function buildReconciliationReport(params: {
+  breathe: BreatheHRClient;
+  flip: FlipClient;
+  links: AbsenceLinkStore;
+  mappings: UserMapping[];
+  policyByExternalId: Map<string, string>;
+  concurrency?: number;
+}): Promise<ReconciliationReport> {
+  const employees = await mapConcurrent(params.mappings, params.concurrency ?? 1, (mapping) =>
+    reconcileEmployee({ ...params, mapping })
+  );
+
+  const count = (kind: ReconciliationIssueKind) =>
+    employees.reduce((sum, e) => sum + e.issues.filter((i) => i.kind === kind).length, 0);
+
+  return {
+    generated_at: new Date().toISOString(),
+    summary: {
+      employees: employees.length,
+      matched: employees.reduce((sum, e) => sum + e.matched, 0),
+      mismatch: count('mismatch'),
+      missing_in_flip: count('missing_in_flip'),
+      missing_in_breathe: count('missing_in_breathe'),
+      errors: employees.filter((e) => e.status === 'error').length,
+    },
+    employees,
+  };
+}
+
+async function reconcileEmployee(params: {
+  breathe: BreatheHRClient;
+  flip: FlipClient;
+  links: AbsenceLinkStore;
+  mapping: UserMapping;
+  policyByExternalId: Map<string, string>;
+}): Promise<EmployeeReconciliation> {
+  const { mapping } = params;
+  const result: EmployeeReconciliation = {
+    flip_user_id: mapping.flipUserId,
+    breathe_employee_id: mapping.breatheEmployeeId,
+    breathe_ref: mapping.breatheRef,
+    status: 'ok',
+    matched: 0,
+    issues: [],
+  };
+
+  try {
+    const { items } = await buildEmployeeSyncItems(
+      params.breathe,
+      params.links,
+      mapping,
+      params.policyByExternalId
+    );
+    const flipRequests = await params.flip.getAllAbsenceRequests(mapping.flipUserId);
+    const diff = diffAbsenceRequests(items, flipRequests, params.policyByExternalId, () => true);
+
+    result.matched = diff.unchanged;
+
+    for (const { current, desired, changes } of diff.update) {
+      const reconciled = changes.filter((c) => RECONCILED_FIELDS.has(c.field));
+      if (reconciled.length === 0) {
+        result.matched++;
+        continue;
+      }
+      result.issues.push({
+        kind: 'mismatch',
+        external_id: desired.external_id ?? null,
+        flip_absence_request_id: current.id,
+        start_date: day(desired.starts_from.date),
+        end_date: day(desired.ends_at.date),
+        breathe_status: desired.status,
+        flip_status: current.status,
+        changes: reconciled,
+      });
+    }
+
+    for (const item of diff.create) {
+      result.issues.push({
+        kind: 'missing_in_flip',
+        external_id: item.external_id ?? null,
+        flip_absence_request_id: null,
+        start_date: day(item.starts_from.date),
+        end_date: day(item.ends_at.date),
+        breathe_status: item.status,
+        flip_status: null,
+        changes: [],
+      });
+    }
+
+    for (const request of diff.remove) {
+      result.issues.push({
+        kind: 'missing_in_breathe',
+        external_id: request.external_id ?? null,
+        flip_absence_request_id: request.id,
+        start_date: day(request.starts_from?.date),
+        end_date: day(request.ends_at?.date),
+        breathe_status: null,
+        flip_status: request.status,
+        changes: [],
+      });
+    }
+  } catch (error) {
+    console.error(
+      `[Reconciliation] Error reconciling employee ${mapping.breatheEmployeeId}:`,
+      error
+    );
+    result.status = 'error';
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+
+  result.status = result.issues.length > 0 ? 'issues' : 'ok';
+  return result;
+}
+
+function day(date: string | undefined): string | null {
+  return date ? date.slice(0, 10) : null;
+}
+
+/**
+ * Flatten a report to CSV: one row per issue, plus one per employee that
+ * could not be reconciled (kind "error")
+ */
+export function reconciliationReportToCsv(report: ReconciliationReport): string {
+  const rows: unknown[][] = [
+    [
+      'flip_user_id',
+      'breathe_employee_id',
+      'breathe_ref',
+      'kind',
+      'external_id',
+      'flip_absence_request_id',
+      'start_date',
+      'end_date',
+      'breathe_status',
+      'flip_status',
+      'differences',
+    ],
+  ];
+
+  for (const employee of report.employees) {
+    const who = [employee.flip_user_id, employee.breathe_employee_id, employee.breathe_ref];
+    if (employee.status === 'error') {
+      rows.push([...who, 'error', '', '', '', '', '', '', employee.error]);
+      continue;
+    }
+    for (const issue of employee.issues) {
+      rows.push([
+        ...who,
+        issue.kind,
+        issue.external_id,
+        issue.flip_absence_request_id,
+        issue.start_date,
+        issue.end_date,
+        issue.breathe_status,
+        issue.flip_status,
+        issue.changes.map((c) => `${c.field}: ${c.from ?? ''} → ${c.to ?? ''}`).join('; '),
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
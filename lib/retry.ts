@@ -0,0 +1,141 @@
+/**
+ * Retry Policy for upstream HTTP calls (BreatheHR and Flip)
+ *
+ * Which requests are retried:
+ *   - Idempotent methods (GET, HEAD, PUT, DELETE, OPTIONS) on network
+ *     errors and on 408 / 429 / 500 / 502 / 503 / 504.
+ *   - Any method on 429 — a rate-limited request was not processed,
+ *     so resending it cannot apply it twice.
+ *   - Callers can opt a single call in (`retry: true`, e.g. an upsert
+ *     POST) or out (`retry: false`, e.g. creating a leave request).
+ *
+ * Delays use exponential backoff with full jitter. On 429 and 503 a
+ * Retry-After header (seconds or HTTP date) takes precedence; if it asks
+ * for longer than `maxRetryAfterMs` we give up rather than wait.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface RetryOptions {
+  method: string;
+  /** Force retries on (true) or off (false); default depends on the method */
+  retry?: boolean;
+  policy?: RetryPolicy;
+  /** Log prefix, e.g. "[BreatheHR]" */
+  label?: string;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Run `send` until it returns a non-retryable response or attempts run out.
+ *
+ * Returns the last response (the caller decides what a non-2xx means) and
+ * rethrows the last network error if every attempt failed to connect.
+ */
+export async function fetchWithRetry(
+  send: () => Promise<Response>,
+  options: RetryOptions
+): Promise<Response> {
+  const policy = options.policy || DEFAULT_RETRY_POLICY;
+  const label = options.label || '[HTTP]';
+  const sleep = options.sleep || defaultSleep;
+  const method = options.method.toUpperCase();
+  const idempotent = options.retry ?? IDEMPOTENT_METHODS.has(method);
+  const maxAttempts = options.retry === false ? 1 : Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await send();
+    } catch (networkError) {
+      if (!idempotent || attempt >= maxAttempts) throw networkError;
+      const delay = computeBackoff(attempt, policy, options.random);
+      console.warn(
+        `${label} Network error on attempt ${attempt}/${maxAttempts}: ` +
+          `${networkError instanceof Error ? networkError.message : networkError}. ` +
+          `Retrying in ${delay}ms`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok || attempt >= maxAttempts || !RETRYABLE_STATUSES.has(response.status)) {
+      return response;
+    }
+    if (!idempotent && response.status !== 429) {
+      return response;
+    }
+
+    let delay = computeBackoff(attempt, policy, options.random);
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== null) {
+        if (retryAfter > policy.maxRetryAfterMs) {
+          console.warn(
+            `${label} ${response.status} with Retry-After ${retryAfter}ms — longer than ` +
+              `${policy.maxRetryAfterMs}ms, not retrying`
+          );
+          return response;
+        }
+        delay = retryAfter;
+      }
+    }
+
+    console.warn(
+      `${label} ${response.status} on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms`
+    );
+    // Release the connection before trying again
+    await response.text().catch(() => undefined);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Exponential backoff with full jitter: random(0, min(max, base * 2^(attempt-1)))
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header into milliseconds (null if absent or invalid)
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
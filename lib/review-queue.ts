@@ -0,0 +1,122 @@
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'review_queue';
+
+export type ReviewStatus = 'open' | 'resolved' | 'dismissed';
+
+export type ReviewReason =
+  | 'missing_external_id'
+  | 'status_conflict'
+  | 'unlinked_leave_request'
+  | 'unknown_external_id';
+
+export interface ReviewItem {
+  id: string;
+  reason: ReviewReason;
+  message: string;
+  flip_user_id: string;
+  breathe_employee_id: number;
+  flip_absence_request_id: string | null;
+  external_id: string | null;
+  /** Flip / BreatheHR state when the item was last seen */
+  details: Record<string, unknown>;
+  status: ReviewStatus;
+  times_seen: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  resolved_at?: string;
+  note?: string;
+}
+
+/**
+ * Review Queue
+ *
+ * Drift the reconciler will not fix on its own — a Flip request that
+ * could belong to several BreatheHR leave requests, statuses that can't
+ * be moved through approve/reject, ... — is queued here for a person to
+ * look at (GET /api/admin/review-queue).
+ *
+ * Entries are keyed on reason + Flip request (or external) id, so a drift
+ * seen on every scheduled run updates one open entry instead of piling up.
+ * Once resolved or dismissed, the same drift opens a fresh entry.
+ */
+export class ReviewQueueStore {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  async add(item: {
+    reason: ReviewReason;
+    message: string;
+    flipUserId: string;
+    breatheEmployeeId: number;
+    flipAbsenceRequestId?: string | null;
+    externalId?: string | null;
+    details?: Record<string, unknown>;
+  }): Promise<ReviewItem> {
+    const id = `${item.reason}:${item.flipAbsenceRequestId || item.externalId}`;
+    const now = new Date().toISOString();
+
+    const stored = await this.storage.update<ReviewItem>(COLLECTION, id, (current) => {
+      if (current && current.status === 'open') {
+        return {
+          ...current,
+          message: item.message,
+          details: item.details || {},
+          times_seen: current.times_seen + 1,
+          last_seen_at: now,
+        };
+      }
+      return {
+        id,
+        reason: item.reason,
+        message: item.message,
+        flip_user_id: item.flipUserId,
+        breathe_employee_id: item.breatheEmployeeId,
+        flip_absence_request_id: item.flipAbsenceRequestId ?? null,
+        external_id: item.externalId ?? null,
+        details: item.details || {},
+        status: 'open',
+        times_seen: 1,
+        first_seen_at: now,
+        last_seen_at: now,
+      };
+    });
+
+    return stored!;
+  }
+
+  async get(id: string): Promise<ReviewItem | null> {
+    return this.storage.get<ReviewItem>(COLLECTION, id);
+  }
+
+  /**
+   * List review items, most recently seen first
+   */
+  async list(status?: ReviewStatus): Promise<ReviewItem[]> {
+    const items = await this.storage.list<ReviewItem>(COLLECTION);
+    return items
+      .filter((i) => !status || i.status === status)
+      .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+  }
+
+  async resolve(id: string, note?: string): Promise<ReviewItem | null> {
+    return this.close(id, 'resolved', note);
+  }
+
+  async dismiss(id: string, note?: string): Promise<ReviewItem | null> {
+    return this.close(id, 'dismissed', note);
+  }
+
+  private async close(
+    id: string,
+    status: ReviewStatus,
+    note?: string
+  ): Promise<ReviewItem | null> {
+    return this.storage.update<ReviewItem>(COLLECTION, id, (current) =>
+      current ? { ...current, status, note, resolved_at: new Date().toISOString() } : null
+    );
+  }
+}
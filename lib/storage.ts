@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getStorageConfig } from './config';
+
+/**
+ * Persistence Layer
+ *
+ * A minimal keyed document store used by the driver's own state (absence
+ * links, webhook bookkeeping, ...). Documents are grouped in collections
+ * and addressed by a string key.
+ *
+ * Backends:
+ *   - "file"   → one JSON file per collection under STORAGE_DIR (default)
+ *   - "memory" → process memory, lost on restart (tests / throwaway runs)
+ *
+ * A different backend (Redis, Postgres, ...) can be plugged in with
+ * setStorage() as long as it implements StorageBackend. `update` must be
+ * atomic for a single key — it is what claims and locks are built on.
+ */
+export interface StorageBackend {
+  get<T>(collection: string, key: string): Promise<T | null>;
+  put<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<void>;
+  list<T>(collection: string): Promise<T[]>;
+  /**
+   * Atomically read-modify-write one document. `fn` receives the current
+   * value (or null) and returns the new value, or null to delete it.
+   * Resolves with whatever is stored afterwards.
+   */
+  update<T>(
+    collection: string,
+    key: string,
+    fn: (current: T | null) => T | null
+  ): Promise<T | null>;
+}
+
+/**
+ * In-memory backend
+ */
+export class MemoryStorage implements StorageBackend {
+  private collections: Map<string, Map<string, unknown>> = new Map();
+
+  private collection(name: string): Map<string, unknown> {
+    let col = this.collections.get(name);
+    if (!col) {
+      col = new Map();
+      this.collections.set(name, col);
+    }
+    return col;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    const value = this.collection(collection).get(key);
+    return value === undefined ? null : clone(value as T);
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    this.collection(collection).set(key, clone(value));
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    this.collection(collection).delete(key);
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return Array.from(this.collection(collection).values()).map((v) => clone(v as T));
+  }
+
+  async update<T>(
+    collection: string,
+    key: string,
+    fn: (current: T | null) => T | null
+  ): Promise<T | null> {
+    const col = this.collection(collection);
+    const current = col.has(key) ? clone(col.get(key) as T) : null;
+    const next = fn(current);
+    if (next === null) {
+      col.delete(key);
+      return null;
+    }
+    col.set(key, clone(next));
+    return clone(next);
+  }
+}
+
+/**
+ * File backend — stores each collection as `<dir>/<collection>.json`.
+ *
+ * Operations on a collection are serialised within the process and files
+ * are replaced atomically (write to temp file, then rename), so a crash
+ * mid-write never leaves a truncated collection behind.
+ */
+export class FileStorage implements StorageBackend {
+  private dir: string;
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    return this.withCollection(collection, (docs) => {
+      const value = docs[key];
+      return { result: value === undefined ? null : (value as T) };
+    });
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.withCollection(collection, (docs) => {
+      docs[key] = value;
+      return { result: undefined, dirty: true };
+    });
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.withCollection(collection, (docs) => {
+      if (!(key in docs)) return { result: undefined };
+      delete docs[key];
+      return { result: undefined, dirty: true };
+    });
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return this.withCollection(collection, (docs) => ({
+      result: Object.values(docs) as T[],
+    }));
+  }
+
+  async update<T>(
+    collection: string,
+    key: string,
+    fn: (current: T | null) => T | null
+  ): Promise<T | null> {
+    return this.withCollection(collection, (docs) => {
+      const exists = key in docs;
+      // Serialized before `fn` runs, in case it edits `current` in place
+      const before = exists ? JSON.stringify(docs[key]) : undefined;
+      const current = exists ? (docs[key] as T) : null;
+      const next = fn(current);
+      if (next === null) {
+        delete docs[key];
+        return { result: next, dirty: exists };
+      }
+      docs[key] = next;
+      return { result: next, dirty: JSON.stringify(next) !== before };
+    });
+  }
+
+  /**
+   * Run an operation against a collection's documents, queued behind any
+   * other operation on the same collection. Writes back if `dirty`.
+   */
+  private withCollection<R>(
+    collection: string,
+    op: (docs: Record<string, unknown>) => { result: R; dirty?: boolean }
+  ): Promise<R> {
+    const previous = this.queues.get(collection) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const docs = await this.readCollection(collection);
+        const { result, dirty } = op(docs);
+        if (dirty) {
+          await this.writeCollection(collection, docs);
+        }
+        return result;
+      });
+    this.queues.set(collection, next);
+    return next;
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.dir, `${collection.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private async readCollection(collection: string): Promise<Record<string, unknown>> {
+    try {
+      const raw = await fs.readFile(this.filePath(collection), 'utf8');
+      return raw.trim() ? (JSON.parse(raw) as Record<string, unknown>) : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async writeCollection(
+    collection: string,
+    docs: Record<string, unknown>
+  ): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.filePath(collection);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(docs, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+  }
+}
+
+// ============================================================
+// Shared instance
+// ============================================================
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the process-wide storage backend, creating it from config on first use
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const config = getStorageConfig();
+    storage =
+      config.backend === 'memory' ? new MemoryStorage() : new FileStorage(config.dir);
+  }
+  return storage;
+}
+
+/**
+ * Replace the process-wide storage backend (external stores, tests)
+ */
+export function setStorage(backend: StorageBackend): void {
+  storage = backend;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
@@ -0,0 +1,188 @@
+import type {
+  FlipAbsenceDuration,
+  FlipAbsencePolicy,
+  FlipAbsencePolicySync,
+  FlipAbsenceRequest,
+  FlipSyncAbsenceRequest,
+  FlipSyncBalance,
+} from './types';
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SyncDiff<TDesired, TCurrent> {
+  create: TDesired[];
+  update: Array<{ key: string; current: TCurrent; desired: TDesired; changes: FieldChange[] }>;
+  remove: TCurrent[];
+  unchanged: number;
+}
+
+export interface SyncDiffSummary {
+  create: number;
+  update: number;
+  remove: number;
+  unchanged: number;
+}
+
+/** A Flip balance as returned by FlipClient.getBalances */
+export type FlipBalanceEntry = {
+  user_id: string;
+  policy_id: string;
+  balance: Record<string, unknown>;
+};
+
+/**
+ * Sync Diff
+ *
+ * Used by the dry-run mode of the policy, balance and absence syncs:
+ * compares what a sync would push (desired) against what Flip currently
+ * holds (current) and reports what would be created, changed or removed.
+ * Pure functions — fetching both sides is up to the caller.
+ */
+function diffByKey<TDesired, TCurrent>(params: {
+  desired: TDesired[];
+  current: TCurrent[];
+  desiredKey: (item: TDesired) => string;
+  currentKey: (item: TCurrent) => string | null;
+  compare: (desired: TDesired, current: TCurrent) => FieldChange[];
+  /** Whether an unmatched current item would be removed by the sync */
+  removable: (item: TCurrent) => boolean;
+}): SyncDiff<TDesired, TCurrent> {
+  const diff: SyncDiff<TDesired, TCurrent> = { create: [], update: [], remove: [], unchanged: 0 };
+
+  const currentByKey = new Map<string, TCurrent>();
+  for (const item of params.current) {
+    const key = params.currentKey(item);
+    if (key !== null) currentByKey.set(key, item);
+  }
+
+  const matched = new Set<TCurrent>();
+  for (const desired of params.desired) {
+    const key = params.desiredKey(desired);
+    const current = currentByKey.get(key);
+    if (!current) {
+      diff.create.push(desired);
+      continue;
+    }
+    matched.add(current);
+    const changes = params.compare(desired, current);
+    if (changes.length > 0) {
+      diff.update.push({ key, current, desired, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.remove = params.current.filter((item) => !matched.has(item) && params.removable(item));
+  return diff;
+}
+
+function formatDuration(duration: FlipAbsenceDuration): string {
+  return `${duration.amount} ${duration.unit}`;
+}
+
+function changed(field: string, from: unknown, to: unknown): FieldChange[] {
+  const normalize = (value: unknown) => (value === undefined ? null : value);
+  return normalize(from) === normalize(to) ? [] : [{ field, from: normalize(from), to: normalize(to) }];
+}
+
+/**
+ * Count the entries of a diff (for logs and response summaries)
+ */
+export function summarizeDiff(diff: SyncDiff<unknown, unknown>): SyncDiffSummary {
+  return {
+    create: diff.create.length,
+    update: diff.update.length,
+    remove: diff.remove.length,
+    unchanged: diff.unchanged,
+  };
+}
+
+/**
+ * Policies are matched by external_id. Flip has no delete endpoint, so
+ * "remove" lists the stale BreatheHR policies (numeric external_id) that
+ * the sync would only report.
+ */
+export function diffPolicies(
+  desired: FlipAbsencePolicySync[],
+  current: FlipAbsencePolicy[]
+): SyncDiff<FlipAbsencePolicySync, FlipAbsencePolicy> {
+  return diffByKey({
+    desired,
+    current,
+    desiredKey: (p) => String(p.external_id),
+    currentKey: (p) => p.external_id ?? null,
+    compare: (d, c) => [
+      ...changed('name', c.name, d.name),
+      ...changed('half_days_allowed', c.half_days_allowed, d.half_days_allowed),
+      ...changed('time_unit', c.time_unit, d.time_unit),
+    ],
+    removable: (p) => !!p.external_id && /^\d+$/.test(p.external_id),
+  });
+}
+
+/**
+ * Balances are matched by user and policy. The balance sync is an upsert,
+ * so nothing is ever removed.
+ */
+export function diffBalances(
+  desired: FlipSyncBalance[],
+  current: FlipBalanceEntry[]
+): SyncDiff<FlipSyncBalance, FlipBalanceEntry> {
+  return diffByKey({
+    desired,
+    current,
+    desiredKey: (b) => `${b.user_id}:${b.policy.id}`,
+    currentKey: (b) => `${b.user_id}:${b.policy_id}`,
+    compare: (d, c) => [
+      ...changed('total', c.balance.total, d.balance.total),
+      ...changed('available', c.balance.available, d.balance.available),
+      ...changed('taken', c.balance.taken, d.balance.taken),
+      ...changed('time_unit', c.balance.time_unit, d.balance.time_unit),
+    ],
+    removable: () => false,
+  });
+}
+
+/**
+ * Absence requests are matched by external_id. The absence sync is a full
+ * replacement: every current request in scope that is not pushed would be
+ * removed. `inScope` says whether the sync covers a request's absentee.
+ */
+export function diffAbsenceRequests(
+  desired: FlipSyncAbsenceRequest[],
+  current: FlipAbsenceRequest[],
+  policyByExternalId: Map<string, string>,
+  inScope: (request: FlipAbsenceRequest) => boolean
+): SyncDiff<FlipSyncAbsenceRequest, FlipAbsenceRequest> {
+  const day = (date: string | undefined) => (date ? date.slice(0, 10) : null);
+
+  return diffByKey({
+    desired,
+    current,
+    desiredKey: (r) => String(r.external_id),
+    currentKey: (r) => r.external_id ?? null,
+    compare: (d, c) => [
+      ...changed('status', c.status, d.status),
+      ...changed('start_date', day(c.starts_from?.date), day(d.starts_from?.date)),
+      ...changed('end_date', day(c.ends_at?.date), day(d.ends_at?.date)),
+      ...changed(
+        'policy_id',
+        c.policy_id,
+        d.policy.id ?? policyByExternalId.get(String(d.policy.external_id))
+      ),
+      ...changed('start_half', c.starts_from?.type, d.starts_from?.type),
+      ...changed('end_half', c.ends_at?.type, d.ends_at?.type),
+      // Leave requests are pushed without a duration (Flip keeps its
+      // own); only compare when both sides carry one
+      ...(c.duration && d.duration
+        ? changed('duration', formatDuration(c.duration), formatDuration(d.duration))
+        : []),
+      ...changed('requestor_comment', c.requestor_comment, d.requestor_comment),
+    ],
+    removable: inScope,
+  });
+}
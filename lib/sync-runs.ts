@@ -0,0 +1,248 @@
+import type { VercelRequest } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'sync_runs';
+
+const DEFAULT_MAX_RUNS = 500;
+
+export type SyncJobName =
+  | 'policies'
+  | 'balances'
+  | 'absences'
+  | 'approval-check'
+  | 'approval-status';
+
+export type SyncTrigger = 'cron' | 'manual' | 'webhook';
+
+export type SyncRunStatus = 'running' | 'ok' | 'partial' | 'failed' | 'cancelled';
+
+export interface EmployeeRunOutcome {
+  flip_user_id: string;
+  breathe_employee_id: number;
+  breathe_ref?: string;
+  status: 'ok' | 'failed';
+  /** Job-specific, e.g. items pushed or requests approved */
+  counts?: Record<string, number>;
+  error?: string;
+}
+
+/** What a finished job reports about its run */
+export interface SyncRunOutcome {
+  status: Exclude<SyncRunStatus, 'running'>;
+  counts: Record<string, number>;
+  errors?: string[];
+  sync_ids?: string[];
+  employees?: EmployeeRunOutcome[];
+}
+
+export interface SyncRun extends Omit<SyncRunOutcome, 'status'> {
+  id: string;
+  job: SyncJobName;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  errors: string[];
+  sync_ids: string[];
+  employees: EmployeeRunOutcome[];
+}
+
+export interface SyncRunFilter {
+  job?: SyncJobName;
+  status?: SyncRunStatus;
+  /** Flip user id, BreatheHR employee id or BreatheHR ref */
+  employee?: string;
+  limit?: number;
+}
+
+/**
+ * Sync Run History
+ *
+ * One record per policy, balance, absence, approval-check and
+ * approval-status run: when it ran, what triggered it, its counts and
+ * errors, the Flip sync ids it used, and the outcome for each employee.
+ * Read it through GET /api/sync/runs. Only the newest `maxRuns` are kept.
+ *
+ * A run is stored as "running" when it starts, so one that died midway
+ * is still visible (it never gets a finished_at).
+ */
+export class SyncRunStore {
+  private storage: StorageBackend;
+  private maxRuns: number;
+
+  constructor(storage?: StorageBackend, options?: { maxRuns?: number }) {
+    this.storage = storage || getStorage();
+    this.maxRuns = options?.maxRuns || DEFAULT_MAX_RUNS;
+  }
+
+  async start(job: SyncJobName, trigger: SyncTrigger, options?: { dryRun?: boolean }): Promise<SyncRun> {
+    const run: SyncRun = {
+      id: randomUUID(),
+      job,
+      trigger,
+      status: 'running',
+      dry_run: options?.dryRun ?? false,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      duration_ms: null,
+      counts: {},
+      errors: [],
+      sync_ids: [],
+      employees: [],
+    };
+    await this.storage.put(COLLECTION, run.id, run);
+    await this.prune();
+    return run;
+  }
+
+  async finish(id: string, outcome: SyncRunOutcome): Promise<SyncRun | null> {
+    const finishedAt = new Date();
+    return this.storage.update<SyncRun>(COLLECTION, id, (current) =>
+      current
+        ? {
+            ...current,
+            status: outcome.status,
+            counts: outcome.counts,
+            errors: outcome.errors || [],
+            sync_ids: outcome.sync_ids || [],
+            employees: outcome.employees || [],
+            finished_at: finishedAt.toISOString(),
+            duration_ms: finishedAt.getTime() - new Date(current.started_at).getTime(),
+          }
+        : null
+    );
+  }
+
+  async get(id: string): Promise<SyncRun | null> {
+    return this.storage.get<SyncRun>(COLLECTION, id);
+  }
+
+  /**
+   * List runs, newest first, optionally filtered
+   */
+  async list(filter?: SyncRunFilter): Promise<SyncRun[]> {
+    const runs = await this.storage.list<SyncRun>(COLLECTION);
+    const employee = filter?.employee;
+    return runs
+      .filter((r) => !filter?.job || r.job === filter.job)
+      .filter((r) => !filter?.status || r.status === filter.status)
+      .filter((r) => !employee || r.employees.some((e) => isEmployee(e, employee)))
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, filter?.limit ?? runs.length);
+  }
+
+  private async prune(): Promise<void> {
+    const runs = await this.list();
+    for (const stale of runs.slice(this.maxRuns)) {
+      await this.storage.delete(COLLECTION, stale.id);
+    }
+  }
+}
+
+/**
+ * Whether an outcome is for `employee` (Flip user id, BreatheHR employee
+ * id or BreatheHR ref)
+ */
+export function isEmployee(outcome: EmployeeRunOutcome, employee: string): boolean {
+  return (
+    outcome.flip_user_id === employee ||
+    outcome.breathe_ref === employee ||
+    String(outcome.breathe_employee_id) === employee
+  );
+}
+
+/**
+ * One error line per failed employee, for SyncRunOutcome.errors
+ */
+export function employeeRunErrors(employees: EmployeeRunOutcome[]): string[] {
+  return employees
+    .filter((e) => e.status === 'failed')
+    .map((e) => `Employee ${e.breathe_employee_id} (${e.breathe_ref || e.flip_user_id}): ${e.error}`);
+}
+
+/**
+ * What triggered a request: ?trigger=cron|manual|webhook when given, else
+ * "cron" for Vercel's cron user agent and "manual" for anything else
+ */
+export function getSyncTrigger(req: VercelRequest): SyncTrigger {
+  const explicit = req.query.trigger;
+  if (explicit === 'cron' || explicit === 'manual' || explicit === 'webhook') return explicit;
+
+  const userAgent = (req.headers['user-agent'] as string) || '';
+  return userAgent.startsWith('vercel-cron') ? 'cron' : 'manual';
+}
+
+/**
+ * Run a job and record it in the history. A failure to write the history
+ * is logged and otherwise ignored — it never fails the sync itself. A job
+ * that throws is recorded as "failed" and the error rethrown.
+ */
+export async function trackRun<T>(
+  params: {
+    job: SyncJobName;
+    trigger: SyncTrigger;
+    dryRun?: boolean;
+    store?: SyncRunStore;
+  },
+  run: () => Promise<T>,
+  outcomeOf: (result: T) => SyncRunOutcome
+): Promise<{ runId: string | null; result: T }> {
+  const store = params.store || new SyncRunStore();
+  const runId = await startRunQuietly(store, params.job, params.trigger, params.dryRun);
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await finishRunQuietly(store, runId, failedRunOutcome(error));
+    throw error;
+  }
+
+  await finishRunQuietly(store, runId, outcomeOf(result));
+  return { runId, result };
+}
+
+/**
+ * Record the start of a run; null (and a logged error) when that fails.
+ * For handlers that can't wrap their work in trackRun.
+ */
+export async function startRunQuietly(
+  store: SyncRunStore,
+  job: SyncJobName,
+  trigger: SyncTrigger,
+  dryRun?: boolean
+): Promise<string | null> {
+  try {
+    return (await store.start(job, trigger, { dryRun })).id;
+  } catch (error) {
+    console.error(`[SyncRuns] Could not record the start of a ${job} run:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record the end of a run started with startRunQuietly (no-op without one)
+ */
+export async function finishRunQuietly(
+  store: SyncRunStore,
+  runId: string | null,
+  outcome: SyncRunOutcome
+): Promise<void> {
+  if (!runId) return;
+  try {
+    await store.finish(runId, outcome);
+  } catch (error) {
+    console.error(`[SyncRuns] Could not record the end of run ${runId}:`, error);
+  }
+}
+
+export function failedRunOutcome(error: unknown): SyncRunOutcome {
+  return {
+    status: 'failed',
+    counts: {},
+    errors: [error instanceof Error ? error.message : String(error)],
+  };
+}
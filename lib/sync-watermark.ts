@@ -0,0 +1,45 @@
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'sync_watermarks';
+
+interface SyncWatermark {
+  /** Start of the last run that brought everything up to date */
+  since: string;
+  updatedAt: string;
+}
+
+/**
+ * Sync Watermarks
+ *
+ * For incremental syncs: the start time of the last successful run, so
+ * the next one only has to fetch what changed after it. Recorded at the
+ * run's start rather than its end, so changes made while it ran are
+ * picked up again next time. A watermark never moves backwards.
+ */
+export class SyncWatermarkStore {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * The watermark, or null when no run has succeeded yet
+   */
+  async get(name: string): Promise<string | null> {
+    const watermark = await this.storage.get<SyncWatermark>(COLLECTION, name);
+    return watermark ? watermark.since : null;
+  }
+
+  /**
+   * Move the watermark to `since` (an ISO timestamp), unless it is
+   * already later
+   */
+  async advance(name: string, since: string): Promise<void> {
+    await this.storage.update<SyncWatermark>(COLLECTION, name, (current) =>
+      current && current.since >= since
+        ? current
+        : { since, updatedAt: new Date().toISOString() }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * HTTP transport used by the API clients.
+ *
+ * Same shape as `fetch`, so the default is simply the global fetch. Tests
+ * and local runs can swap in a function that answers from in-memory fakes
+ * instead of the network.
+ */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
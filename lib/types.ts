@@ -36,6 +36,11 @@ export interface BreatheHolidayAllowance {
 export interface BreatheLeaveRequest {
   id: number;
   employee_id?: number;
+  /** Listings may nest the employee instead of setting employee_id */
+  employee?: {
+    id: number;
+    [key: string]: unknown;
+  };
   start_date: string;
   end_date: string;
   half_start?: boolean;
@@ -249,3 +254,19 @@ export interface UserMapping {
   breatheEmployeeId: number;
   breatheRef: string; // The "Ref" / employee_number field
 }
+
+/**
+ * Persistent link between a Flip absence request and the BreatheHR records
+ * it produced. The leave request id is always known (it is what the webhook
+ * creates); the absence id is filled in once BreatheHR approves the request.
+ */
+export interface AbsenceLink {
+  flipAbsenceRequestId: string | null;
+  breatheLeaveRequestId: number;
+  breatheAbsenceId: number | null;
+  breatheEmployeeId: number | null;
+  startDate?: string;
+  endDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
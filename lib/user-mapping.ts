@@ -1,6 +1,7 @@
-import { BreatheHRClient } from './breathehr';
-import { FlipClient } from './flip';
+import type { BreatheHRClient } from './breathehr';
+import type { FlipClient } from './flip';
 import { UserMapping, BreatheEmployee, FlipUser } from './types';
+import { mapConcurrent } from './concurrency';
 
 /**
  * User Mapping Service
@@ -10,11 +11,13 @@ import { UserMapping, BreatheEmployee, FlipUser } from './types';
  *   BreatheHR: "Ref" field (employee_number / reference)
  *
  * The mapping is built by iterating BreatheHR employees and looking up
- * the corresponding Flip user via ExtHRRef.
+ * the corresponding Flip user via ExtHRRef, up to `concurrency` lookups
+ * at a time.
  */
 export class UserMappingService {
   private breatheClient: BreatheHRClient;
   private flipClient: FlipClient;
+  private concurrency: number;
 
   // In-memory cache (refreshed on each sync)
   private mappingByFlipUserId: Map<string, UserMapping> = new Map();
@@ -23,9 +26,14 @@ export class UserMappingService {
   private lastRefresh: number = 0;
   private cacheTtlMs: number = 5 * 60 * 1000; // 5 minutes
 
-  constructor(breatheClient?: BreatheHRClient, flipClient?: FlipClient) {
-    this.breatheClient = breatheClient || new BreatheHRClient();
-    this.flipClient = flipClient || new FlipClient();
+  constructor(
+    breatheClient: BreatheHRClient,
+    flipClient: FlipClient,
+    options: { concurrency?: number } = {}
+  ) {
+    this.breatheClient = breatheClient;
+    this.flipClient = flipClient;
+    this.concurrency = options.concurrency ?? 1;
   }
 
   /**
@@ -39,15 +47,14 @@ export class UserMappingService {
     const employees = await this.breatheClient.getAllEmployees();
     console.log(`[UserMapping] Found ${employees.length} BreatheHR employees`);
 
-    const mappings: UserMapping[] = [];
-
-    for (const emp of employees) {
+    // Looked up concurrently, kept in BreatheHR's order
+    const found = await mapConcurrent(employees, this.concurrency, async (emp) => {
       const ref = this.extractRef(emp);
       if (!ref) {
         console.log(
           `[UserMapping] Skipping employee ${emp.id} (${emp.first_name} ${emp.last_name}) - no ref`
         );
-        continue;
+        return null;
       }
 
       const flipUser = await this.flipClient.findUserByExtHRRef(ref);
@@ -55,7 +62,7 @@ export class UserMappingService {
         console.log(
           `[UserMapping] No Flip user found for ref "${ref}" (employee ${emp.id})`
         );
-        continue;
+        return null;
       }
 
       const mapping: UserMapping = {
@@ -63,11 +70,16 @@ export class UserMappingService {
         breatheEmployeeId: emp.id,
         breatheRef: ref,
       };
+      return mapping;
+    });
 
+    const mappings: UserMapping[] = [];
+    for (const mapping of found) {
+      if (!mapping) continue;
       mappings.push(mapping);
-      this.mappingByFlipUserId.set(flipUser.id, mapping);
-      this.mappingByBreatheId.set(emp.id, mapping);
-      this.mappingByRef.set(ref, mapping);
+      this.mappingByFlipUserId.set(mapping.flipUserId, mapping);
+      this.mappingByBreatheId.set(mapping.breatheEmployeeId, mapping);
+      this.mappingByRef.set(mapping.breatheRef, mapping);
     }
 
     this.lastRefresh = Date.now();
@@ -110,6 +122,14 @@ export class UserMappingService {
     return this.mappingByRef.get(ref) ?? null;
   }
 
+  /**
+   * Look up both IDs from a Flip user ID
+   */
+  async getMappingByFlipUserId(flipUserId: string): Promise<UserMapping | null> {
+    await this.ensureFresh();
+    return this.mappingByFlipUserId.get(flipUserId) ?? null;
+  }
+
   /**
    * Get all current mappings
    */
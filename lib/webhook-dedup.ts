@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { getStorage, StorageBackend } from './storage';
+
+const COLLECTION = 'webhook_items';
+
+// A claim older than this is treated as abandoned (function crashed or timed out)
+const DEFAULT_STALE_AFTER_MS = 2 * 60 * 1000;
+// Processed items are remembered this long — well past Flip's retry window
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface WebhookItemRecord {
+  key: string;
+  status: 'in_progress' | 'completed' | 'failed';
+  token: string;
+  result?: string;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export type ClaimOutcome =
+  | { state: 'claimed'; key: string; token: string }
+  | { state: 'completed'; key: string; result: string }
+  | { state: 'in_progress'; key: string }
+  | { state: 'untracked' };
+
+/**
+ * Webhook Deduplication Store
+ *
+ * Flip retries webhook deliveries, so the same batch can arrive more than
+ * once — sometimes while the first delivery is still being processed.
+ * Each item is claimed before it is processed, keyed on:
+ *
+ *   <batch id>:<event type>:<absence request id>
+ *
+ * Claiming is an atomic storage update, so of two concurrent deliveries
+ * only one gets to create the BreatheHR leave request. The other sees
+ * "in_progress" (or, once finished, the original result).
+ *
+ * Failed items release their claim so a later retry can process them again.
+ */
+export class WebhookDedupStore {
+  private storage: StorageBackend;
+  private staleAfterMs: number;
+  private retentionMs: number;
+
+  constructor(
+    storage?: StorageBackend,
+    options?: { staleAfterMs?: number; retentionMs?: number }
+  ) {
+    this.storage = storage || getStorage();
+    this.staleAfterMs = options?.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+    this.retentionMs = options?.retentionMs ?? DEFAULT_RETENTION_MS;
+  }
+
+  /**
+   * Try to claim an item for processing
+   */
+  async claim(
+    batchId: string | undefined,
+    eventType: string,
+    absenceRequestId: string | undefined
+  ): Promise<ClaimOutcome> {
+    // Without both ids there is nothing stable to deduplicate on
+    if (!batchId || !absenceRequestId) {
+      return { state: 'untracked' };
+    }
+
+    const key = `${batchId}:${eventType}:${absenceRequestId}`;
+    const token = randomUUID();
+    const now = Date.now();
+
+    const stored = await this.storage.update<WebhookItemRecord>(COLLECTION, key, (current) => {
+      if (current?.status === 'completed') return current;
+      if (
+        current?.status === 'in_progress' &&
+        now - new Date(current.startedAt).getTime() < this.staleAfterMs
+      ) {
+        return current;
+      }
+      return {
+        key,
+        status: 'in_progress',
+        token,
+        startedAt: new Date(now).toISOString(),
+      };
+    });
+
+    if (stored?.token === token) {
+      return { state: 'claimed', key, token };
+    }
+    if (stored?.status === 'completed') {
+      return { state: 'completed', key, result: stored.result || '' };
+    }
+    return { state: 'in_progress', key };
+  }
+
+  /**
+   * Mark a claimed item as processed and remember its result
+   */
+  async complete(key: string, token: string, result: string): Promise<void> {
+    await this.storage.update<WebhookItemRecord>(COLLECTION, key, (current) => {
+      if (current && current.token !== token) return current;
+      return {
+        key,
+        token,
+        status: 'completed',
+        result,
+        startedAt: current?.startedAt || new Date().toISOString(),
+        finishedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Release a claimed item after a failure so a retry can pick it up
+   */
+  async fail(key: string, token: string, error: string): Promise<void> {
+    await this.storage.update<WebhookItemRecord>(COLLECTION, key, (current) => {
+      if (current && current.token !== token) return current;
+      return {
+        key,
+        token,
+        status: 'failed',
+        error,
+        startedAt: current?.startedAt || new Date().toISOString(),
+        finishedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Forget items older than the retention period
+   */
+  async prune(): Promise<number> {
+    const cutoff = Date.now() - this.retentionMs;
+    const records = await this.storage.list<WebhookItemRecord>(COLLECTION);
+    let removed = 0;
+    for (const record of records) {
+      if (new Date(record.finishedAt || record.startedAt).getTime() < cutoff) {
+        await this.storage.delete(COLLECTION, record.key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -1,28 +1,156 @@
+import { randomUUID } from 'crypto';
+import { getWebhookLogConfig } from './config';
+import { getStorage } from './storage';
+
 /**
- * Simple in-memory webhook log for debugging.
- * Stores the last 20 webhook payloads received.
- * Note: This resets on each cold start (serverless), but useful for debugging.
+ * Webhook log — one entry per delivery, persisted through the storage layer.
+ *
+ * Each entry keeps the raw payload plus the outcome, timing and error of
+ * every item in the batch, so deliveries can be inspected (and replayed)
+ * after the function instance that handled them is gone.
+ *
+ * Retention: entries older than WEBHOOK_LOG_RETENTION_DAYS and anything
+ * beyond the newest WEBHOOK_LOG_MAX_ENTRIES are dropped on each write.
+ *
+ * With the file backend on Vercel the log lives in the instance's /tmp;
+ * plug in a shared backend (see lib/storage.ts) for a production-wide log.
  */
 
-interface WebhookLogEntry {
+const COLLECTION = 'webhook_log';
+
+export type WebhookItemLogStatus =
+  | 'processed'
+  | 'ignored'
+  | 'duplicate'
+  | 'in_progress'
+  | 'queued'
+  | 'failed';
+
+export type WebhookDeliveryStatus =
+  | 'ok'
+  | 'queued'
+  | 'partial'
+  | 'failed'
+  | 'in_progress'
+  | 'rejected';
+
+export interface WebhookItemLog {
+  type: string;
+  absence_request_id: string | null;
+  flip_user_id: string | null;
+  status: WebhookItemLogStatus;
+  result?: string;
+  error?: string;
+  started_at: string;
+  duration_ms: number;
+}
+
+export interface WebhookLogEntry {
+  id: string;
+  batch_id?: string;
   timestamp: string;
   method: string;
   headers: Record<string, string>;
   body: unknown;
+  status: WebhookDeliveryStatus;
+  duration_ms?: number;
+  items: WebhookItemLog[];
   result?: string;
   error?: string;
+  /** Set on entries written by the replay route: the delivery that was replayed */
+  replay_of?: string;
 }
 
-const MAX_ENTRIES = 20;
-const entries: WebhookLogEntry[] = [];
+export interface WebhookLogFilter {
+  eventType?: string;
+  flipUserId?: string;
+  absenceRequestId?: string;
+  /** Matches the delivery status or the status of any of its items */
+  status?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
 
-export function logWebhook(entry: WebhookLogEntry): void {
-  entries.unshift(entry); // newest first
-  if (entries.length > MAX_ENTRIES) {
-    entries.pop();
+/**
+ * Create a new (unsaved) log entry for an incoming delivery
+ */
+export function createWebhookLogEntry(
+  fields: Pick<WebhookLogEntry, 'method' | 'headers' | 'body'>
+): WebhookLogEntry {
+  const body = fields.body as { id?: string } | undefined;
+  return {
+    id: randomUUID(),
+    batch_id: body?.id,
+    timestamp: new Date().toISOString(),
+    status: 'ok',
+    items: [],
+    ...fields,
+  };
+}
+
+/**
+ * Persist a log entry and apply retention
+ */
+export async function logWebhook(entry: WebhookLogEntry): Promise<void> {
+  const storage = getStorage();
+  await storage.put(COLLECTION, entry.id, entry);
+
+  const { maxEntries, retentionDays } = getWebhookLogConfig();
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const entries = sortNewestFirst(await storage.list<WebhookLogEntry>(COLLECTION));
+
+  for (let i = 0; i < entries.length; i++) {
+    if (i >= maxEntries || new Date(entries[i].timestamp).getTime() < cutoff) {
+      await storage.delete(COLLECTION, entries[i].id);
+    }
   }
 }
 
-export function getWebhookLogs(): WebhookLogEntry[] {
-  return [...entries];
+/**
+ * Get a single delivery by id
+ */
+export async function getWebhookLog(id: string): Promise<WebhookLogEntry | null> {
+  return getStorage().get<WebhookLogEntry>(COLLECTION, id);
+}
+
+/**
+ * Get logged deliveries, newest first, optionally filtered
+ */
+export async function getWebhookLogs(filter?: WebhookLogFilter): Promise<WebhookLogEntry[]> {
+  const entries = sortNewestFirst(await getStorage().list<WebhookLogEntry>(COLLECTION));
+  const since = filter?.since ? new Date(filter.since).getTime() : null;
+  const until = filter?.until ? new Date(filter.until).getTime() : null;
+
+  const matches = entries.filter((entry) => {
+    const time = new Date(entry.timestamp).getTime();
+    if (since !== null && time < since) return false;
+    if (until !== null && time > until) return false;
+    if (filter?.eventType && !entry.items.some((i) => i.type === filter.eventType)) {
+      return false;
+    }
+    if (filter?.flipUserId && !entry.items.some((i) => i.flip_user_id === filter.flipUserId)) {
+      return false;
+    }
+    if (
+      filter?.absenceRequestId &&
+      !entry.items.some((i) => i.absence_request_id === filter.absenceRequestId)
+    ) {
+      return false;
+    }
+    if (
+      filter?.status &&
+      entry.status !== filter.status &&
+      !entry.items.some((i) => i.status === filter.status)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  return filter?.limit ? matches.slice(0, filter.limit) : matches;
+}
+
+function sortNewestFirst(entries: WebhookLogEntry[]): WebhookLogEntry[] {
+  return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
 }
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractRejectionReason,
+  mapBreatheAbsenceToFlipSync,
+  mapLeaveRequestToFlipSync,
+} from '../lib/absence-mapping';
+import type { BreatheAbsence, BreatheLeaveRequest } from '../lib/types';
+
+const FLIP_USER = 'flip-user-1';
+
+function absence(fields: Partial<BreatheAbsence> = {}): BreatheAbsence {
+  return {
+    id: 501,
+    employee: { id: 7, first_name: 'Ada', last_name: 'Lovelace' },
+    start_date: '2026-03-10',
+    end_date: '2026-03-12',
+    ...fields,
+  };
+}
+
+function leaveRequest(fields: Partial<BreatheLeaveRequest> = {}): BreatheLeaveRequest {
+  return {
+    id: 9001,
+    start_date: '2026-04-01',
+    end_date: '2026-04-02',
+    ...fields,
+  };
+}
+
+describe('mapBreatheAbsenceToFlipSync', () => {
+  it('maps an active absence to an APPROVED sync item', () => {
+    const item = mapBreatheAbsenceToFlipSync(
+      absence({ deducted: 3, notes: 'Skiing', updated_at: '2026-03-01T10:00:00Z' }),
+      FLIP_USER,
+      new Map(),
+      new Map()
+    );
+
+    expect(item).toEqual({
+      id: null,
+      external_id: '501',
+      approver: null,
+      absentee: FLIP_USER,
+      duration: { amount: 3, unit: 'DAYS' },
+      policy: { external_id: 'annual_leave' },
+      requestor_comment: 'Skiing',
+      status: 'APPROVED',
+      last_updated: '2026-03-01T10:00:00Z',
+      starts_from: { date: '2026-03-10T00:00:00', type: undefined },
+      ends_at: { date: '2026-03-12T00:00:00', type: undefined },
+    });
+  });
+
+  it.each([true, 'true'])('marks cancelled=%s absences CANCELLED', (cancelled) => {
+    const item = mapBreatheAbsenceToFlipSync(absence({ cancelled }), FLIP_USER, new Map(), new Map());
+    expect(item?.status).toBe('CANCELLED');
+  });
+
+  it('uses the linked leave request id as external id', () => {
+    const item = mapBreatheAbsenceToFlipSync(absence(), FLIP_USER, new Map(), new Map([[501, 9001]]));
+    expect(item?.external_id).toBe('9001');
+  });
+
+  it('parses string deductions and omits duration when nothing is deducted', () => {
+    expect(
+      mapBreatheAbsenceToFlipSync(absence({ deducted: '1.5' as unknown as number }), FLIP_USER, new Map(), new Map())
+        ?.duration
+    ).toEqual({ amount: 1.5, unit: 'DAYS' });
+    expect(
+      mapBreatheAbsenceToFlipSync(absence(), FLIP_USER, new Map(), new Map())?.duration
+    ).toBeUndefined();
+  });
+
+  it('maps half days to Flip day halves', () => {
+    const item = mapBreatheAbsenceToFlipSync(
+      absence({ half_start: true, half_end: true }),
+      FLIP_USER,
+      new Map(),
+      new Map()
+    );
+    expect(item?.starts_from.type).toBe('SECOND_HALF');
+    expect(item?.ends_at.type).toBe('FIRST_HALF');
+  });
+
+  it('uses the leave reason policy only when Flip knows it', () => {
+    const policies = new Map([['42', 'policy-uuid']]);
+
+    const known = mapBreatheAbsenceToFlipSync(
+      absence({ leave_reason: 'Sick', leave_reason_id: 42 }),
+      FLIP_USER,
+      policies,
+      new Map()
+    );
+    const unknown = mapBreatheAbsenceToFlipSync(
+      absence({ leave_reason: 'Sick', leave_reason_id: 43 }),
+      FLIP_USER,
+      policies,
+      new Map()
+    );
+
+    expect(known?.policy.external_id).toBe('42');
+    expect(unknown?.policy.external_id).toBe('annual_leave');
+  });
+});
+
+describe('mapLeaveRequestToFlipSync', () => {
+  it('maps a pending leave request by its own id', () => {
+    const item = mapLeaveRequestToFlipSync(leaveRequest({ notes: 'Family' }), FLIP_USER, 'PENDING');
+
+    expect(item).toMatchObject({
+      external_id: '9001',
+      absentee: FLIP_USER,
+      status: 'PENDING',
+      requestor_comment: 'Family',
+      policy: { external_id: 'annual_leave' },
+      starts_from: { date: '2026-04-01T00:00:00' },
+      ends_at: { date: '2026-04-02T00:00:00' },
+    });
+  });
+
+  it('returns null without dates', () => {
+    expect(mapLeaveRequestToFlipSync(leaveRequest({ start_date: '' }), FLIP_USER, 'PENDING')).toBeNull();
+  });
+
+  it('accepts both half-day field spellings', () => {
+    const a = mapLeaveRequestToFlipSync(leaveRequest({ half_start: true }), FLIP_USER, 'PENDING');
+    const b = mapLeaveRequestToFlipSync(leaveRequest({ start_half_day: true, end_half_day: true }), FLIP_USER, 'PENDING');
+
+    expect(a?.starts_from.type).toBe('SECOND_HALF');
+    expect(a?.ends_at.type).toBeUndefined();
+    expect(b?.starts_from.type).toBe('SECOND_HALF');
+    expect(b?.ends_at.type).toBe('FIRST_HALF');
+  });
+
+  it('appends the rejection reason to rejected requests only', () => {
+    const lr = leaveRequest({ notes: 'Holiday', rejection_reason: 'Team offsite' });
+
+    expect(mapLeaveRequestToFlipSync(lr, FLIP_USER, 'REJECTED')?.requestor_comment).toBe(
+      "Holiday\n\n--- Manager's reason: Team offsite"
+    );
+    expect(mapLeaveRequestToFlipSync(lr, FLIP_USER, 'PENDING')?.requestor_comment).toBe('Holiday');
+    expect(
+      mapLeaveRequestToFlipSync(leaveRequest({ rejection_reason: 'No cover' }), FLIP_USER, 'REJECTED')
+        ?.requestor_comment
+    ).toBe("Manager's reason: No cover");
+  });
+});
+
+describe('extractRejectionReason', () => {
+  it('returns null when no reason field is set', () => {
+    expect(extractRejectionReason(leaveRequest())).toBeNull();
+    expect(extractRejectionReason(leaveRequest({ reason: '   ' }))).toBeNull();
+  });
+
+  it('prefers the most specific field and trims it', () => {
+    expect(
+      extractRejectionReason(leaveRequest({ reason: 'generic', declined_reason: '  specific  ' }))
+    ).toBe('specific');
+    expect(extractRejectionReason(leaveRequest({ manager_comment: 'Busy week' }))).toBe('Busy week');
+  });
+});
@@ -0,0 +1,311 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../api/sync/absences';
+import resyncEmployee from '../api/admin/resync-employee';
+import { EmployeeSyncResult, runAbsenceSync } from '../lib/absence-sync';
+import { LeaseLock } from '../lib/lock';
+import { AbsenceLinkStore } from '../lib/link-store';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('absence sync safety guard', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let first: ReturnType<typeof seedEmployee>;
+  let second: ReturnType<typeof seedEmployee>;
+
+  beforeEach(() => {
+    env = setupDriver();
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    first = seedEmployee(env, 'E1');
+    second = seedEmployee(env, 'E2');
+    for (const { employee } of [first, second]) {
+      for (const day of ['01', '02', '03', '04']) {
+        env.breathe.addAbsence(employee.id, { start_date: `2026-05-${day}`, end_date: `2026-05-${day}` });
+      }
+    }
+  });
+
+  it('completes a normal sync and records its item count', async () => {
+    const res = await invoke(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'ok', synced: 8, previous_item_count: null });
+    expect(env.flip.absenceRequests).toHaveLength(8);
+    expect((await invoke<{ previous_item_count: number }>(handler)).body.previous_item_count).toBe(8);
+  });
+
+  it('does not start a sync when BreatheHR absences cannot be fetched', async () => {
+    await invoke(handler);
+    env.breathe.failNext(500, { times: 10, method: 'GET', pathPrefix: '/absences' });
+
+    const res = await invoke(handler);
+
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({
+      status: 'cancelled',
+      reason: 'employee_fetch_failed',
+      failed_employees: [first.employee.id, second.employee.id],
+    });
+    expect([...env.flip.syncs.values()].map((s) => s.status)).toEqual(['COMPLETED']);
+    // Nobody's Flip history is touched
+    expect(env.flip.absenceRequests).toHaveLength(8);
+  });
+
+  it('cancels the open Flip sync when the run is aborted', async () => {
+    const controller = new AbortController();
+    const { flip } = env.clients;
+    const start = flip.startAbsenceRequestSync.bind(flip);
+    vi.spyOn(flip, 'startAbsenceRequestSync').mockImplementation(async (userId) => {
+      const started = await start(userId);
+      controller.abort(new Error('Job "absences" timed out'));
+      return started;
+    });
+
+    await expect(
+      runAbsenceSync(env.clients, {
+        mode: 'tenant',
+        batchSize: 100,
+        maxDropPercent: 50,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow('timed out');
+
+    expect([...env.flip.syncs.values()].map((s) => s.status)).toEqual(['CANCELLED']);
+    expect(env.flip.absenceRequests).toHaveLength(0);
+  });
+
+  it('refuses to sync when the item count drops past the limit, unless forced', async () => {
+    await invoke(handler);
+    env.breathe.absences = env.breathe.absences.slice(0, 5);
+
+    const blocked = await invoke(handler);
+    expect(blocked.status).toBe(409);
+    expect(blocked.body).toMatchObject({
+      reason: 'item_count_dropped',
+      item_count: 5,
+      previous_item_count: 8,
+    });
+    expect(env.flip.syncs.size).toBe(1);
+    expect(env.flip.absenceRequests).toHaveLength(8);
+
+    const forced = await invoke(handler, { query: { force: 'true' } });
+    expect(forced.status).toBe(200);
+    expect(env.flip.absenceRequests).toHaveLength(5);
+  });
+
+  it('dry-runs alongside a held sync lock without recording links', async () => {
+    const lr = env.breathe.addLeaveRequest(first.employee.id, {
+      start_date: '2026-06-01',
+      end_date: '2026-06-02',
+    });
+    env.breathe.approveLeaveRequest(lr.id);
+    await new LeaseLock().acquire('sync', 60_000);
+
+    const res = await invoke(handler, { query: { dry_run: 'true' } });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'ok', dry_run: true, mode: 'tenant' });
+    expect(await new AbsenceLinkStore().findByLeaveRequestId(lr.id)).toBeNull();
+    expect(env.flip.syncs.size).toBe(0);
+  });
+
+  it('allows a drop within the limit', async () => {
+    await invoke(handler);
+    env.breathe.absences = env.breathe.absences.slice(0, 7);
+
+    const res = await invoke<{ synced: number }>(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body.synced).toBe(7);
+  });
+});
+
+describe('per-employee absence sync', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let first: ReturnType<typeof seedEmployee>;
+  let second: ReturnType<typeof seedEmployee>;
+
+  beforeEach(() => {
+    env = setupDriver();
+    process.env.ADMIN_API_KEY = 'admin-key';
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    first = seedEmployee(env, 'E1');
+    second = seedEmployee(env, 'E2');
+    for (const { employee } of [first, second]) {
+      env.breathe.addAbsence(employee.id, { start_date: '2026-05-01', end_date: '2026-05-01' });
+      env.breathe.addAbsence(employee.id, { start_date: '2026-05-02', end_date: '2026-05-02' });
+    }
+  });
+
+  it('runs one scoped sync per employee and keeps going past a failure', async () => {
+    await invoke(handler);
+    env.breathe.absences = env.breathe.absences.filter((a) => a.start_date !== '2026-05-02');
+    // The first employee's sync can't be started
+    env.flip.failNext(500, { pathPrefix: '/api/hr/v4/integration/absence-requests/sync/start' });
+
+    const res = await invoke<{ employees: EmployeeSyncResult[] }>(handler, {
+      query: { mode: 'per_employee' },
+    });
+
+    expect(res.status).toBe(207);
+    expect(res.body).toMatchObject({ status: 'partial', mode: 'per_employee', synced: 1, errors: 1 });
+    expect(res.body.employees).toMatchObject([
+      { flip_user_id: first.user.id, status: 'failed', sync_id: null },
+      { flip_user_id: second.user.id, status: 'ok', synced: 1 },
+    ]);
+    const byUser = (userId: string) => env.flip.absenceRequests.filter((r) => r.absentee === userId);
+    expect(byUser(second.user.id)).toHaveLength(1);
+    // The failed employee's Flip history is untouched
+    expect(byUser(first.user.id)).toHaveLength(2);
+  });
+
+  it('resyncs a single employee by BreatheHR ref or Flip user id', async () => {
+    const headers = { 'x-admin-key': 'admin-key' };
+
+    const byRef = await invoke(resyncEmployee, { headers, body: { breathe_ref: 'E2' } });
+    expect(byRef.status).toBe(200);
+    expect(byRef.body).toMatchObject({ breathe_employee_id: second.employee.id, status: 'ok', synced: 2 });
+    expect(env.flip.absenceRequests.every((r) => r.absentee === second.user.id)).toBe(true);
+
+    const byUser = await invoke(resyncEmployee, { headers, body: { flip_user_id: first.user.id } });
+    expect(byUser.status).toBe(200);
+    expect(env.flip.absenceRequests).toHaveLength(4);
+
+    const unknown = await invoke(resyncEmployee, { headers, body: { breathe_ref: 'nope' } });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('refuses to resync an employee while a sync holds the lock', async () => {
+    const held = await new LeaseLock().acquire('sync', 60_000);
+
+    const res = await invoke<{ locked_until: string }>(resyncEmployee, {
+      headers: { 'x-admin-key': 'admin-key' },
+      body: { breathe_ref: 'E2' },
+    });
+
+    expect(res.status).toBe(409);
+    expect(res.body.locked_until).toBe(held.lease.expiresAt);
+    expect(env.flip.absenceRequests).toHaveLength(0);
+  });
+});
+
+describe('delta absence sync', () => {
+  type DeltaBody = { delta: { since: string }; employees: EmployeeSyncResult[] };
+  let env: ReturnType<typeof setupDriver>;
+  let first: ReturnType<typeof seedEmployee>;
+  let second: ReturnType<typeof seedEmployee>;
+  const longAgo = '2020-01-01T00:00:00.000Z';
+
+  beforeEach(() => {
+    env = setupDriver();
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    first = seedEmployee(env, 'E1');
+    second = seedEmployee(env, 'E2');
+    for (const { employee } of [first, second]) {
+      env.breathe.addAbsence(employee.id, {
+        start_date: '2026-05-01',
+        end_date: '2026-05-01',
+        updated_at: longAgo,
+      });
+    }
+  });
+
+  it('syncs everyone when there is no watermark yet', async () => {
+    const res = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      status: 'ok',
+      mode: 'per_employee',
+      synced: 2,
+      delta: { since: null, changed_employees: 2 },
+    });
+  });
+
+  it('only resyncs employees changed since the last successful run', async () => {
+    await invoke(handler);
+    env.breathe.addLeaveRequest(second.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+
+    const res = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+
+    expect(res.body).toMatchObject({ status: 'ok', delta: { changed_employees: 1 } });
+    expect(res.body.employees).toMatchObject([
+      { flip_user_id: second.user.id, status: 'ok', synced: 2, pending: 1 },
+    ]);
+    expect(env.flip.absenceRequests.filter((r) => r.absentee === first.user.id)).toHaveLength(1);
+
+    const next = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+    expect(next.body.delta.since > res.body.delta.since).toBe(true);
+  });
+
+  it('picks up a leave request listed with a nested employee', async () => {
+    await invoke(handler);
+    const lr = env.breathe.addLeaveRequest(second.employee.id, {
+      start_date: '2026-06-01',
+      end_date: '2026-06-01',
+    });
+    delete lr.employee_id;
+    lr.employee = { id: second.employee.id };
+
+    const res = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+
+    expect(res.body).toMatchObject({ status: 'ok', delta: { changed_employees: 1 } });
+    expect(res.body.employees).toMatchObject([{ flip_user_id: second.user.id }]);
+  });
+
+  it('fails the delta run when a changed record names no employee', async () => {
+    await invoke(handler);
+    const lr = env.breathe.addLeaveRequest(second.employee.id, {
+      start_date: '2026-06-01',
+      end_date: '2026-06-01',
+    });
+    delete lr.employee_id;
+
+    const res = await invoke<{ message: string }>(handler, { query: { delta: 'true' } });
+
+    expect(res.status).toBe(500);
+    expect(res.body.message).toBe(`BreatheHR leave request ${lr.id} is listed without an employee`);
+  });
+
+  it('fetches only the changed employees\' leave instead of the tenant history', async () => {
+    await invoke(handler);
+    env.breathe.addLeaveRequest(second.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    env.breathe.requests.length = 0;
+
+    await invoke(handler, { query: { delta: 'true' } });
+
+    expect(env.breathe.requests.map((r) => r.path)).toEqual([
+      '/employees',
+      '/absences',
+      '/leave_requests',
+      `/employees/${second.employee.id}/absences`,
+      `/employees/${second.employee.id}/leave_requests`,
+    ]);
+  });
+
+  it('keeps the watermark when an employee fails, so the change is retried', async () => {
+    await invoke(handler);
+    env.breathe.addAbsence(first.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    env.flip.failNext(500, { pathPrefix: '/api/hr/v4/integration/absence-requests/sync/start' });
+
+    const failed = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+    expect(failed.body).toMatchObject({ status: 'failed', delta: { changed_employees: 1 } });
+
+    const retried = await invoke<DeltaBody>(handler, { query: { delta: 'true' } });
+    expect(retried.body).toMatchObject({ status: 'ok', synced: 2, delta: { since: failed.body.delta.since } });
+    expect(env.flip.absenceRequests.filter((r) => r.absentee === first.user.id)).toHaveLength(2);
+  });
+});
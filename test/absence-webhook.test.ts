@@ -0,0 +1,324 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import resyncEmployee from '../api/admin/resync-employee';
+import syncAbsences from '../api/sync/absences';
+import { AbsenceWebhookProcessor } from '../lib/absence-webhook';
+import { DeadLetterStore, retryDeadLetter } from '../lib/dead-letter';
+import { BreatheApiError } from '../lib/errors';
+import { AbsenceLinkStore } from '../lib/link-store';
+import { PendingRepairStore } from '../lib/pending-repair';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('AbsenceWebhookProcessor', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let seeded: ReturnType<typeof seedEmployee>;
+  let processor: AbsenceWebhookProcessor;
+  let links: AbsenceLinkStore;
+  let policyId: string;
+
+  beforeEach(() => {
+    env = setupDriver();
+    seeded = seedEmployee(env);
+    policyId = env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    }).id;
+    links = new AbsenceLinkStore();
+    const { breathe, flip, userMapping } = env.clients;
+    processor = new AbsenceWebhookProcessor(breathe, flip, userMapping, links);
+  });
+
+  function requestAbsence(startDate = '2026-11-02', endDate = '2026-11-04') {
+    return env.flip.requestAbsence({
+      absentee: seeded.user.id,
+      policyId,
+      startDate,
+      endDate,
+      comment: 'Trip',
+    });
+  }
+
+  describe('hr.absence.requested', () => {
+    it('creates a leave request, links it and patches the Flip external id', async () => {
+      const { request, webhookItem } = requestAbsence();
+
+      const result = await processor.processItem(webhookItem.type, webhookItem.data);
+
+      expect(result).toEqual({ status: 'processed', result: `created: ${request.id}` });
+      expect(env.breathe.leaveRequests).toHaveLength(1);
+      const lr = env.breathe.leaveRequests[0];
+      expect(lr).toMatchObject({
+        employee_id: seeded.employee.id,
+        start_date: '2026-11-02',
+        end_date: '2026-11-04',
+        half_start: false,
+        half_end: false,
+        notes: 'Trip',
+      });
+      expect(request.external_id).toBe(String(lr.id));
+      expect(request.status).toBe('PENDING');
+      expect(await links.findByFlipRequestId(request.id)).toMatchObject({
+        breatheLeaveRequestId: lr.id,
+        breatheEmployeeId: seeded.employee.id,
+      });
+    });
+
+    it('maps Flip day halves to BreatheHR half days', async () => {
+      const { webhookItem } = requestAbsence();
+      webhookItem.data.starts_from = { date: '2026-11-02T00:00:00', type: 'SECOND_HALF' };
+      webhookItem.data.ends_at = { date: '2026-11-04T00:00:00', type: 'FIRST_HALF' };
+
+      await processor.processItem(webhookItem.type, webhookItem.data);
+
+      expect(env.breathe.leaveRequests[0]).toMatchObject({ half_start: true, half_end: true });
+    });
+
+    it('does not create a second leave request for a redelivered event', async () => {
+      const { webhookItem } = requestAbsence();
+
+      await processor.processItem(webhookItem.type, webhookItem.data);
+      await processor.processItem(webhookItem.type, webhookItem.data);
+
+      expect(env.breathe.leaveRequests).toHaveLength(1);
+    });
+
+    it('fails for a Flip user without a BreatheHR mapping', async () => {
+      const stranger = env.flip.addUser({ extHRRef: 'NOBODY' });
+      const { webhookItem } = env.flip.requestAbsence({
+        absentee: stranger.id,
+        policyId,
+        startDate: '2026-11-02',
+        endDate: '2026-11-02',
+      });
+
+      await expect(processor.processItem(webhookItem.type, webhookItem.data)).rejects.toThrow(
+        /No BreatheHR employee mapping/
+      );
+      expect(env.breathe.leaveRequests).toHaveLength(0);
+    });
+
+    it('surfaces a BreatheHR validation error as a BreatheApiError', async () => {
+      const { webhookItem } = requestAbsence('2026-11-04', '2026-11-02');
+
+      const error = await processor
+        .processItem(webhookItem.type, webhookItem.data)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BreatheApiError);
+      expect(error).toMatchObject({ status: 422, method: 'POST' });
+    });
+  });
+
+  describe('hr.absence.cancelled', () => {
+    async function createThenCancel() {
+      const { request, webhookItem } = requestAbsence();
+      await processor.processItem(webhookItem.type, webhookItem.data);
+      const lr = env.breathe.leaveRequests[0];
+      return { request, lr };
+    }
+
+    it('deletes a still-pending leave request', async () => {
+      const { request } = await createThenCancel();
+      const item = env.flip.cancelAbsence(request.id);
+
+      const result = await processor.processItem(item.type, item.data);
+
+      expect(result.status).toBe('processed');
+      expect(env.breathe.leaveRequests).toHaveLength(0);
+    });
+
+    it('falls back to cancelling the absence once the request was approved', async () => {
+      const { request, lr } = await createThenCancel();
+      const absence = env.breathe.approveLeaveRequest(lr.id);
+      const item = env.flip.cancelAbsence(request.id);
+
+      await processor.processItem(item.type, item.data);
+
+      expect(absence.cancelled).toBe(true);
+      expect(env.breathe.requests.map((r) => `${r.method} ${r.path}`)).toEqual(
+        expect.arrayContaining([
+          `DELETE /leave_requests/${lr.id}`,
+          `POST /leave_requests/${lr.id}/cancel`,
+          `POST /absences/${absence.id}/cancel`,
+        ])
+      );
+    });
+
+    it('finds the absence by dates when there is no stored link', async () => {
+      const lr = env.breathe.addLeaveRequest(seeded.employee.id, {
+        start_date: '2026-12-01',
+        end_date: '2026-12-02',
+      });
+      const absence = env.breathe.approveLeaveRequest(lr.id);
+      const { request } = requestAbsence('2026-12-01', '2026-12-02');
+      request.external_id = String(lr.id);
+      const item = env.flip.cancelAbsence(request.id);
+
+      await processor.processItem(item.type, item.data);
+
+      expect(absence.cancelled).toBe(true);
+    });
+
+    it('does not fall back when BreatheHR fails with a server error', async () => {
+      const { request, lr } = await createThenCancel();
+      env.breathe.failNext(500, { times: 10, method: 'DELETE' });
+      const item = env.flip.cancelAbsence(request.id);
+
+      await expect(processor.processItem(item.type, item.data)).rejects.toMatchObject({
+        status: 500,
+      });
+      expect(env.breathe.requests.some((r) => r.path === `/leave_requests/${lr.id}/cancel`)).toBe(
+        false
+      );
+      expect(env.breathe.leaveRequests[0].status).toBe('pending');
+    });
+
+    it('discards the dead-lettered creation of a request cancelled before it succeeded', async () => {
+      const deadLetters = new DeadLetterStore();
+      const { request, webhookItem } = requestAbsence();
+      const letter = await deadLetters.add({
+        eventType: webhookItem.type,
+        data: webhookItem.data,
+        error: 'BreatheHR unavailable',
+      });
+      const item = env.flip.cancelAbsence(request.id);
+
+      const result = await processor.processItem(item.type, item.data);
+
+      expect(result.status).toBe('processed');
+      expect((await deadLetters.get(letter.id))?.status).toBe('discarded');
+      expect(await deadLetters.listDue()).toEqual([]);
+      expect(env.breathe.leaveRequests).toHaveLength(0);
+    });
+  });
+
+  describe('failed external id patch', () => {
+    // Fails every retry of one patch attempt
+    function failPatch(requestId: string, status = 503) {
+      env.flip.failNext(status, {
+        times: 3,
+        pathPrefix: `/api/hr/v4/integration/absence-requests/${requestId}/patch-external-id`,
+      });
+    }
+
+    it('parks a transiently failed patch for the absence sync to finish', async () => {
+      const { request, webhookItem } = requestAbsence();
+      failPatch(request.id);
+
+      const result = await processor.processItem(webhookItem.type, webhookItem.data);
+
+      expect(result.status).toBe('processed');
+      expect(request.external_id).toBeNull();
+      const lr = env.breathe.leaveRequests[0];
+      expect(await new PendingRepairStore().get(request.id)).toMatchObject({
+        breathe_leave_request_id: lr.id,
+        attempts: 1,
+      });
+
+      const res = await invoke<{ repairs: unknown }>(syncAbsences);
+
+      expect(res.body.repairs).toEqual({ patched: 1, rolled_back: 0, pending: 0 });
+      expect(request.external_id).toBe(String(lr.id));
+      expect(env.flip.absenceRequests).toHaveLength(1);
+      expect(await new PendingRepairStore().list()).toEqual([]);
+    });
+
+    it('syncs a still-unpatched request by its Flip id instead of duplicating it', async () => {
+      const { request, webhookItem } = requestAbsence();
+      failPatch(request.id);
+      await processor.processItem(webhookItem.type, webhookItem.data);
+      failPatch(request.id);
+
+      const res = await invoke<{ repairs: unknown }>(syncAbsences);
+
+      expect(res.body.repairs).toEqual({ patched: 0, rolled_back: 0, pending: 1 });
+      expect(env.flip.absenceRequests).toEqual([request]);
+      expect(request.status).toBe('PENDING');
+    });
+
+    it('keeps the unpatched request when the employee is resynced by hand', async () => {
+      process.env.ADMIN_API_KEY = 'admin-key';
+      const { request, webhookItem } = requestAbsence();
+      failPatch(request.id);
+      await processor.processItem(webhookItem.type, webhookItem.data);
+
+      const res = await invoke(resyncEmployee, {
+        headers: { 'x-admin-key': 'admin-key' },
+        body: { flip_user_id: seeded.user.id },
+      });
+
+      expect(res.status).toBe(200);
+      expect(env.flip.absenceRequests).toEqual([request]);
+      expect(request.status).toBe('PENDING');
+    });
+
+    it('rolls back the leave request when Flip refuses the patch', async () => {
+      const { request, webhookItem } = requestAbsence();
+      failPatch(request.id, 404);
+
+      await expect(processor.processItem(webhookItem.type, webhookItem.data)).rejects.toMatchObject(
+        { status: 404 }
+      );
+
+      expect(env.breathe.leaveRequests).toHaveLength(0);
+      expect(await links.findByFlipRequestId(request.id)).toBeNull();
+      expect(await new PendingRepairStore().list()).toEqual([]);
+    });
+
+    it('drops the pending repair when the request is cancelled', async () => {
+      const { request, webhookItem } = requestAbsence();
+      failPatch(request.id);
+      await processor.processItem(webhookItem.type, webhookItem.data);
+      request.external_id = String(env.breathe.leaveRequests[0].id);
+      const item = env.flip.cancelAbsence(request.id);
+
+      await processor.processItem(item.type, item.data);
+
+      expect(env.breathe.leaveRequests).toHaveLength(0);
+      expect(await new PendingRepairStore().list()).toEqual([]);
+    });
+  });
+
+  describe('dead-letter retry', () => {
+    it('gives up at once and marks the Flip request ERROR when BreatheHR rejects it', async () => {
+      const deadLetters = new DeadLetterStore();
+      const { request, webhookItem } = requestAbsence();
+      const letter = await deadLetters.add({
+        eventType: webhookItem.type,
+        data: webhookItem.data,
+        error: 'BreatheHR unavailable',
+      });
+      env.breathe.failNext(422, { method: 'POST', pathPrefix: '/employees' });
+
+      const updated = await retryDeadLetter(letter, deadLetters, processor, env.clients.flip);
+
+      expect(updated).toMatchObject({ status: 'exhausted', attempts: 2, next_attempt_at: null });
+      expect(await deadLetters.listDue(new Date(Date.now() + 24 * 60 * 60 * 1000))).toEqual([]);
+      expect(request.status).toBe('ERROR');
+    });
+
+    it('keeps retrying after a server error', async () => {
+      const deadLetters = new DeadLetterStore();
+      const { request, webhookItem } = requestAbsence();
+      const letter = await deadLetters.add({
+        eventType: webhookItem.type,
+        data: webhookItem.data,
+        error: 'BreatheHR unavailable',
+      });
+      env.breathe.failNext(500, { times: 10, method: 'POST', pathPrefix: '/employees' });
+
+      const updated = await retryDeadLetter(letter, deadLetters, processor, env.clients.flip);
+
+      expect(updated).toMatchObject({ status: 'pending', attempts: 2 });
+      expect(request.status).toBe('PENDING');
+    });
+  });
+
+  it('ignores unknown event types', async () => {
+    expect(await processor.processItem('hr.something.else', {})).toEqual({
+      status: 'ignored',
+      result: 'ignored: hr.something.else',
+    });
+  });
+});
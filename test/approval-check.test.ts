@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import handler from '../api/sync/approval-check';
+import { AbsenceWebhookProcessor } from '../lib/absence-webhook';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('approval-check', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let seeded: ReturnType<typeof seedEmployee>;
+  let policyId: string;
+
+  beforeEach(() => {
+    env = setupDriver();
+    seeded = seedEmployee(env);
+    policyId = env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    }).id;
+  });
+
+  /** Employee requests leave in Flip; the webhook creates it in BreatheHR */
+  async function requestViaWebhook() {
+    const { request, webhookItem } = env.flip.requestAbsence({
+      absentee: seeded.user.id,
+      policyId,
+      startDate: '2026-11-02',
+      endDate: '2026-11-03',
+    });
+    const { breathe, flip, userMapping } = env.clients;
+    await new AbsenceWebhookProcessor(breathe, flip, userMapping).processItem(
+      webhookItem.type,
+      webhookItem.data
+    );
+    return { request, lr: env.breathe.leaveRequests[0] };
+  }
+
+  it('approves the Flip request on behalf of the manager once BreatheHR approves', async () => {
+    const { request, lr } = await requestViaWebhook();
+    env.breathe.approveLeaveRequest(lr.id);
+
+    const res = await invoke(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ checked: 1, approved: 1, rejected: 0, errors: 0 });
+    expect(request.status).toBe('APPROVED');
+    expect(env.flip.notifications).toEqual([
+      { action: 'APPROVED', absence_request_id: request.id, approver: seeded.manager.id },
+    ]);
+  });
+
+  it('rejects the Flip request when BreatheHR denies it', async () => {
+    const { request, lr } = await requestViaWebhook();
+    env.breathe.denyLeaveRequest(lr.id, 'No cover');
+
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ approved: 0, rejected: 1 });
+    expect(request.status).toBe('REJECTED');
+  });
+
+  it('does nothing while the leave request is pending, or once Flip already matches', async () => {
+    const { lr } = await requestViaWebhook();
+
+    expect((await invoke(handler)).body).toMatchObject({ checked: 0, approved: 0 });
+
+    env.breathe.approveLeaveRequest(lr.id);
+    await invoke(handler);
+    const second = await invoke(handler);
+
+    expect(second.body).toMatchObject({ checked: 1, approved: 0, skipped: 1 });
+    expect(env.flip.notifications).toHaveLength(1);
+  });
+
+  it('skips leave requests created directly in BreatheHR', async () => {
+    const lr = env.breathe.addLeaveRequest(seeded.employee.id, {
+      start_date: '2026-12-01',
+      end_date: '2026-12-01',
+    });
+    env.breathe.approveLeaveRequest(lr.id);
+
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ checked: 0, approved: 0, errors: 0 });
+  });
+
+  it('counts an error instead of skipping when the Flip lookup fails', async () => {
+    const { request, lr } = await requestViaWebhook();
+    env.breathe.approveLeaveRequest(lr.id);
+    env.flip.failNext(500, {
+      times: 10,
+      method: 'GET',
+      pathPrefix: '/api/hr/v4/integration/absence-requests',
+    });
+
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ approved: 0, errors: 1 });
+    expect(request.status).toBe('PENDING');
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../api/sync/balances';
+import { buildAnnualLeaveBalance, sumDeductedDays } from '../lib/balance';
+import { runBalanceSync } from '../lib/balance-sync';
+import { runJobs } from '../lib/orchestrator';
+import type { BreatheAbsence } from '../lib/types';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+function absence(deducted: unknown, cancelled: unknown = false): BreatheAbsence {
+  return {
+    id: 1,
+    employee: { id: 7, first_name: 'Ada', last_name: 'Lovelace' },
+    start_date: '2026-01-05',
+    end_date: '2026-01-05',
+    deducted: deducted as number,
+    cancelled,
+  };
+}
+
+describe('sumDeductedDays', () => {
+  it('sums string and numeric deductions, skipping cancelled absences', () => {
+    expect(
+      sumDeductedDays([
+        absence('2.0'),
+        absence(0.5),
+        absence('3.0', true),
+        absence('1.0', 'true'),
+        absence(undefined),
+        absence('n/a'),
+      ])
+    ).toBe(2.5);
+  });
+});
+
+describe('buildAnnualLeaveBalance', () => {
+  const policy = { id: 'policy-uuid', external_id: 'annual_leave' };
+
+  it('derives taken and available from the allowance', () => {
+    const balance = buildAnnualLeaveBalance({
+      flipUserId: 'flip-1',
+      breatheEmployeeId: 7,
+      policy,
+      allowance: { amount: 25, units: 'days' },
+      absences: [absence('3.0'), absence('1.5')],
+    });
+
+    expect(balance).toEqual({
+      user_id: 'flip-1',
+      policy: { id: 'policy-uuid', external_id: 'annual_leave' },
+      balance: {
+        external_id: 'breathehr_7_annual_leave',
+        total: 25,
+        available: 20.5,
+        taken: 4.5,
+        unlimited: false,
+        time_unit: 'DAYS',
+      },
+    });
+  });
+
+  it('never reports a negative balance and honours hour-based allowances', () => {
+    const balance = buildAnnualLeaveBalance({
+      flipUserId: 'flip-1',
+      breatheEmployeeId: 7,
+      policy,
+      allowance: { amount: 8, units: 'hours' },
+      absences: [absence('10')],
+    });
+
+    expect(balance.balance).toMatchObject({ total: 8, taken: 10, available: 0, time_unit: 'HOURS' });
+  });
+
+  it('treats a missing allowance as zero', () => {
+    const balance = buildAnnualLeaveBalance({
+      flipUserId: 'flip-1',
+      breatheEmployeeId: 7,
+      policy: { id: 'policy-uuid', external_id: null },
+      allowance: undefined,
+      absences: [],
+    });
+
+    expect(balance.policy.external_id).toBe('annual_leave');
+    expect(balance.balance).toMatchObject({ total: 0, taken: 0, available: 0 });
+  });
+});
+
+describe('balance sync', () => {
+  let env: ReturnType<typeof setupDriver>;
+
+  beforeEach(() => {
+    env = setupDriver();
+  });
+
+  it('pushes each mapped employee’s balance to Flip', async () => {
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    env.breathe.holidayAllowances.push({ id: 1, name: 'Standard', units: 'days', amount: 25 });
+    const { employee, user } = seedEmployee(env);
+    employee.holiday_allowance = { id: 1, name: 'Standard', units: 'days', amount: 0 };
+    env.breathe.addAbsence(employee.id, { start_date: '2026-02-02', end_date: '2026-02-04', deducted: 3 });
+    env.breathe.addAbsence(employee.id, {
+      start_date: '2026-03-02',
+      end_date: '2026-03-02',
+      deducted: 1,
+      cancelled: true,
+    });
+
+    const res = await invoke(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ synced: 1, errors: 0 });
+    expect(env.flip.balances).toHaveLength(1);
+    expect(env.flip.balances[0]).toMatchObject({
+      user_id: user.id,
+      balance: { total: 25, taken: 3, available: 22, time_unit: 'DAYS' },
+    });
+  });
+
+  it('stops writing to Flip once its job has timed out', async () => {
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    seedEmployee(env, 'E1');
+    seedEmployee(env, 'E2');
+    const { breathe } = env.clients;
+    const listAllowances = breathe.listHolidayAllowances.bind(breathe);
+    vi.spyOn(breathe, 'listHolidayAllowances').mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return listAllowances();
+    });
+
+    const summary = await runJobs([
+      { name: 'balances', timeoutMs: 10, run: (signal) => runBalanceSync(env.clients, { signal }) },
+    ]);
+
+    expect(summary.jobs[0].status).toBe('timed_out');
+    expect(env.flip.balances).toHaveLength(0);
+    expect(env.flip.requests.some((r) => r.path.endsWith('/balances/sync'))).toBe(false);
+  });
+
+  it('fails when the annual leave policy has not been synced', async () => {
+    seedEmployee(env);
+
+    const res = await invoke<{ message: string }>(handler);
+
+    expect(res.status).toBe(500);
+    expect(res.body.message).toMatch(/Annual Leave policy not found/);
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import syncAll from '../api/sync/all';
+import { BreatheSnapshot } from '../lib/breathe-snapshot';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('BreatheHR snapshot', () => {
+  let env: ReturnType<typeof setupDriver>;
+
+  beforeEach(() => {
+    env = setupDriver();
+  });
+
+  it('loads each listing once and groups it by employee', async () => {
+    const first = seedEmployee(env, 'E1');
+    const second = seedEmployee(env, 'E2');
+    env.breathe.addAbsence(first.employee.id, { start_date: '2026-05-01', end_date: '2026-05-01' });
+    env.breathe.addAbsence(first.employee.id, { start_date: '2026-05-02', end_date: '2026-05-02' });
+    env.breathe.addLeaveRequest(second.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const snapshot = new BreatheSnapshot(env.clients.breathe);
+
+    expect(await snapshot.getAllEmployeeAbsences(first.employee.id)).toHaveLength(2);
+    expect(await snapshot.getAllEmployeeAbsences(second.employee.id)).toEqual([]);
+    expect(await snapshot.getAllEmployeeLeaveRequests(second.employee.id)).toHaveLength(1);
+    expect((await snapshot.findEmployee(second.employee.id))?.employee_ref).toBe('E2');
+    expect(env.breathe.requests.map((r) => r.path)).toEqual(['/absences', '/leave_requests', '/employees']);
+  });
+
+  it('only loads leave overlapping its date range', async () => {
+    const { employee } = seedEmployee(env, 'E1');
+    env.breathe.addAbsence(employee.id, { start_date: '2024-12-30', end_date: '2025-01-02' });
+    env.breathe.addAbsence(employee.id, { start_date: '2024-06-01', end_date: '2024-06-01' });
+    const snapshot = new BreatheSnapshot(env.clients.breathe, { from: '2025-01-01' });
+
+    const absences = await snapshot.getAllEmployeeAbsences(employee.id);
+
+    expect(absences.map((a) => a.start_date)).toEqual(['2024-12-30']);
+  });
+
+  it('fails every lookup when a listing cannot be loaded', async () => {
+    const { employee } = seedEmployee(env, 'E1');
+    env.breathe.failNext(500, { times: 10, pathPrefix: '/absences' });
+    const snapshot = new BreatheSnapshot(env.clients.breathe);
+
+    await expect(snapshot.getAllEmployeeAbsences(employee.id)).rejects.toThrow(/500/);
+    await expect(snapshot.getAllEmployeeAbsences(employee.id + 1)).rejects.toThrow(/500/);
+  });
+
+  it('groups leave requests that only name their employee as a nested record', async () => {
+    const { employee } = seedEmployee(env, 'E1');
+    const lr = env.breathe.addLeaveRequest(employee.id, {
+      start_date: '2026-06-01',
+      end_date: '2026-06-01',
+    });
+    delete lr.employee_id;
+    lr.employee = { id: employee.id };
+    const snapshot = new BreatheSnapshot(env.clients.breathe);
+
+    expect(await snapshot.getAllEmployeeLeaveRequests(employee.id)).toHaveLength(1);
+  });
+
+  it('fails the load rather than drop a leave request without an employee', async () => {
+    const { employee } = seedEmployee(env, 'E1');
+    const lr = env.breathe.addLeaveRequest(employee.id, {
+      start_date: '2026-06-01',
+      end_date: '2026-06-01',
+    });
+    delete lr.employee_id;
+    const snapshot = new BreatheSnapshot(env.clients.breathe);
+
+    await expect(snapshot.getAllEmployeeLeaveRequests(employee.id)).rejects.toThrow(
+      `BreatheHR leave request ${lr.id} is listed without an employee`
+    );
+  });
+
+  it('lets sync/all fetch BreatheHR data once rather than per employee', async () => {
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    for (const ref of ['E1', 'E2', 'E3']) {
+      const { employee } = seedEmployee(env, ref);
+      env.breathe.addAbsence(employee.id, { start_date: '2026-05-01', end_date: '2026-05-01' });
+    }
+
+    const res = await invoke(syncAll);
+
+    expect(res.status).toBe(200);
+    const paths = env.breathe.requests.map((r) => r.path);
+    expect(paths.filter((p) => p === '/absences')).toHaveLength(1);
+    expect(paths.filter((p) => p.startsWith('/employees/'))).toEqual([]);
+    expect(env.flip.absenceRequests).toHaveLength(3);
+  });
+});
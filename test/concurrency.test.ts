@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { mapConcurrent } from '../lib/concurrency';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapConcurrent', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapConcurrent([30, 5, 20, 1, 10, 2], 3, async (ms, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(ms);
+      inFlight--;
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:5', '2:20', '3:1', '4:10', '5:2']);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('rejects with the earliest failed item and starts nothing after a failure', async () => {
+    const started: number[] = [];
+
+    const run = mapConcurrent([0, 1, 2, 3, 4, 5], 2, async (index) => {
+      started.push(index);
+      // Item 1 fails first, item 0 fails after it
+      await sleep(index === 0 ? 20 : 1);
+      if (index <= 1) throw new Error(`item ${index} failed`);
+      return index;
+    });
+
+    await expect(run).rejects.toThrow('item 0 failed');
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('handles an empty list and a limit below one', async () => {
+    expect(await mapConcurrent([], 4, async (x: number) => x)).toEqual([]);
+    expect(await mapConcurrent([1, 2], 0, async (x) => x * 2)).toEqual([2, 4]);
+  });
+});
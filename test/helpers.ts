@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { createClients, Clients, setTransport } from '../lib/clients';
+import { createFakeEnvironment, FakeEnvironment } from '../lib/fakes';
+import { MemoryStorage, setStorage } from '../lib/storage';
+
+/**
+ * A fresh offline driver: fake BreatheHR and Flip, in-memory storage, and
+ * env vars + transport set so that handlers' createClients() hit the fakes.
+ */
+export function setupDriver(): FakeEnvironment & { clients: Clients } {
+  const env = createFakeEnvironment();
+
+  process.env.BREATHEHR_API_KEY = env.config.breathehr.apiKey;
+  process.env.BREATHEHR_BASE_URL = env.config.breathehr.baseUrl;
+  process.env.FLIP_CLIENT_ID = env.config.flip.clientId;
+  process.env.FLIP_CLIENT_SECRET = env.config.flip.clientSecret;
+  process.env.FLIP_BASE_URL = env.config.flip.baseUrl;
+  process.env.FLIP_ORG = env.config.flip.organization;
+  process.env.HTTP_RETRY_BASE_DELAY_MS = '1';
+
+  setTransport(env.transport);
+  setStorage(new MemoryStorage());
+
+  return { ...env, clients: createClients({ config: env.config, transport: env.transport }) };
+}
+
+/**
+ * Seed one mapped employee (BreatheHR ref ↔ Flip exthrref) with a manager in Flip
+ */
+export function seedEmployee(env: FakeEnvironment, ref = 'E1') {
+  const manager = env.flip.addUser({ first_name: 'Manager', extHRRef: `${ref}-M` });
+  const user = env.flip.addUser({ first_name: 'Employee', extHRRef: ref, managerId: manager.id });
+  const employee = env.breathe.addEmployee({ employee_ref: ref });
+  return { employee, user, manager };
+}
+
+/**
+ * Call a Vercel handler with a minimal request and capture the response.
+ * `TBody` is the response body the test expects; it is not checked.
+ */
+export async function invoke<TBody = unknown>(
+  handler: (req: VercelRequest, res: VercelResponse) => Promise<void>,
+  request: {
+    method?: string;
+    headers?: Record<string, string>;
+    query?: Record<string, string>;
+    body?: unknown;
+    /** The body as sent on the wire; `body` defaults to it parsed as JSON */
+    rawBody?: string;
+  } = {}
+): Promise<{ status: number; body: TBody; headers: Record<string, string> }> {
+  const captured = { status: 0, body: undefined as unknown, headers: {} as Record<string, string> };
+  const res = {
+    status(code: number) {
+      captured.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      captured.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  };
+  const req = {
+    method: request.method || 'POST',
+    headers: request.headers || {},
+    query: request.query || {},
+    body: request.body ?? (request.rawBody !== undefined ? JSON.parse(request.rawBody) : undefined),
+  };
+  if (request.rawBody !== undefined) {
+    // Like @vercel/node after parsing the body: the stream itself is
+    // drained and only 'data' / 'end' listeners get the body replayed
+    const replay = new PassThrough();
+    replay.end(request.rawBody);
+    const events = new EventEmitter();
+    Object.assign(req, {
+      on: (event: string, listener: (...args: unknown[]) => void) =>
+        event === 'data' || event === 'end'
+          ? replay.on(event, listener)
+          : events.on(event, listener),
+      async *[Symbol.asyncIterator]() {},
+    });
+  }
+
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured as { status: number; body: TBody; headers: Record<string, string> };
+}
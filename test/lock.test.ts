@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import syncAll from '../api/sync/all';
+import approvalCheck from '../api/sync/approval-check';
+import approvalStatus from '../api/sync/approval-status';
+import {
+  jobLockTtlMs,
+  LeaseLock,
+  LockHeldError,
+  setLockBackend,
+  SharedLock,
+  StorageLockBackend,
+} from '../lib/lock';
+import { MemoryStorage } from '../lib/storage';
+import { invoke, setupDriver } from './helpers';
+
+describe('LeaseLock', () => {
+  let lock: LeaseLock;
+
+  beforeEach(() => {
+    lock = new LeaseLock(new StorageLockBackend(new MemoryStorage()));
+  });
+
+  it('hands the lease to one holder until it is released', async () => {
+    const first = await lock.acquire('sync', 60_000);
+    const second = await lock.acquire('sync', 60_000);
+
+    expect(first.acquired).toBe(true);
+    expect(second).toEqual({ acquired: false, lease: first.lease });
+    expect((await lock.acquire('approval-check', 60_000)).acquired).toBe(true);
+
+    await lock.release(first.lease);
+    expect((await lock.acquire('sync', 60_000)).acquired).toBe(true);
+  });
+
+  it('lets an expired lease be taken over, and ignores a stale release', async () => {
+    const stale = await lock.acquire('sync', -1);
+    const next = await lock.acquire('sync', 60_000);
+
+    expect(next.acquired).toBe(true);
+    await lock.release(stale.lease);
+    expect((await lock.acquire('sync', 60_000)).acquired).toBe(false);
+  });
+});
+
+describe('SharedLock', () => {
+  let backend: StorageLockBackend;
+
+  beforeEach(() => {
+    backend = new StorageLockBackend(new MemoryStorage());
+  });
+
+  it('shares one lease between overlapping calls and releases it after the last', async () => {
+    const shared = new SharedLock(backend);
+    const other = new LeaseLock(backend);
+    let finish!: () => void;
+    const first = shared.run('sync', 60_000, () => new Promise<void>((resolve) => (finish = resolve)));
+
+    await expect(shared.run('sync', 60_000, async () => 'second')).resolves.toBe('second');
+    expect((await other.acquire('sync', 60_000)).acquired).toBe(false);
+
+    finish();
+    await first;
+    expect((await other.acquire('sync', 60_000)).acquired).toBe(true);
+  });
+
+  it('does not run while another run holds the lock', async () => {
+    await new LeaseLock(backend).acquire('sync', 60_000);
+    let ran = false;
+
+    await expect(
+      new SharedLock(backend).run('sync', 60_000, async () => {
+        ran = true;
+      })
+    ).rejects.toBeInstanceOf(LockHeldError);
+    expect(ran).toBe(false);
+  });
+});
+
+describe('job lock on sync routes', () => {
+  beforeEach(() => {
+    setupDriver();
+  });
+
+  it('skips a run while the lock is held', async () => {
+    const held = await new LeaseLock().acquire('sync', 60_000);
+
+    const res = await invoke(syncAll);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      status: 'skipped',
+      result: 'skipped: locked',
+      lock: 'sync',
+      locked_until: held.lease.expiresAt,
+    });
+  });
+
+  it('keeps the approval status check out while an approval check runs', async () => {
+    await new LeaseLock().acquire('approval-check', 60_000);
+
+    const res = await invoke(approvalStatus);
+
+    expect(res.body).toMatchObject({ status: 'skipped', lock: 'approval-check' });
+  });
+
+  it('releases the lock when the run finishes', async () => {
+    expect((await invoke<{ status: string }>(approvalCheck)).body.status).not.toBe('skipped');
+
+    expect((await new LeaseLock().acquire('approval-check', 60_000)).acquired).toBe(true);
+  });
+
+  describe('lease TTL', () => {
+    const ttls: string[] = [];
+
+    beforeEach(() => {
+      ttls.length = 0;
+      const storage = new StorageLockBackend();
+      setLockBackend({
+        acquire: (name, owner, ttlMs) => {
+          ttls.push(`${name}:${ttlMs}`);
+          return storage.acquire(name, owner, ttlMs);
+        },
+        release: (name, owner) => storage.release(name, owner),
+      });
+    });
+
+    afterEach(() => {
+      setLockBackend(null);
+      delete process.env.SYNC_ABSENCES_TIMEOUT_MS;
+    });
+
+    it('outlasts every sync step timing out in turn, grace periods included', async () => {
+      process.env.SYNC_ABSENCES_TIMEOUT_MS = '600000';
+      // policies 60s + balances 120s + absences 600s, 30s grace each, 1 min margin
+      const expected = 60_000 + 120_000 + 600_000 + 3 * 30_000 + 60_000;
+
+      await invoke(syncAll);
+      await invoke(approvalCheck);
+
+      expect(jobLockTtlMs()).toBe(expected);
+      expect(ttls).toEqual([`sync:${expected}`, `approval-check:${expected}`]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../lib/rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('never lets more than capacity requests through in any interval', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ capacity: 5, intervalMs: 1000 });
+    const grantedAt: number[] = [];
+
+    const requests = Array.from({ length: 17 }, () =>
+      limiter.acquire().then(() => grantedAt.push(Date.now()))
+    );
+    await vi.advanceTimersByTimeAsync(4000);
+    await Promise.all(requests);
+
+    const start = grantedAt[0];
+    expect(grantedAt.filter((t) => t < start + 1000)).toHaveLength(5);
+    for (let i = 0; i + 5 < grantedAt.length; i++) {
+      expect(grantedAt[i + 5] - grantedAt[i]).toBeGreaterThanOrEqual(1000);
+    }
+    expect(limiter.pending).toBe(0);
+  });
+});
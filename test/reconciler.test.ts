@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import handler from '../api/sync/reconcile';
+import { LeaseLock } from '../lib/lock';
+import { PendingRepairStore } from '../lib/pending-repair';
+import { ReconcileActionLog } from '../lib/reconcile-log';
+import { ReviewQueueStore } from '../lib/review-queue';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('reconciler', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let seeded: ReturnType<typeof seedEmployee>;
+  let policyId: string;
+
+  beforeEach(() => {
+    env = setupDriver();
+    seeded = seedEmployee(env);
+    policyId = env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    }).id;
+  });
+
+  function flipRequest(startDate: string, externalId: string | null) {
+    const { request } = env.flip.requestAbsence({
+      absentee: seeded.user.id,
+      policyId,
+      startDate,
+      endDate: startDate,
+    });
+    request.external_id = externalId;
+    return request;
+  }
+
+  it('patches a missing external id when one BreatheHR leave request matches', async () => {
+    const lr = env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const request = flipRequest('2026-06-01', null);
+
+    const res = await invoke(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ fixed: 1, failed: 0, queued: 0 });
+    expect(request.external_id).toBe(String(lr.id));
+
+    const [action] = await new ReconcileActionLog().list();
+    expect(action).toMatchObject({
+      action: 'patch_external_id',
+      result: 'ok',
+      before: { id: request.id, external_id: null },
+      after: { id: request.id, external_id: String(lr.id) },
+    });
+  });
+
+  it('settles a parked webhook creation when it patches the request', async () => {
+    const lr = env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const request = flipRequest('2026-06-01', null);
+    const repairs = new PendingRepairStore();
+    await repairs.add({
+      flipAbsenceRequestId: request.id,
+      breatheLeaveRequestId: lr.id,
+      breatheEmployeeId: seeded.employee.id,
+      error: 'Flip unavailable',
+    });
+
+    await invoke(handler);
+
+    expect(request.external_id).toBe(String(lr.id));
+    expect(await repairs.list()).toEqual([]);
+  });
+
+  it('approves a Flip request BreatheHR approved, notifying through the manager', async () => {
+    const lr = env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const request = flipRequest('2026-06-01', String(lr.id));
+    env.breathe.approveLeaveRequest(lr.id);
+
+    await invoke(handler);
+
+    expect(request.status).toBe('APPROVED');
+    expect(env.flip.notifications).toEqual([
+      { action: 'APPROVED', absence_request_id: request.id, approver: seeded.manager.id },
+    ]);
+  });
+
+  it('cancels a Flip request whose BreatheHR leave was deleted and keeps the rest as is', async () => {
+    const kept = flipRequest('2026-06-01', null);
+    env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const orphan = flipRequest('2026-07-01', '999');
+    orphan.status = 'APPROVED';
+    const other = seedEmployee(env, 'E2');
+    env.flip.requestAbsence({ absentee: other.user.id, policyId, startDate: '2026-08-01', endDate: '2026-08-01' });
+
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ fixed: 2, failed: 0 });
+    const byId = (id: string) => env.flip.absenceRequests.find((r) => r.id === id);
+    expect(byId(orphan.id)?.status).toBe('CANCELLED');
+    expect(byId(kept.id)).toMatchObject({ status: 'PENDING', external_id: expect.any(String) });
+    expect(env.flip.absenceRequests).toHaveLength(3);
+
+    const cancel = (await new ReconcileActionLog().list()).find((a) => a.action === 'cancel');
+    expect(cancel).toMatchObject({
+      result: 'ok',
+      before: { status: 'APPROVED' },
+      after: { status: 'CANCELLED' },
+    });
+  });
+
+  it('leaves Flip alone while the jobs that own the writes hold their locks', async () => {
+    const lr = env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const pending = flipRequest('2026-06-01', String(lr.id));
+    env.breathe.approveLeaveRequest(lr.id);
+    const orphan = flipRequest('2026-07-01', '999');
+    const lock = new LeaseLock();
+    await lock.acquire('sync', 60_000);
+    await lock.acquire('approval-check', 60_000);
+
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ fixed: 0, failed: 2 });
+    expect(pending.status).toBe('PENDING');
+    expect(orphan.status).toBe('PENDING');
+    expect(env.flip.requests.some((r) => r.path.includes('/sync/start'))).toBe(false);
+    const actions = await new ReconcileActionLog().list();
+    expect(actions.map((a) => a.error)).toEqual([
+      expect.stringContaining('Lock "sync" is held'),
+      expect.stringContaining('Lock "approval-check" is held'),
+    ]);
+  });
+
+  it('queues ambiguous drift for review instead of fixing it', async () => {
+    env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    env.breathe.addLeaveRequest(seeded.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const request = flipRequest('2026-06-01', null);
+
+    await invoke(handler);
+    const res = await invoke(handler);
+
+    expect(res.body).toMatchObject({ fixed: 0, queued: 1 });
+    expect(request.external_id).toBeNull();
+    const items = await new ReviewQueueStore().list('open');
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      reason: 'missing_external_id',
+      flip_absence_request_id: request.id,
+      times_seen: 2,
+    });
+    expect(items[0].details.candidates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import handler from '../api/admin/reconciliation';
+import syncAbsences from '../api/sync/absences';
+import type { ReconciliationReport } from '../lib/reconciliation';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('reconciliation report', () => {
+  let env: ReturnType<typeof setupDriver>;
+  const headers = { 'x-admin-key': 'admin-key' };
+
+  beforeEach(() => {
+    env = setupDriver();
+    process.env.ADMIN_API_KEY = 'admin-key';
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+  });
+
+  it('lists mismatches and leave missing on either side', async () => {
+    const { employee, user } = seedEmployee(env);
+    const matching = env.breathe.addAbsence(employee.id, { start_date: '2026-05-01', end_date: '2026-05-01' });
+    const moved = env.breathe.addAbsence(employee.id, { start_date: '2026-05-04', end_date: '2026-05-04' });
+    await invoke(syncAbsences);
+
+    moved.end_date = '2026-05-05';
+    moved.half_end = true;
+    env.breathe.addLeaveRequest(employee.id, { start_date: '2026-06-01', end_date: '2026-06-02' });
+    const stray = env.flip.requestAbsence({
+      absentee: user.id,
+      policyId: env.flip.policies[0].id,
+      startDate: '2026-07-01',
+      endDate: '2026-07-01',
+    }).request;
+
+    const res = await invoke<ReconciliationReport>(handler, { method: 'GET', headers });
+
+    expect(res.status).toBe(200);
+    expect(res.body.summary).toEqual({
+      employees: 1,
+      matched: 1,
+      mismatch: 1,
+      missing_in_flip: 1,
+      missing_in_breathe: 1,
+      errors: 0,
+    });
+    const issues = res.body.employees[0].issues;
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        kind: 'mismatch',
+        external_id: String(moved.id),
+        changes: [
+          { field: 'end_date', from: '2026-05-04', to: '2026-05-05' },
+          { field: 'end_half', from: null, to: 'FIRST_HALF' },
+        ],
+      })
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({ kind: 'missing_in_flip', breathe_status: 'PENDING', start_date: '2026-06-01' })
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({ kind: 'missing_in_breathe', flip_absence_request_id: stray.id })
+    );
+    expect(issues.some((i) => i.external_id === String(matching.id))).toBe(false);
+  });
+
+  it('reports an employee that cannot be fetched and renders CSV', async () => {
+    const { employee } = seedEmployee(env, 'E1');
+    seedEmployee(env, 'E2');
+    env.breathe.failNext(500, { times: 10, pathPrefix: `/employees/${employee.id}/absences` });
+
+    const res = await invoke<string>(handler, { method: 'GET', headers, query: { format: 'csv' } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/csv/);
+    const lines = res.body.trim().split('\n');
+    expect(lines[0]).toBe(
+      'flip_user_id,breathe_employee_id,breathe_ref,kind,external_id,flip_absence_request_id,' +
+        'start_date,end_date,breathe_status,flip_status,differences'
+    );
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain(`,${employee.id},E1,error,`);
+  });
+});
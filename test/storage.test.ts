@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileStorage } from '../lib/storage';
+
+describe('FileStorage', () => {
+  let dir: string;
+  let storage: FileStorage;
+  const file = () => path.join(dir, 'locks.json');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'flipdriver-storage-'));
+    storage = new FileStorage(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('only rewrites the file when an update changes the document', async () => {
+    await storage.put('locks', 'sync', { owner: 'a' });
+    // Compact JSON tells a rewrite (pretty-printed) apart from no write at all
+    await fs.writeFile(file(), JSON.stringify({ sync: { owner: 'a' } }), 'utf8');
+
+    expect(await storage.update('locks', 'sync', (current) => current)).toEqual({ owner: 'a' });
+    expect(await storage.update('locks', 'sync', () => ({ owner: 'a' }))).toEqual({ owner: 'a' });
+    expect(await storage.update('locks', 'missing', () => null)).toBeNull();
+    expect(await fs.readFile(file(), 'utf8')).toBe('{"sync":{"owner":"a"}}');
+
+    await storage.update<{ owner: string }>('locks', 'sync', (current) => {
+      current!.owner = 'b';
+      return current;
+    });
+    expect(JSON.parse(await fs.readFile(file(), 'utf8'))).toEqual({ sync: { owner: 'b' } });
+  });
+});
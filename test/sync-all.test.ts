@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import handler from '../api/sync/all';
+import { JobRunSummary, runJobs } from '../lib/orchestrator';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+describe('runJobs', () => {
+  it('runs jobs in dependency order and skips dependents of a failed job', async () => {
+    const ran: string[] = [];
+    const job = (name: string, dependsOn: string[] = [], fail = false) => ({
+      name,
+      dependsOn,
+      run: async () => {
+        ran.push(name);
+        if (fail) throw new Error(`${name} broke`);
+        return name;
+      },
+    });
+
+    const summary = await runJobs([
+      job('report', ['balances']),
+      job('balances', ['policies'], true),
+      job('policies'),
+      job('absences', ['policies']),
+    ]);
+
+    expect(ran).toEqual(['policies', 'balances', 'absences']);
+    expect(summary.status).toBe('partial');
+    expect(summary.jobs.map((j) => [j.name, j.status])).toEqual([
+      ['policies', 'ok'],
+      ['balances', 'failed'],
+      ['report', 'skipped'],
+      ['absences', 'ok'],
+    ]);
+    expect(summary.jobs[1].error).toBe('balances broke');
+    expect(summary.jobs[2].blocked_by).toEqual(['balances']);
+  });
+
+  it('times out a slow job and treats a failed result as a failure', async () => {
+    const summary = await runJobs([
+      { name: 'slow', timeoutMs: 10, run: () => new Promise((resolve) => setTimeout(resolve, 200)) },
+      {
+        name: 'cancelled',
+        run: async () => ({ status: 'cancelled' }),
+        failureOf: (result: { status: string }) =>
+          result.status === 'cancelled' ? 'Sync cancelled' : undefined,
+      },
+    ]);
+
+    expect(summary.status).toBe('failed');
+    expect(summary.jobs[0]).toMatchObject({ status: 'timed_out', error: 'Job "slow" timed out after 10ms' });
+    expect(summary.jobs[1]).toMatchObject({ status: 'failed', error: 'Sync cancelled' });
+  });
+
+  it('aborts a timed-out job and waits for it to wind down before moving on', async () => {
+    const events: string[] = [];
+    const summary = await runJobs([
+      {
+        name: 'slow',
+        timeoutMs: 10,
+        run: (signal) =>
+          new Promise((_, reject) => {
+            signal.addEventListener('abort', () => {
+              setTimeout(() => {
+                events.push('slow cleaned up');
+                reject(signal.reason);
+              }, 20);
+            });
+          }),
+      },
+      { name: 'next', run: async () => events.push('next ran') },
+    ]);
+
+    expect(events).toEqual(['slow cleaned up', 'next ran']);
+    expect(summary.jobs[0]).toMatchObject({ status: 'timed_out', error: 'Job "slow" timed out after 10ms' });
+  });
+
+  it('rejects unknown dependencies and cycles before running anything', async () => {
+    const run = async () => 'ran';
+
+    await expect(runJobs([{ name: 'a', dependsOn: ['missing'], run }])).rejects.toThrow(
+      /unknown job "missing"/
+    );
+    await expect(
+      runJobs([
+        { name: 'a', dependsOn: ['b'], run },
+        { name: 'b', dependsOn: ['a'], run },
+      ])
+    ).rejects.toThrow(/cycle/);
+  });
+});
+
+describe('sync/all', () => {
+  let env: ReturnType<typeof setupDriver>;
+
+  beforeEach(() => {
+    env = setupDriver();
+    const { employee } = seedEmployee(env);
+    env.breathe.addAbsence(employee.id, { start_date: '2026-02-02', end_date: '2026-02-02' });
+  });
+
+  it('runs policies, balances and absences in-process', async () => {
+    const res = await invoke<JobRunSummary>(handler);
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('ok');
+    expect(res.body.jobs.map((j) => j.name)).toEqual([
+      'policies',
+      'balances',
+      'absences',
+    ]);
+    expect(env.flip.policies.map((p) => p.external_id)).toEqual(['annual_leave']);
+    expect(env.flip.balances).toHaveLength(1);
+    expect(env.flip.absenceRequests).toHaveLength(1);
+  });
+
+  it('skips balances and absences when the policy sync fails', async () => {
+    env.breathe.failNext(500, { times: 10, pathPrefix: '/other_leave_reasons' });
+
+    const res = await invoke<JobRunSummary>(handler);
+
+    expect(res.status).toBe(207);
+    expect(res.body.status).toBe('failed');
+    expect(res.body.jobs.map((j) => j.status)).toEqual([
+      'failed',
+      'skipped',
+      'skipped',
+    ]);
+    expect(env.flip.balances).toHaveLength(0);
+    expect(env.flip.absenceRequests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import absencesHandler from '../api/sync/absences';
+import balancesHandler from '../api/sync/balances';
+import policiesHandler from '../api/sync/policies';
+import {
+  diffAbsenceRequests,
+  diffPolicies,
+  summarizeDiff,
+  SyncDiffSummary,
+} from '../lib/sync-diff';
+import type { FlipAbsencePolicy, FlipAbsenceRequest, FlipSyncAbsenceRequest } from '../lib/types';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+function flipPolicy(fields: Partial<FlipAbsencePolicy>): FlipAbsencePolicy {
+  return {
+    id: 'p1',
+    name: 'Annual Leave',
+    half_days_allowed: true,
+    time_unit: 'DAYS',
+    time_units: ['DAYS'],
+    external_id: 'annual_leave',
+    tenant: 't',
+    created_by: 'x',
+    updated_by: 'x',
+    created_at: '',
+    updated_at: '',
+    ...fields,
+  };
+}
+
+describe('diffPolicies', () => {
+  it('reports new, renamed and stale policies', () => {
+    const diff = diffPolicies(
+      [
+        { name: 'Annual Leave', half_days_allowed: true, time_unit: 'DAYS', external_id: 'annual_leave' },
+        { name: 'Jury Duty', half_days_allowed: true, time_unit: 'DAYS', external_id: '7' },
+        { name: 'Sickness', half_days_allowed: true, time_unit: 'DAYS', external_id: '8' },
+      ],
+      [
+        flipPolicy({}),
+        flipPolicy({ id: 'p7', name: 'Jury', external_id: '7' }),
+        flipPolicy({ id: 'p9', name: 'Old Reason', external_id: '9' }),
+        flipPolicy({ id: 'px', name: 'Other integration', external_id: 'other_system' }),
+      ]
+    );
+
+    expect(summarizeDiff(diff)).toEqual({ create: 1, update: 1, remove: 1, unchanged: 1 });
+    expect(diff.create[0].external_id).toBe('8');
+    expect(diff.update[0].changes).toEqual([{ field: 'name', from: 'Jury', to: 'Jury Duty' }]);
+    expect(diff.remove[0].id).toBe('p9');
+  });
+});
+
+describe('diffAbsenceRequests', () => {
+  const item = (externalId: string, status: FlipSyncAbsenceRequest['status']): FlipSyncAbsenceRequest => ({
+    id: null,
+    external_id: externalId,
+    approver: null,
+    absentee: 'u1',
+    policy: { external_id: 'annual_leave' },
+    requestor_comment: null,
+    status,
+    last_updated: null,
+    starts_from: { date: '2026-05-01T00:00:00' },
+    ends_at: { date: '2026-05-01T00:00:00' },
+  });
+  const request = (externalId: string | null, absentee: string): FlipAbsenceRequest => ({
+    id: `r-${externalId}`,
+    external_id: externalId,
+    absentee,
+    policy_id: 'p1',
+    created_by: absentee,
+    requestor_comment: null,
+    status: 'PENDING',
+    created_at: '',
+    updated_at: '',
+    starts_from: { date: '2026-05-01T00:00:00' },
+    ends_at: { date: '2026-05-01T00:00:00' },
+    is_cancellable: true,
+  });
+
+  it('matches by external id and only removes requests in scope', () => {
+    const diff = diffAbsenceRequests(
+      [item('1', 'APPROVED'), item('2', 'PENDING')],
+      [request('1', 'u1'), request(null, 'u1'), request('3', 'u2')],
+      new Map([['annual_leave', 'p1']]),
+      (r) => r.absentee === 'u1'
+    );
+
+    expect(summarizeDiff(diff)).toEqual({ create: 1, update: 1, remove: 1, unchanged: 0 });
+    expect(diff.update[0].changes).toEqual([{ field: 'status', from: 'PENDING', to: 'APPROVED' }]);
+    expect(diff.remove[0].id).toBe('r-null');
+  });
+});
+
+describe('dry-run syncs', () => {
+  let env: ReturnType<typeof setupDriver>;
+
+  const writes = () =>
+    env.flip.requests.filter((r) => r.method !== 'GET' && !r.path.endsWith('/openid-connect/token'));
+
+  beforeEach(() => {
+    env = setupDriver();
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+  });
+
+  it('diffs policies without writing', async () => {
+    env.breathe.otherLeaveReasons.push({ id: 5, name: 'Jury Duty' });
+    seedEmployee(env);
+
+    const res = await invoke(policiesHandler, { query: { dry_run: 'true' } });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      dry_run: true,
+      summary: { create: 1, update: 0, remove: 0, unchanged: 1 },
+      would_assign: { policies: 2, users: 1 },
+    });
+    expect(writes()).toEqual([]);
+  });
+
+  it('diffs balances without writing', async () => {
+    env.breathe.holidayAllowances.push({ id: 1, name: 'Standard', units: 'days', amount: 25 });
+    const { employee } = seedEmployee(env);
+    employee.holiday_allowance = { id: 1, name: 'Standard', units: 'days', amount: 0 };
+
+    const res = await invoke<{ summary: SyncDiffSummary }>(balancesHandler, {
+      query: { dry_run: 'true' },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.summary).toEqual({ create: 1, update: 0, remove: 0, unchanged: 0 });
+    expect(writes()).toEqual([]);
+    expect(env.flip.balances).toHaveLength(0);
+  });
+
+  it('diffs absences against Flip without starting a sync', async () => {
+    const { employee, user } = seedEmployee(env);
+    env.breathe.addAbsence(employee.id, { start_date: '2026-05-01', end_date: '2026-05-01' });
+    env.breathe.addAbsence(employee.id, { start_date: '2026-05-02', end_date: '2026-05-02' });
+    await invoke(absencesHandler);
+    env.breathe.absences.pop();
+    env.breathe.addAbsence(employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+    const before = writes().length;
+
+    const res = await invoke<{ diff: { remove: FlipAbsenceRequest[] } }>(absencesHandler, {
+      query: { dry_run: 'true' },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      dry_run: true,
+      mode: 'tenant',
+      summary: { create: 1, update: 0, remove: 1, unchanged: 1 },
+      guard: { ok: true, previousItemCount: 2 },
+    });
+    expect(res.body.diff.remove[0]).toMatchObject({ absentee: user.id });
+    expect(writes()).toHaveLength(before);
+    expect(env.flip.absenceRequests).toHaveLength(2);
+  });
+});
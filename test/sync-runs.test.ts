@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import syncAbsences from '../api/sync/absences';
+import syncAll from '../api/sync/all';
+import syncPolicies from '../api/sync/policies';
+import listRuns from '../api/sync/runs/index';
+import getRun from '../api/sync/runs/[id]';
+import type { JobRunSummary } from '../lib/orchestrator';
+import type { EmployeeRunOutcome, SyncRun } from '../lib/sync-runs';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+/** GET /api/sync/runs: runs without their employee outcomes */
+type RunList = {
+  total: number;
+  runs: (SyncRun & { employee_count: number; employee?: EmployeeRunOutcome })[];
+};
+
+describe('sync run history', () => {
+  let env: ReturnType<typeof setupDriver>;
+  let first: ReturnType<typeof seedEmployee>;
+  const headers = { 'x-admin-key': 'admin-key' };
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = 'admin-key';
+    env = setupDriver();
+    env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    });
+    first = seedEmployee(env, 'E1');
+    const second = seedEmployee(env, 'E2');
+    env.breathe.addAbsence(first.employee.id, { start_date: '2026-05-04', end_date: '2026-05-05' });
+    env.breathe.addAbsence(second.employee.id, { start_date: '2026-06-01', end_date: '2026-06-01' });
+  });
+
+  it('records an absence sync with its trigger, sync id and employee outcomes', async () => {
+    const sync = await invoke<{ run_id: string; sync_id: string }>(syncAbsences, { headers: { 'user-agent': 'vercel-cron/1.0' } });
+
+    const detail = await invoke<{ run: SyncRun }>(getRun, { method: 'GET', headers, query: { id: sync.body.run_id } });
+
+    expect(detail.status).toBe(200);
+    expect(detail.body.run).toMatchObject({
+      job: 'absences',
+      trigger: 'cron',
+      status: 'ok',
+      counts: { synced: 2, absences: 2 },
+      sync_ids: [sync.body.sync_id],
+      errors: [],
+    });
+    expect(detail.body.run.finished_at).not.toBeNull();
+    expect(detail.body.run.employees).toContainEqual({
+      flip_user_id: first.user.id,
+      breathe_employee_id: first.employee.id,
+      breathe_ref: 'E1',
+      status: 'ok',
+      counts: { items: 1, absences: 1, pending: 0, rejected: 0 },
+    });
+  });
+
+  it('answers when an employee last synced and what happened', async () => {
+    await invoke(syncAbsences);
+    // E1's sync can't be started
+    env.flip.failNext(500, { pathPrefix: '/api/hr/v4/integration/absence-requests/sync/start' });
+    await invoke(syncAbsences, { query: { mode: 'per_employee' } });
+
+    const res = await invoke<RunList>(listRuns, { method: 'GET', headers, query: { employee: 'E1' } });
+
+    expect(res.body.total).toBe(2);
+    const partial = res.body.runs.find((r) => r.status === 'partial');
+    const ok = res.body.runs.find((r) => r.status === 'ok');
+    expect(partial).toMatchObject({ job: 'absences', trigger: 'manual', employee_count: 2 });
+    expect(partial?.employee).toMatchObject({ breathe_ref: 'E1', status: 'failed' });
+    expect(partial?.errors[0]).toMatch(/^Employee \d+ \(E1\): /);
+    expect(ok?.employee).toMatchObject({ breathe_ref: 'E1', status: 'ok' });
+    expect(partial?.employees).toBeUndefined();
+  });
+
+  it('records a run that threw as failed', async () => {
+    env.breathe.failNext(500, { times: 10, pathPrefix: '/other_leave_reasons' });
+
+    await invoke(syncPolicies);
+
+    const res = await invoke<RunList>(listRuns, { method: 'GET', headers, query: { job: 'policies' } });
+    expect(res.body.runs).toHaveLength(1);
+    expect(res.body.runs[0]).toMatchObject({ status: 'failed', errors: [expect.stringMatching(/500/)] });
+  });
+
+  it('records each step of sync/all as its own run', async () => {
+    const all = await invoke<JobRunSummary>(syncAll, { query: { trigger: 'manual' } });
+
+    const res = await invoke<RunList>(listRuns, { method: 'GET', headers });
+
+    expect(res.body.runs.map((r) => r.job).sort()).toEqual([
+      'absences',
+      'balances',
+      'policies',
+    ]);
+    expect(all.body.jobs.map((j) => (j.result as { run_id: string }).run_id)).toEqual(
+      expect.arrayContaining(res.body.runs.map((r) => r.id))
+    );
+  });
+
+  it('requires the admin key and 404s an unknown run', async () => {
+    expect((await invoke(listRuns, { method: 'GET' })).status).toBe(401);
+    expect((await invoke(getRun, { method: 'GET', headers, query: { id: 'nope' } })).status).toBe(404);
+  });
+});
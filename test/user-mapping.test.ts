@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UserMappingService } from '../lib/user-mapping';
+import { seedEmployee, setupDriver } from './helpers';
+
+describe('UserMappingService', () => {
+  it('looks Flip users up concurrently and keeps BreatheHR order', async () => {
+    const env = setupDriver();
+    const refs = ['E1', 'E2', 'E3', 'E4', 'E5'];
+    const seeded = refs.map((ref) => seedEmployee(env, ref));
+    const { breathe, flip } = env.clients;
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const find = flip.findUserByExtHRRef.bind(flip);
+    vi.spyOn(flip, 'findUserByExtHRRef').mockImplementation(async (ref) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      // Earlier refs answer last
+      const delayMs = 5 * (refs.length - refs.indexOf(ref));
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      inFlight--;
+      return find(ref);
+    });
+
+    const service = new UserMappingService(breathe, flip, { concurrency: 2 });
+    const mappings = await service.refreshMappings();
+
+    expect(mappings.map((m) => m.breatheRef)).toEqual(refs);
+    expect(mappings.map((m) => m.flipUserId)).toEqual(seeded.map((s) => s.user.id));
+    expect(maxInFlight).toBe(2);
+  });
+});
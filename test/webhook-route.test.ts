@@ -0,0 +1,97 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../lib/webhook-signature';
+import { invoke, seedEmployee, setupDriver } from './helpers';
+
+type Handler = (req: VercelRequest, res: VercelResponse) => Promise<void>;
+
+describe('/api/webhooks/absence-request', () => {
+  const secret = 'webhook-secret';
+  let env: ReturnType<typeof setupDriver>;
+  let seeded: ReturnType<typeof seedEmployee>;
+  let policyId: string;
+  let webhook: Handler;
+
+  beforeEach(async () => {
+    process.env.FLIP_WEBHOOK_SECRET = secret;
+    env = setupDriver();
+    seeded = seedEmployee(env);
+    policyId = env.flip.addPolicy({
+      name: 'Annual Leave',
+      half_days_allowed: true,
+      time_unit: 'DAYS',
+      external_id: 'annual_leave',
+    }).id;
+    // The route builds its clients and stores at import time, so it is
+    // imported afresh — with the fresh module instances pointed at the fakes
+    vi.resetModules();
+    (await import('../lib/clients')).setTransport(env.transport);
+    const storage = await import('../lib/storage');
+    storage.setStorage(new storage.MemoryStorage());
+    webhook = (await import('../api/webhooks/absence-request')).default;
+  });
+
+  afterEach(() => {
+    delete process.env.FLIP_WEBHOOK_SECRET;
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  function delivery() {
+    const { request, webhookItem } = env.flip.requestAbsence({
+      absentee: seeded.user.id,
+      policyId,
+      startDate: '2026-11-02',
+      endDate: '2026-11-04',
+    });
+    return { request, rawBody: JSON.stringify({ id: 'batch-1', items: [webhookItem] }) };
+  }
+
+  it('processes a correctly signed delivery', async () => {
+    const { request, rawBody } = delivery();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const res = await invoke(webhook, {
+      headers: {
+        [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, rawBody)}`,
+        [TIMESTAMP_HEADER]: timestamp,
+      },
+      rawBody,
+    });
+
+    expect(res.status).toBe(200);
+    expect(env.breathe.leaveRequests).toHaveLength(1);
+    expect(request.external_id).toBe(String(env.breathe.leaveRequests[0].id));
+  });
+
+  it('rejects a delivery signed with another secret', async () => {
+    const { rawBody } = delivery();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const res = await invoke(webhook, {
+      headers: {
+        [SIGNATURE_HEADER]: computeSignature('other-secret', timestamp, rawBody),
+        [TIMESTAMP_HEADER]: timestamp,
+      },
+      rawBody,
+    });
+
+    expect(res.status).toBe(401);
+    expect(env.breathe.leaveRequests).toHaveLength(0);
+  });
+
+  it('only shows the webhook log to admins', async () => {
+    process.env.ADMIN_API_KEY = 'admin-key';
+    const { rawBody } = delivery();
+    await invoke(webhook, { rawBody });
+
+    expect((await invoke(webhook, { method: 'GET' })).status).toBe(401);
+    expect((await invoke(webhook, { method: 'GET', query: { id: 'batch-1' } })).status).toBe(401);
+
+    const res = await invoke<{ logs: unknown[] }>(webhook, {
+      method: 'GET',
+      headers: { 'x-admin-key': 'admin-key' },
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.logs).toHaveLength(1);
+  });
+});